@@ -1,7 +1,9 @@
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
-import { neon } from '@neondatabase/serverless';
 import dotenv from 'dotenv';
+import { connect } from '../src/database/connect';
+import { SqlClient } from '../src/database/client';
 
 // Load environment variables
 dotenv.config();
@@ -13,111 +15,329 @@ if (!DATABASE_URL) {
   process.exit(1);
 }
 
-const sql = neon(DATABASE_URL);
+const sql = connect(DATABASE_URL, { driver: process.env.DATABASE_DRIVER, poolSize: 1 });
+
+const MIGRATIONS_DIR = path.join(__dirname, '../src/database/migrations');
+
+// pg_advisory_lock key shared by every migrate process against the same database
+const MIGRATION_LOCK_KEY = 72_640_112;
+
+const USAGE = `Usage: npm run migrate -- [command] [--dry-run]
+
+Commands:
+  up          Apply all pending migrations (default)
+  down [N]    Roll back the last N applied migrations (default: 1)
+  status      List applied, pending and changed migrations
+
+Options:
+  --dry-run   Show what would run without changing the database`;
 
 interface Migration {
   name: string;
-  content: string;
+  up: string;
+  down: string | null;
+  checksum: string;
+}
+
+interface AppliedMigration {
+  name: string;
+  checksum: string | null;
+  executed_at: Date;
+}
+
+interface Options {
+  command: 'up' | 'down' | 'status';
+  steps: number;
+  dryRun: boolean;
+}
+
+function parseArgs(argv: string[]): Options {
+  const dryRun = argv.includes('--dry-run');
+  const [command = 'up', steps, ...rest] = argv.filter((arg) => arg !== '--dry-run');
+
+  if (command !== 'up' && command !== 'down' && command !== 'status') {
+    throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+
+  const count = steps === undefined ? 1 : Number(steps);
+
+  if (rest.length > 0 || (steps !== undefined && command !== 'down')) {
+    throw new Error(`Unexpected arguments\n\n${USAGE}`);
+  }
+
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`down expects a positive number of migrations, got "${steps}"`);
+  }
+
+  return { command, steps: count, dryRun };
+}
+
+// Line endings are normalised so a checkout with CRLF does not look like an edit
+function checksum(content: string): string {
+  return crypto.createHash('sha256').update(content.replace(/\r\n/g, '\n')).digest('hex');
 }
 
 async function getMigrations(): Promise<Migration[]> {
-  const migrationsDir = path.join(__dirname, '../src/database/migrations');
-  const files = fs.readdirSync(migrationsDir).filter((file) => file.endsWith('.sql'));
+  const files = fs.readdirSync(MIGRATIONS_DIR);
+  const upFiles = files.filter((file) => file.endsWith('.sql') && !file.endsWith('.down.sql'));
 
-  const migrations: Migration[] = files.sort().map((file) => ({
-    name: file,
-    content: fs.readFileSync(path.join(migrationsDir, file), 'utf-8'),
+  return upFiles.sort().map((file) => {
+    const up = fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf-8');
+    const downFile = file.replace(/\.sql$/, '.down.sql');
+
+    return {
+      name: file,
+      up,
+      down: files.includes(downFile)
+        ? fs.readFileSync(path.join(MIGRATIONS_DIR, downFile), 'utf-8')
+        : null,
+      checksum: checksum(up),
+    };
+  });
+}
+
+async function createMigrationsTable(db: SqlClient): Promise<void> {
+  await db`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id SERIAL PRIMARY KEY,
+      migration_name VARCHAR(255) UNIQUE NOT NULL,
+      executed_at TIMESTAMP DEFAULT NOW()
+    )
+  `;
+  await db`ALTER TABLE schema_migrations ADD COLUMN IF NOT EXISTS checksum VARCHAR(64)`;
+}
+
+async function getAppliedMigrations(db: SqlClient): Promise<AppliedMigration[]> {
+  const [table] = await db`SELECT to_regclass('schema_migrations') AS name`;
+
+  if (!table.name) {
+    return [];
+  }
+
+  // to_jsonb keeps this read-only query working before the checksum column exists
+  const rows = await db<{ migration_name: string; checksum: string | null; executed_at: Date }>`
+    SELECT migration_name, to_jsonb(m) ->> 'checksum' AS checksum, executed_at
+    FROM schema_migrations m
+    ORDER BY executed_at, id
+  `;
+
+  return rows.map((row) => ({
+    name: row.migration_name,
+    checksum: row.checksum,
+    executed_at: row.executed_at,
   }));
+}
 
-  return migrations;
+// Rows applied before checksums were tracked adopt the checksum of the file on disk
+async function recordMissingChecksums(
+  db: SqlClient,
+  migrations: Migration[],
+  applied: AppliedMigration[]
+): Promise<void> {
+  for (const row of applied) {
+    const migration = migrations.find((m) => m.name === row.name);
+    if (row.checksum === null && migration) {
+      await db`
+        UPDATE schema_migrations SET checksum = ${migration.checksum}
+        WHERE migration_name = ${row.name}
+      `;
+      row.checksum = migration.checksum;
+      console.log(`🔏 Recorded checksum for: ${row.name}`);
+    }
+  }
+}
+
+function findChangedMigrations(migrations: Migration[], applied: AppliedMigration[]): string[] {
+  return applied
+    .filter((row) => {
+      const migration = migrations.find((m) => m.name === row.name);
+      return migration && row.checksum !== null && row.checksum !== migration.checksum;
+    })
+    .map((row) => row.name);
 }
 
-async function createMigrationsTable(): Promise<void> {
+async function withLock<T>(db: SqlClient, fn: () => Promise<T>): Promise<T> {
+  const [{ locked }] = await db`SELECT pg_try_advisory_lock(${MIGRATION_LOCK_KEY}) AS locked`;
+
+  if (!locked) {
+    console.log('⏳ Another migration is running, waiting for it to finish...');
+    await db`SELECT pg_advisory_lock(${MIGRATION_LOCK_KEY})`;
+  }
+
   try {
-    await sql`
-      CREATE TABLE IF NOT EXISTS schema_migrations (
-        id SERIAL PRIMARY KEY,
-        migration_name VARCHAR(255) UNIQUE NOT NULL,
-        executed_at TIMESTAMP DEFAULT NOW()
-      );
-    `;
-    console.log('✅ Migrations table created/verified');
-  } catch (error) {
-    console.error('❌ Failed to create migrations table:', error);
-    throw error;
+    return await fn();
+  } finally {
+    await db`SELECT pg_advisory_unlock(${MIGRATION_LOCK_KEY})`;
   }
 }
 
-async function getExecutedMigrations(): Promise<string[]> {
+// The whole file runs as one multi-statement query, so functions and DO blocks stay intact
+async function runInTransaction(db: SqlClient, fn: () => Promise<void>): Promise<void> {
+  await db`BEGIN`;
   try {
-    const result = await sql`SELECT migration_name FROM schema_migrations ORDER BY executed_at`;
-    return result.map((row: any) => row.migration_name);
+    await fn();
+    await db`COMMIT`;
   } catch (error) {
-    console.error('❌ Failed to fetch executed migrations:', error);
+    await db`ROLLBACK`;
     throw error;
   }
 }
 
-async function runMigration(name: string, content: string): Promise<void> {
-  try {
-    // Split by semicolon and filter empty statements
-    const statements = content
-      .split(';')
-      .map((stmt) => stmt.trim())
-      .filter((stmt) => stmt.length > 0);
-
-    for (const statement of statements) {
-      await sql.query(statement);
+async function applyMigration(db: SqlClient, migration: Migration): Promise<void> {
+  await runInTransaction(db, async () => {
+    await db.query(migration.up);
+    await db`
+      INSERT INTO schema_migrations (migration_name, checksum)
+      VALUES (${migration.name}, ${migration.checksum})
+    `;
+  });
+}
+
+async function revertMigration(db: SqlClient, migration: Migration): Promise<void> {
+  await runInTransaction(db, async () => {
+    await db.query(migration.down as string);
+    await db`DELETE FROM schema_migrations WHERE migration_name = ${migration.name}`;
+  });
+}
+
+async function migrateUp(db: SqlClient, migrations: Migration[], dryRun: boolean): Promise<void> {
+  const applied = new Set((await getAppliedMigrations(db)).map((row) => row.name));
+  const pending = migrations.filter((migration) => !applied.has(migration.name));
+
+  console.log(`📋 Found ${migrations.length} migration(s)`);
+  console.log(`✓ Already executed: ${applied.size}\n`);
+
+  if (pending.length === 0) {
+    console.log('✨ Database is up to date');
+    return;
+  }
+
+  for (const migration of pending) {
+    if (dryRun) {
+      console.log(`📝 Would apply: ${migration.name}`);
+      continue;
     }
+    await applyMigration(db, migration);
+    console.log(`✅ Applied migration: ${migration.name}`);
+  }
 
-    // Record migration in tracking table
-    await sql`
-      INSERT INTO schema_migrations (migration_name)
-      VALUES (${name})
-      ON CONFLICT (migration_name) DO NOTHING
-    `;
+  if (!dryRun) {
+    console.log(`\n✨ Migration completed! (${pending.length} new migration(s) applied)`);
+  }
+}
 
-    console.log(`✅ Applied migration: ${name}`);
-  } catch (error) {
-    console.error(`❌ Failed to apply migration ${name}:`, error);
-    throw error;
+async function migrateDown(
+  db: SqlClient,
+  migrations: Migration[],
+  steps: number,
+  dryRun: boolean
+): Promise<void> {
+  const applied = await getAppliedMigrations(db);
+  const targets = applied.slice(-steps).reverse();
+
+  if (targets.length === 0) {
+    console.log('⚠️  No applied migrations to roll back');
+    return;
+  }
+
+  // Check every target before touching anything
+  const plan = targets.map((row) => {
+    const migration = migrations.find((m) => m.name === row.name);
+    if (!migration) {
+      throw new Error(`Migration file for ${row.name} no longer exists`);
+    }
+    if (migration.down === null) {
+      throw new Error(
+        `${row.name} has no down migration (${row.name.replace(/\.sql$/, '.down.sql')})`
+      );
+    }
+    return migration;
+  });
+
+  for (const migration of plan) {
+    if (dryRun) {
+      console.log(`📝 Would roll back: ${migration.name}`);
+      continue;
+    }
+    await revertMigration(db, migration);
+    console.log(`↩️  Rolled back migration: ${migration.name}`);
+  }
+
+  if (!dryRun) {
+    console.log(`\n✨ Rollback completed! (${plan.length} migration(s) rolled back)`);
   }
 }
 
-async function runMigrations(): Promise<void> {
-  try {
-    console.log('\n🔄 Starting database migrations...\n');
+async function printStatus(db: SqlClient, migrations: Migration[]): Promise<void> {
+  const applied = await getAppliedMigrations(db);
+  const appliedByName = new Map(applied.map((row) => [row.name, row]));
 
-    // Create migrations tracking table
-    await createMigrationsTable();
+  for (const migration of migrations) {
+    const row = appliedByName.get(migration.name);
+    const rollback = migration.down === null ? ' (no down migration)' : '';
 
-    // Get list of migrations to run
-    const migrations = await getMigrations();
-    const executedMigrations = await getExecutedMigrations();
+    if (!row) {
+      console.log(`⏸️  pending   ${migration.name}${rollback}`);
+    } else if (row.checksum === null) {
+      console.log(`❔ applied   ${migration.name} (no checksum recorded yet)`);
+    } else if (row.checksum !== migration.checksum) {
+      console.log(`❗ CHANGED   ${migration.name} (edited after it was applied)`);
+    } else {
+      console.log(`✅ applied   ${migration.name}`);
+    }
+  }
 
-    if (migrations.length === 0) {
-      console.log('⚠️  No migrations found');
-      return;
+  for (const row of applied) {
+    if (!migrations.some((migration) => migration.name === row.name)) {
+      console.log(`⚠️  missing   ${row.name} (applied, but the file no longer exists)`);
     }
+  }
+}
+
+async function runMigrations(): Promise<void> {
+  try {
+    const options = parseArgs(process.argv.slice(2));
+    const migrations = await getMigrations();
 
-    console.log(`📋 Found ${migrations.length} migration(s)`);
-    console.log(`✓ Already executed: ${executedMigrations.length}\n`);
-
-    // Run pending migrations
-    let executedCount = 0;
-    for (const migration of migrations) {
-      if (!executedMigrations.includes(migration.name)) {
-        await runMigration(migration.name, migration.content);
-        executedCount++;
-      } else {
-        console.log(`⏭️  Skipped (already executed): ${migration.name}`);
+    await sql.session(async (db) => {
+      if (options.command === 'status') {
+        await printStatus(db, migrations);
+        return;
       }
-    }
 
-    console.log(`\n✨ Migration completed! (${executedCount} new migration(s) applied)`);
+      const action =
+        options.command === 'up' ? 'Starting database migrations' : 'Rolling back migrations';
+      console.log(`\n🔄 ${action}${options.dryRun ? ' (dry run)' : ''}...\n`);
+
+      const run = async () => {
+        if (!options.dryRun) {
+          await createMigrationsTable(db);
+          await recordMissingChecksums(db, migrations, await getAppliedMigrations(db));
+        }
+
+        const changed = findChangedMigrations(migrations, await getAppliedMigrations(db));
+        if (changed.length > 0) {
+          throw new Error(
+            `Applied migration(s) have been modified since they ran: ${changed.join(', ')}\n` +
+              'Add a new migration instead of editing an applied one.'
+          );
+        }
+
+        if (options.command === 'up') {
+          await migrateUp(db, migrations, options.dryRun);
+        } else {
+          await migrateDown(db, migrations, options.steps, options.dryRun);
+        }
+      };
+
+      // A dry run only reads, so it does not wait for a running migration
+      await (options.dryRun ? run() : withLock(db, run));
+    });
   } catch (error) {
-    console.error('\n❌ Migration failed:', error);
-    process.exit(1);
+    console.error('\n❌ Migration failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await sql.end();
   }
 }
 
@@ -1,2 +1,533 @@
 // Database seeding script
-// TODO: Execute seed.sql for development/testing data population
+// Loads the sample fixtures in seed.sql, or generates deterministic volume data for load testing
+
+import fs from 'fs';
+import path from 'path';
+import bcrypt from 'bcryptjs';
+import dotenv from 'dotenv';
+import { connect } from '../src/database/connect';
+import {
+  InventoryMovementReason,
+  OrderStatus,
+  PaymentStatus,
+  RefundStatus,
+  ReservationStatus,
+  UserRole,
+} from '../src/types/index';
+
+// Load environment variables
+dotenv.config();
+
+const DATABASE_URL = process.env.DATABASE_URL;
+
+if (!DATABASE_URL) {
+  console.error('❌ DATABASE_URL environment variable is not set');
+  process.exit(1);
+}
+
+const sql = connect(DATABASE_URL, { driver: process.env.DATABASE_DRIVER, poolSize: 1 });
+
+const SEED_FILE = path.join(__dirname, '../src/database/seeds/seed.sql');
+
+// Every generated user can log in with this password
+const SEED_PASSWORD = 'password123';
+
+// Pending orders hold their stock this long, as in the app (RESERVATION_TTL_MINUTES)
+const RESERVATION_TTL_MS = parseInt(process.env.RESERVATION_TTL_MINUTES || '15', 10) * 60_000;
+
+const USAGE = `Usage: npm run seed -- [options]
+
+Options:
+  --sample            Load the fixtures in src/database/seeds/seed.sql and exit
+  --users N           Users to generate (default: 100000)
+  --products N        Products to generate (default: 10000)
+  --orders N          Orders to generate (default: 50000)
+  --seed N            RNG seed; the same seed produces the same data (default: 42)
+  --batch-size N      Rows per insert statement (default: 1000)`;
+
+interface Options {
+  sample: boolean;
+  users: number;
+  products: number;
+  orders: number;
+  seed: number;
+  batchSize: number;
+}
+
+const DEFAULT_OPTIONS: Options = {
+  sample: false,
+  users: 100_000,
+  products: 10_000,
+  orders: 50_000,
+  seed: 42,
+  batchSize: 1_000,
+};
+
+// Share of generated orders in each status, and the path each one took to get there
+const STATUS_MIX: { status: OrderStatus; weight: number; path: OrderStatus[] }[] = [
+  { status: OrderStatus.PENDING, weight: 10, path: [OrderStatus.PENDING] },
+  {
+    status: OrderStatus.CONFIRMED,
+    weight: 15,
+    path: [OrderStatus.PENDING, OrderStatus.CONFIRMED],
+  },
+  {
+    status: OrderStatus.SHIPPED,
+    weight: 15,
+    path: [OrderStatus.PENDING, OrderStatus.CONFIRMED, OrderStatus.SHIPPED],
+  },
+  {
+    status: OrderStatus.DELIVERED,
+    weight: 50,
+    path: [OrderStatus.PENDING, OrderStatus.CONFIRMED, OrderStatus.SHIPPED, OrderStatus.DELIVERED],
+  },
+  {
+    status: OrderStatus.CANCELLED,
+    weight: 10,
+    path: [OrderStatus.PENDING, OrderStatus.CANCELLED],
+  },
+];
+
+const CANCELLED_MIX = STATUS_MIX.find(
+  (mix) => mix.status === OrderStatus.CANCELLED
+) as (typeof STATUS_MIX)[number];
+
+const PAYMENT_METHODS = ['card', 'card', 'card', 'paypal', 'bank_transfer'];
+
+// prettier-ignore
+const FIRST_NAMES = [
+  'James', 'Mary', 'Robert', 'Patricia', 'John', 'Jennifer', 'Michael', 'Linda', 'David',
+  'Elizabeth', 'William', 'Barbara', 'Richard', 'Susan', 'Joseph', 'Jessica', 'Thomas', 'Sarah',
+  'Priya', 'Wei', 'Aisha', 'Mateo', 'Yuki', 'Olga', 'Kwame', 'Sofia', 'Arjun', 'Fatima',
+];
+
+// prettier-ignore
+const LAST_NAMES = [
+  'Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Garcia', 'Miller', 'Davis', 'Rodriguez',
+  'Martinez', 'Hernandez', 'Lopez', 'Wilson', 'Anderson', 'Thomas', 'Taylor', 'Moore', 'Nair',
+  'Chen', 'Okafor', 'Sato', 'Ivanova', 'Mensah', 'Rossi', 'Patel', 'Haddad',
+];
+
+// prettier-ignore
+const ADJECTIVES = [
+  'Compact', 'Wireless', 'Ergonomic', 'Premium', 'Portable', 'Smart', 'Classic', 'Ultra', 'Eco',
+  'Heavy-Duty', 'Slim', 'Pro', 'Mini', 'Deluxe', 'Rugged', 'Modular',
+];
+
+// prettier-ignore
+const NOUNS = [
+  'Laptop', 'Mouse', 'Keyboard', 'Monitor', 'Headphones', 'Webcam', 'Charger', 'Cable', 'Speaker',
+  'Router', 'Tablet', 'Backpack', 'Lamp', 'Microphone', 'SSD', 'Dock',
+];
+
+/**
+ * Deterministic pseudo-random generator (mulberry32)
+ */
+class Random {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Uniform float in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Uniform integer in [min, max]
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  weighted<T extends { weight: number }>(items: readonly T[]): T {
+    const total = items.reduce((sum, item) => sum + item.weight, 0);
+    let roll = this.next() * total;
+    for (const item of items) {
+      roll -= item.weight;
+      if (roll < 0) {
+        return item;
+      }
+    }
+    return items[items.length - 1];
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+}
+
+function parseArgs(argv: string[]): Options {
+  const options = { ...DEFAULT_OPTIONS };
+  const numeric: Record<string, keyof Omit<Options, 'sample'>> = {
+    '--users': 'users',
+    '--products': 'products',
+    '--orders': 'orders',
+    '--seed': 'seed',
+    '--batch-size': 'batchSize',
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '--sample') {
+      options.sample = true;
+    } else if (arg in numeric) {
+      const value = Number(argv[++i]);
+      if (!Number.isInteger(value) || value < 0) {
+        throw new Error(`${arg} expects a non-negative integer\n\n${USAGE}`);
+      }
+      options[numeric[arg]] = value;
+    } else {
+      throw new Error(`Unknown option "${arg}"\n\n${USAGE}`);
+    }
+  }
+
+  if (options.batchSize < 1) {
+    throw new Error('--batch-size must be at least 1');
+  }
+
+  return options;
+}
+
+// Run fn over [0, total) in batches, printing progress
+async function inBatches(
+  label: string,
+  total: number,
+  batchSize: number,
+  fn: (start: number, end: number) => Promise<void>
+): Promise<void> {
+  for (let start = 0; start < total; start += batchSize) {
+    const end = Math.min(start + batchSize, total);
+    await fn(start, end);
+    process.stdout.write(`\r   ${label}: ${end}/${total}`);
+  }
+  if (total > 0) {
+    process.stdout.write('\n');
+  }
+}
+
+async function loadSample(): Promise<void> {
+  const content = fs.readFileSync(SEED_FILE, 'utf-8');
+
+  // One multi-statement query needs a real session on the Neon driver
+  await sql.session((db) => db.query(content));
+
+  console.log('✅ Loaded sample fixtures from seed.sql');
+}
+
+async function seedUsers(rng: Random, options: Options): Promise<void> {
+  const passwordHash = await bcrypt.hash(SEED_PASSWORD, 10);
+
+  await inBatches('users', options.users, options.batchSize, async (start, end) => {
+    const names: string[] = [];
+    const emails: string[] = [];
+    const roles: string[] = [];
+
+    for (let i = start; i < end; i++) {
+      const first = rng.pick(FIRST_NAMES);
+      const last = rng.pick(LAST_NAMES);
+      names.push(`${first} ${last}`);
+      emails.push(`${first}.${last}.${options.seed}.${i}@seed.example.com`.toLowerCase());
+      roles.push(rng.chance(0.01) ? UserRole.STAFF : UserRole.CUSTOMER);
+    }
+
+    await sql`
+      INSERT INTO users (name, email, role, password_hash)
+      SELECT name, email, role, ${passwordHash}
+      FROM unnest(${names}::text[], ${emails}::text[], ${roles}::text[]) AS u(name, email, role)
+      ON CONFLICT (email) DO NOTHING
+    `;
+  });
+}
+
+async function seedProducts(rng: Random, options: Options): Promise<void> {
+  await inBatches('products', options.products, options.batchSize, async (start, end) => {
+    const names: string[] = [];
+    const prices: string[] = [];
+    const stocks: number[] = [];
+
+    for (let i = start; i < end; i++) {
+      names.push(`${rng.pick(ADJECTIVES)} ${rng.pick(NOUNS)} #${options.seed}-${i}`);
+      // Skewed towards cheap items: roughly $1 to $2000
+      prices.push((Math.exp(rng.next() * Math.log(2000)) + rng.next()).toFixed(2));
+      stocks.push(rng.chance(0.05) ? 0 : rng.int(1, 500));
+    }
+
+    // Opening stock goes through the inventory ledger, so stock reconciles with its movements
+    await sql`
+      WITH inserted AS (
+        INSERT INTO products (name, price, stock)
+        SELECT * FROM unnest(${names}::text[], ${prices}::numeric[], ${stocks}::int[])
+        RETURNING id, stock
+      )
+      INSERT INTO inventory_movements (product_id, quantity, reason, note)
+      SELECT id, stock, ${InventoryMovementReason.RESTOCK}, 'Seeded' FROM inserted WHERE stock > 0
+    `;
+  });
+}
+
+async function seedOrders(rng: Random, options: Options): Promise<void> {
+  const userRows = await sql`SELECT id FROM users ORDER BY id`;
+  const productRows =
+    await sql`SELECT id, price, stock - reserved AS available FROM products ORDER BY id`;
+
+  if (options.orders > 0 && (userRows.length === 0 || productRows.length === 0)) {
+    throw new Error('Orders need at least one user and one product');
+  }
+
+  const userIds = userRows.map((row) => Number(row.id));
+  const products = productRows.map((row) => ({
+    id: Number(row.id),
+    cents: Math.round(Number(row.price) * 100),
+    available: Number(row.available),
+  }));
+  // Dates count back from midnight UTC, so reruns on the same day match exactly
+  const now = new Date().setUTCHours(0, 0, 0, 0);
+
+  await inBatches('orders', options.orders, options.batchSize, async (start, end) => {
+    const count = end - start;
+
+    // Reserve IDs up front so items, payments and history can reference their order
+    const idRows = await sql`
+      SELECT nextval(pg_get_serial_sequence('orders', 'id')) AS id
+      FROM generate_series(1, ${count}::int)
+    `;
+
+    const orders = { ids: [] as number[], users: [] as number[], totals: [] as string[] };
+    const orderMeta = { statuses: [] as string[], createdAt: [] as string[] };
+    const items = { orders: [] as number[], products: [] as number[], qty: [] as number[] };
+    const itemPrices: string[] = [];
+    const payments = {
+      orders: [] as number[],
+      amounts: [] as string[],
+      statuses: [] as string[],
+      methods: [] as string[],
+      transactions: [] as (string | null)[],
+      createdAt: [] as string[],
+    };
+    // Pending orders hold active reservations, orders past pending committed theirs (a sale
+    // out of stock) and cancelled orders released theirs, as placing and moving orders does
+    const reservations = {
+      orders: [] as number[],
+      products: [] as number[],
+      qty: [] as number[],
+      statuses: [] as string[],
+      createdAt: [] as string[],
+      updatedAt: [] as string[],
+    };
+    const history = {
+      orders: [] as number[],
+      from: [] as (string | null)[],
+      to: [] as string[],
+      reasons: [] as string[],
+      createdAt: [] as string[],
+    };
+
+    for (let i = 0; i < count; i++) {
+      const orderId = Number(idRows[i].id);
+      const drawn = rng.weighted(STATUS_MIX);
+
+      const lines = new Map<(typeof products)[number], number>();
+      const lineCount = rng.int(1, 5);
+      for (let line = 0; line < lineCount; line++) {
+        const product = rng.pick(products);
+        lines.set(product, (lines.get(product) ?? 0) + rng.int(1, 3));
+      }
+
+      // An order the remaining stock cannot cover was cancelled instead
+      const fits = [...lines].every(([product, quantity]) => quantity <= product.available);
+      const { status, path: statusPath } = fits ? drawn : CANCELLED_MIX;
+      // Spread over the last year, one to three days between status changes
+      const placedAt = now - rng.int(statusPath.length * 3, 365) * 86_400_000;
+
+      const changedAt = [placedAt];
+      for (let step = 1; step < statusPath.length; step++) {
+        changedAt.push(changedAt[step - 1] + rng.int(1, 3) * 86_400_000);
+      }
+
+      const reservationStatus =
+        status === OrderStatus.PENDING
+          ? ReservationStatus.ACTIVE
+          : status === OrderStatus.CANCELLED
+            ? ReservationStatus.RELEASED
+            : ReservationStatus.COMMITTED;
+
+      let totalCents = 0;
+      for (const [product, quantity] of lines) {
+        items.orders.push(orderId);
+        items.products.push(product.id);
+        items.qty.push(quantity);
+        itemPrices.push((product.cents / 100).toFixed(2));
+        totalCents += product.cents * quantity;
+
+        reservations.orders.push(orderId);
+        reservations.products.push(product.id);
+        reservations.qty.push(quantity);
+        reservations.statuses.push(reservationStatus);
+        reservations.createdAt.push(new Date(placedAt).toISOString());
+        reservations.updatedAt.push(
+          new Date(changedAt[Math.min(1, changedAt.length - 1)]).toISOString()
+        );
+
+        if (status !== OrderStatus.CANCELLED) {
+          product.available -= quantity;
+        }
+      }
+
+      const total = (totalCents / 100).toFixed(2);
+      orders.ids.push(orderId);
+      orders.users.push(rng.pick(userIds));
+      orders.totals.push(total);
+      orderMeta.statuses.push(status);
+      orderMeta.createdAt.push(new Date(placedAt).toISOString());
+
+      statusPath.forEach((to, step) => {
+        history.orders.push(orderId);
+        history.from.push(step === 0 ? null : statusPath[step - 1]);
+        history.to.push(to);
+        history.reasons.push(step === 0 ? 'Order placed' : 'Seeded');
+        history.createdAt.push(new Date(changedAt[step]).toISOString());
+      });
+
+      const addPayment = (paymentStatus: PaymentStatus) => {
+        payments.orders.push(orderId);
+        payments.amounts.push(total);
+        payments.statuses.push(paymentStatus);
+        payments.methods.push(rng.pick(PAYMENT_METHODS));
+        payments.transactions.push(
+          paymentStatus === PaymentStatus.FAILED ? null : `seed_${options.seed}_${orderId}`
+        );
+        payments.createdAt.push(new Date(placedAt + 60_000).toISOString());
+      };
+
+      // Paid orders carry a completed payment; some pending orders had a declined attempt,
+      // and some cancellations were refunded after payment
+      if (status !== OrderStatus.PENDING && status !== OrderStatus.CANCELLED) {
+        addPayment(PaymentStatus.COMPLETED);
+      } else if (status === OrderStatus.PENDING && rng.chance(0.3)) {
+        addPayment(PaymentStatus.FAILED);
+      } else if (status === OrderStatus.CANCELLED && rng.chance(0.3)) {
+        addPayment(PaymentStatus.REFUNDED);
+      }
+    }
+
+    await sql.transaction((txn) => [
+      txn`
+        INSERT INTO orders (id, user_id, subtotal, total_amount, status, created_at)
+        SELECT id, user_id, total, total, status, created_at
+        FROM unnest(
+          ${orders.ids}::int[], ${orders.users}::int[], ${orders.totals}::numeric[],
+          ${orderMeta.statuses}::text[], ${orderMeta.createdAt}::timestamptz[]
+        ) AS o(id, user_id, total, status, created_at)
+      `,
+      txn`
+        INSERT INTO order_items (order_id, product_id, quantity, price)
+        SELECT * FROM unnest(
+          ${items.orders}::int[], ${items.products}::int[], ${items.qty}::int[],
+          ${itemPrices}::numeric[]
+        )
+      `,
+      txn`
+        INSERT INTO payments (order_id, amount, status, payment_method, transaction_id, created_at, updated_at)
+        SELECT order_id, amount, status, method, transaction_id, created_at, created_at
+        FROM unnest(
+          ${payments.orders}::int[], ${payments.amounts}::numeric[], ${payments.statuses}::text[],
+          ${payments.methods}::text[], ${payments.transactions}::text[],
+          ${payments.createdAt}::timestamptz[]
+        ) AS p(order_id, amount, status, method, transaction_id, created_at)
+      `,
+      txn`
+        INSERT INTO stock_reservations
+          (order_id, product_id, quantity, status, expires_at, created_at, updated_at)
+        SELECT order_id, product_id, quantity, status,
+          created_at + ${RESERVATION_TTL_MS} * INTERVAL '1 millisecond', created_at, updated_at
+        FROM unnest(
+          ${reservations.orders}::int[], ${reservations.products}::int[], ${reservations.qty}::int[],
+          ${reservations.statuses}::text[], ${reservations.createdAt}::timestamptz[],
+          ${reservations.updatedAt}::timestamptz[]
+        ) AS r(order_id, product_id, quantity, status, created_at, updated_at)
+      `,
+      // Committed reservations were sold out of stock; active ones are still held
+      txn`
+        UPDATE products p
+        SET stock = p.stock - r.sold, reserved = p.reserved + r.held
+        FROM (
+          SELECT product_id,
+            COALESCE(SUM(quantity) FILTER (WHERE status = ${ReservationStatus.COMMITTED}), 0) AS sold,
+            COALESCE(SUM(quantity) FILTER (WHERE status = ${ReservationStatus.ACTIVE}), 0) AS held
+          FROM stock_reservations
+          WHERE order_id = ANY(${orders.ids}::int[])
+          GROUP BY product_id
+        ) r
+        WHERE p.id = r.product_id
+      `,
+      txn`
+        INSERT INTO inventory_movements (product_id, quantity, reason, order_id, actor, created_at)
+        SELECT product_id, -quantity, ${InventoryMovementReason.SALE}, order_id, 'system:seed', updated_at
+        FROM stock_reservations
+        WHERE order_id = ANY(${orders.ids}::int[]) AND status = ${ReservationStatus.COMMITTED}
+      `,
+      txn`
+        INSERT INTO order_status_history (order_id, from_status, to_status, actor, reason, created_at)
+        SELECT order_id, from_status, to_status, 'system:seed', reason, created_at
+        FROM unnest(
+          ${history.orders}::int[], ${history.from}::text[], ${history.to}::text[],
+          ${history.reasons}::text[], ${history.createdAt}::timestamptz[]
+        ) AS h(order_id, from_status, to_status, reason, created_at)
+      `,
+      // Refunded payments were refunded in full when their order was cancelled
+      txn`
+        INSERT INTO refunds (payment_id, amount, status, reason, transaction_id, created_at, updated_at)
+        SELECT p.id, p.amount, ${RefundStatus.COMPLETED}, 'Order cancelled',
+          'seed_refund_' || ${options.seed}::text || '_' || p.order_id, h.created_at, h.created_at
+        FROM payments p
+        JOIN order_status_history h
+          ON h.order_id = p.order_id AND h.to_status = ${OrderStatus.CANCELLED}
+        WHERE p.order_id = ANY(${orders.ids}::int[]) AND p.status = ${PaymentStatus.REFUNDED}
+      `,
+    ]);
+  });
+}
+
+async function seed(): Promise<void> {
+  try {
+    const options = parseArgs(process.argv.slice(2));
+
+    if (options.sample) {
+      await loadSample();
+      return;
+    }
+
+    console.log(
+      `\n🌱 Seeding ${options.users} user(s), ${options.products} product(s) and ` +
+        `${options.orders} order(s) with seed ${options.seed}...\n`
+    );
+
+    const rng = new Random(options.seed);
+    const startedAt = Date.now();
+
+    await seedUsers(rng, options);
+    await seedProducts(rng, options);
+    await seedOrders(rng, options);
+
+    console.log(`\n✨ Seeding completed in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+    console.log(`🔑 Generated users can log in with password "${SEED_PASSWORD}"`);
+  } catch (error) {
+    console.error('\n❌ Seeding failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await sql.end();
+  }
+}
+
+// Run seeding
+seed();
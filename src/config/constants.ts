@@ -1,2 +1,55 @@
 // Application constants
-// TODO: Define API constants, order statuses, error codes, etc.
+
+import { OrderStatus, Permission, UserRole } from '../types/index';
+
+/**
+ * Most units of one product (or variant) a cart line, order line or refund line can hold
+ */
+export const MAX_LINE_QUANTITY = 1000;
+
+/**
+ * Allowed order status transitions (from -> to).
+ * DELIVERED and CANCELLED are terminal states.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [OrderStatus.CONFIRMED, OrderStatus.CANCELLED],
+  [OrderStatus.CONFIRMED]: [OrderStatus.SHIPPED, OrderStatus.CANCELLED],
+  [OrderStatus.SHIPPED]: [OrderStatus.DELIVERED],
+  [OrderStatus.DELIVERED]: [],
+  [OrderStatus.CANCELLED]: [],
+};
+
+/**
+ * Permissions granted to each role.
+ * Customers only get ':own' permissions; staff run the catalog and order fulfilment.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.ADMIN]: Object.values(Permission),
+  [UserRole.STAFF]: [
+    Permission.USERS_LIST,
+    Permission.USERS_READ_ANY,
+    Permission.PRODUCTS_MANAGE,
+    Permission.ORDERS_CREATE_ANY,
+    Permission.ORDERS_LIST,
+    Permission.ORDERS_READ_ANY,
+    Permission.ORDERS_UPDATE_STATUS,
+    Permission.ORDERS_PAY_ANY,
+    Permission.PAYMENTS_READ_ANY,
+    Permission.PAYMENTS_REFUND,
+    Permission.CARTS_MANAGE_ANY,
+    Permission.DISCOUNTS_MANAGE,
+    Permission.TAX_RATES_MANAGE,
+    Permission.EXCHANGE_RATES_MANAGE,
+    Permission.ADDRESSES_MANAGE_ANY,
+  ],
+  [UserRole.CUSTOMER]: [
+    Permission.USERS_READ_OWN,
+    Permission.USERS_UPDATE_OWN,
+    Permission.ORDERS_CREATE_OWN,
+    Permission.ORDERS_READ_OWN,
+    Permission.ORDERS_PAY_OWN,
+    Permission.PAYMENTS_READ_OWN,
+    Permission.CARTS_MANAGE_OWN,
+    Permission.ADDRESSES_MANAGE_OWN,
+  ],
+};
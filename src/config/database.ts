@@ -1,16 +1,21 @@
-// Database connection setup for Neon PostgreSQL
-// TODO: Initialize PostgreSQL connection pool
+// Database connection setup
+// Picks the Neon HTTP driver or a pooled pg driver from DATABASE_DRIVER / DATABASE_URL
 
-import { neon, NeonQueryFunction } from '@neondatabase/serverless';
 import { config } from './env';
+import { Database } from '../database/client';
+import { connect } from '../database/connect';
+import logger, { serializeError } from '../utils/logger';
 
-let sql: NeonQueryFunction<false, false>;
+let sql: Database;
 
 try {
-  sql = neon(config.database.url);
-  console.log('✅ Database connection established');
+  sql = connect(config.database.url, {
+    driver: config.database.driver,
+    poolSize: config.database.poolSize,
+  });
+  logger.info('database connection established', { driver: sql.driver });
 } catch (error) {
-  console.error('❌ Failed to initialize database connection:', error);
+  logger.error('failed to initialize database connection', { error: serializeError(error) });
   throw error;
 }
 
@@ -4,7 +4,7 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 // Validate required environment variables
-const requiredEnvVars = ['DATABASE_URL'];
+const requiredEnvVars = ['DATABASE_URL', 'JWT_SECRET'];
 const missingEnvVars = requiredEnvVars.filter((envVar) => !process.env[envVar]);
 
 if (missingEnvVars.length > 0) {
@@ -14,12 +14,53 @@ if (missingEnvVars.length > 0) {
 export const config = {
   database: {
     url: process.env.DATABASE_URL!,
+    // 'neon' or 'pg'; inferred from DATABASE_URL when unset
+    driver: process.env.DATABASE_DRIVER || undefined,
+    poolSize: parseInt(process.env.DATABASE_POOL_SIZE || '10', 10),
   },
   server: {
     port: parseInt(process.env.PORT || '3000', 10),
     host: process.env.HOST || 'localhost',
     nodeEnv: process.env.NODE_ENV || 'development',
   },
+  auth: {
+    jwtSecret: process.env.JWT_SECRET!,
+    jwtExpiry: process.env.JWT_EXPIRY || '15m',
+    refreshTokenExpiryDays: parseInt(process.env.REFRESH_TOKEN_EXPIRY_DAYS || '30', 10),
+    bcryptRounds: parseInt(process.env.BCRYPT_ROUNDS || '10', 10),
+  },
+  inventory: {
+    // Pending orders hold their stock this long before the sweeper cancels them
+    reservationTtlMinutes: parseInt(process.env.RESERVATION_TTL_MINUTES || '15', 10),
+    reservationSweepIntervalSeconds: parseInt(
+      process.env.RESERVATION_SWEEP_INTERVAL_SECONDS || '60',
+      10
+    ),
+  },
+  notifications: {
+    // Sinks that receive domain events such as low-stock alerts: log, webhook and/or outbox
+    sinks: (process.env.NOTIFICATION_SINKS || 'log')
+      .split(',')
+      .map((sink) => sink.trim())
+      .filter(Boolean),
+    webhookUrl: process.env.NOTIFICATION_WEBHOOK_URL || undefined,
+  },
+  shipping: {
+    // 'flat' or 'weight'; orders whose discounted subtotal reaches freeOver ship for free
+    strategy: process.env.SHIPPING_STRATEGY || 'flat',
+    flatRate: process.env.SHIPPING_FLAT_RATE || '0',
+    baseRate: process.env.SHIPPING_BASE_RATE || '0',
+    ratePerKg: process.env.SHIPPING_RATE_PER_KG || '0',
+    freeOver: process.env.SHIPPING_FREE_OVER || undefined,
+  },
+  payments: {
+    // 'fake' approves every charge and is refused when NODE_ENV is production
+    provider: process.env.PAYMENT_PROVIDER || 'fake',
+  },
+  currency: {
+    // Currency exchange rates are quoted against; shipping settings are in it too
+    base: (process.env.BASE_CURRENCY || 'USD').toUpperCase(),
+  },
   logging: {
     level: process.env.LOG_LEVEL || 'info',
   },
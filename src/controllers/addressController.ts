@@ -0,0 +1,202 @@
+import { NextFunction, Request, Response } from 'express';
+import { NotFoundError } from '../middleware/errorHandler';
+import addressService from '../services/addressService';
+import {
+  AddressParams,
+  CreateAddressRequest,
+  IdParams,
+  UpdateAddressRequest,
+} from '../types/index';
+
+/**
+ * Get a user's address book
+ * GET /users/:id/addresses
+ */
+export const getAddresses = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: userId } = req.params as unknown as IdParams;
+
+    const addresses = await addressService.getAddresses(userId);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Addresses retrieved successfully',
+      data: addresses,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get one address of a user
+ * GET /users/:id/addresses/:addressId
+ */
+export const getAddressById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: userId, addressId } = req.params as unknown as AddressParams;
+
+    const address = await addressService.getAddressById(userId, addressId);
+
+    if (!address) {
+      throw new NotFoundError('Address', addressId);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Address retrieved successfully',
+      data: address,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Add an address to a user's address book
+ * POST /users/:id/addresses
+ */
+export const createAddress = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: userId } = req.params as unknown as IdParams;
+
+    const {
+      label,
+      recipient_name,
+      line1,
+      line2,
+      city,
+      subdivision,
+      postal_code,
+      country,
+      phone,
+      is_default_shipping,
+      is_default_billing,
+    } = req.body as CreateAddressRequest;
+
+    const address = await addressService.createAddress(userId, {
+      label,
+      recipient_name,
+      line1,
+      line2,
+      city,
+      subdivision,
+      postal_code,
+      country,
+      phone,
+      is_default_shipping,
+      is_default_billing,
+    });
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Address created successfully',
+      data: address,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update an address
+ * PUT /users/:id/addresses/:addressId
+ */
+export const updateAddress = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: userId, addressId } = req.params as unknown as AddressParams;
+
+    const {
+      label,
+      recipient_name,
+      line1,
+      line2,
+      city,
+      subdivision,
+      postal_code,
+      country,
+      phone,
+      is_default_shipping,
+      is_default_billing,
+    } = req.body as UpdateAddressRequest;
+
+    const address = await addressService.updateAddress(userId, addressId, {
+      label,
+      recipient_name,
+      line1,
+      line2,
+      city,
+      subdivision,
+      postal_code,
+      country,
+      phone,
+      is_default_shipping,
+      is_default_billing,
+    });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Address updated successfully',
+      data: address,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete an address
+ * DELETE /users/:id/addresses/:addressId
+ */
+export const deleteAddress = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: userId, addressId } = req.params as unknown as AddressParams;
+
+    await addressService.deleteAddress(userId, addressId);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Address deleted successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Address Controller - Exported as functional module
+ */
+const addressController = {
+  getAddresses,
+  getAddressById,
+  createAddress,
+  updateAddress,
+  deleteAddress,
+};
+
+export default addressController;
@@ -0,0 +1,98 @@
+import { NextFunction, Request, Response } from 'express';
+import authService from '../services/authService';
+import { LoginRequest, RefreshTokenRequest, RegisterRequest } from '../types/index';
+
+/**
+ * Register a new user
+ * POST /auth/register
+ */
+export const register = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { name, email, password } = req.body as RegisterRequest;
+
+    const result = await authService.register({ name, email, password });
+
+    res.status(201).json({
+      status: 'success',
+      message: 'User registered successfully',
+      data: result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Log in with email and password
+ * POST /auth/login
+ */
+export const login = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { email, password } = req.body as LoginRequest;
+
+    const result = await authService.login({ email, password });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Logged in successfully',
+      data: result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Rotate a refresh token
+ * POST /auth/refresh
+ */
+export const refresh = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { refresh_token } = req.body as RefreshTokenRequest;
+
+    const result = await authService.refresh(refresh_token);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Token refreshed successfully',
+      data: result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Revoke a refresh token and its family
+ * POST /auth/logout
+ */
+export const logout = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { refresh_token } = req.body as RefreshTokenRequest;
+
+    await authService.logout(refresh_token);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Logged out successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Auth Controller - Exported as functional module
+ */
+const authController = {
+  register,
+  login,
+  refresh,
+  logout,
+};
+
+export default authController;
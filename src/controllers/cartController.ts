@@ -0,0 +1,160 @@
+import { NextFunction, Request, Response } from 'express';
+import cartService from '../services/cartService';
+import {
+  AddCartItemRequest,
+  CartItemParams,
+  CheckoutCartRequest,
+  IdParams,
+  UpdateCartItemRequest,
+} from '../types/index';
+
+/**
+ * Get a user's cart with live prices and stock checks
+ * GET /users/:id/cart
+ */
+export const getCart = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id: userId } = req.params as unknown as IdParams;
+
+    const cart = await cartService.getCart(userId);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Cart retrieved successfully',
+      data: cart,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Add an item to a user's cart
+ * POST /users/:id/cart/items
+ */
+export const addCartItem = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: userId } = req.params as unknown as IdParams;
+
+    const { product_id, variant_id, quantity } = req.body as AddCartItemRequest;
+
+    const cart = await cartService.addCartItem(userId, { product_id, variant_id, quantity });
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Cart item added successfully',
+      data: cart,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Change the quantity of a cart item
+ * PATCH /users/:id/cart/items/:itemId
+ */
+export const updateCartItem = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: userId, itemId } = req.params as unknown as CartItemParams;
+
+    const { quantity } = req.body as UpdateCartItemRequest;
+
+    const cart = await cartService.updateCartItem(userId, itemId, { quantity });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Cart item updated successfully',
+      data: cart,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Remove an item from a user's cart
+ * DELETE /users/:id/cart/items/:itemId
+ */
+export const removeCartItem = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: userId, itemId } = req.params as unknown as CartItemParams;
+
+    const cart = await cartService.removeCartItem(userId, itemId);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Cart item removed successfully',
+      data: cart,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Place an order for the contents of a user's cart
+ * POST /users/:id/cart/checkout
+ */
+export const checkoutCart = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: userId } = req.params as unknown as IdParams;
+
+    const { discount_codes, region, currency, shipping_address_id, billing_address_id } =
+      req.body as CheckoutCartRequest;
+
+    const result = await cartService.checkoutCart(userId, {
+      discount_codes,
+      region,
+      currency,
+      shipping_address_id,
+      billing_address_id,
+    });
+    const changed = result.price_changes.length;
+
+    res.status(201).json({
+      status: 'success',
+      message:
+        changed > 0
+          ? `Order created from cart; the price of ${changed} item(s) changed since they were added`
+          : 'Order created from cart successfully',
+      data: result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Cart Controller - Exported as functional module
+ */
+const cartController = {
+  getCart,
+  addCartItem,
+  updateCartItem,
+  removeCartItem,
+  checkoutCart,
+};
+
+export default cartController;
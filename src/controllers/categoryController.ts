@@ -0,0 +1,192 @@
+import { NextFunction, Request, Response } from 'express';
+import { NotFoundError } from '../middleware/errorHandler';
+import categoryService from '../services/categoryService';
+import currencyService from '../services/currencyService';
+import productService from '../services/productService';
+import {
+  CreateCategoryRequest,
+  IdParams,
+  ProductListQuery,
+  UpdateCategoryRequest,
+} from '../types/index';
+import { toPagination } from '../utils/helpers';
+
+/**
+ * Create a new category
+ * POST /categories
+ */
+export const createCategory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { name, parent_id } = req.body as CreateCategoryRequest;
+
+    const category = await categoryService.createCategory({ name, parent_id });
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Category created successfully',
+      data: category,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the category tree
+ * GET /categories
+ */
+export const getCategoryTree = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const categories = await categoryService.getCategoryTree();
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Categories retrieved successfully',
+      data: categories,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get category by ID, with its ancestors and direct children
+ * GET /categories/:id
+ */
+export const getCategoryById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: categoryId } = req.params as unknown as IdParams;
+
+    const category = await categoryService.getCategoryWithRelations(categoryId);
+
+    if (!category) {
+      throw new NotFoundError('Category', categoryId);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Category retrieved successfully',
+      data: category,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get products in a category or any of its subcategories (paginated, with facet counts)
+ * GET /categories/:id/products?q=mouse&in_stock=true&sort=price&page=1&limit=10
+ */
+export const getCategoryProducts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: categoryId } = req.params as unknown as IdParams;
+
+    if (!(await categoryService.getCategoryById(categoryId))) {
+      throw new NotFoundError('Category', categoryId);
+    }
+
+    const { q, min_price, max_price, in_stock, sort, currency, ...pagination } =
+      req.query as unknown as ProductListQuery;
+
+    const { products, total, facets, next_cursor } = await productService.getAllProducts(
+      pagination,
+      { category_id: categoryId, q, min_price, max_price, in_stock, currency },
+      sort
+    );
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Category products retrieved successfully',
+      data: currency ? await currencyService.convertProducts(products, currency) : products,
+      pagination: toPagination(pagination, total, next_cursor),
+      ...(facets ? { facets } : {}),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update category (rename and/or move)
+ * PUT /categories/:id
+ */
+export const updateCategory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: categoryId } = req.params as unknown as IdParams;
+
+    const { name, parent_id } = req.body as UpdateCategoryRequest;
+
+    const category = await categoryService.updateCategory(categoryId, { name, parent_id });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Category updated successfully',
+      data: category,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete category
+ * DELETE /categories/:id
+ */
+export const deleteCategory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: categoryId } = req.params as unknown as IdParams;
+
+    await categoryService.deleteCategory(categoryId);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Category deleted successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Category Controller - Exported as functional module
+ */
+const categoryController = {
+  createCategory,
+  getCategoryTree,
+  getCategoryById,
+  getCategoryProducts,
+  updateCategory,
+  deleteCategory,
+};
+
+export default categoryController;
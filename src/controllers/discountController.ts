@@ -0,0 +1,191 @@
+import { NextFunction, Request, Response } from 'express';
+import { NotFoundError } from '../middleware/errorHandler';
+import discountService from '../services/discountService';
+import {
+  CreateDiscountRequest,
+  IdParams,
+  PaginationQuery,
+  UpdateDiscountRequest,
+} from '../types/index';
+import { toPagination } from '../utils/helpers';
+
+/**
+ * Create a discount code or automatic promotion
+ * POST /discounts
+ */
+export const createDiscount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const {
+      code,
+      description,
+      type,
+      value,
+      product_id,
+      buy_quantity,
+      get_quantity,
+      min_spend,
+      starts_at,
+      ends_at,
+      max_uses,
+      max_uses_per_user,
+      active,
+    } = req.body as CreateDiscountRequest;
+
+    const discount = await discountService.createDiscount({
+      code,
+      description,
+      type,
+      value,
+      product_id,
+      buy_quantity,
+      get_quantity,
+      min_spend,
+      starts_at,
+      ends_at,
+      max_uses,
+      max_uses_per_user,
+      active,
+    });
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Discount created successfully',
+      data: discount,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get all discounts (paginated)
+ * GET /discounts?page=1&limit=10 or GET /discounts?cursor=<next_cursor>&limit=10
+ */
+export const getAllDiscounts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const pagination = req.query as unknown as PaginationQuery;
+
+    const { discounts, total, next_cursor } = await discountService.getAllDiscounts(pagination);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Discounts retrieved successfully',
+      data: discounts,
+      pagination: toPagination(pagination, total, next_cursor),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get discount by ID
+ * GET /discounts/:id
+ */
+export const getDiscountById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: discountId } = req.params as unknown as IdParams;
+
+    const discount = await discountService.getDiscountById(discountId);
+
+    if (!discount) {
+      throw new NotFoundError('Discount', discountId);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Discount retrieved successfully',
+      data: discount,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a discount's conditions, validity window, usage limits or status
+ * PUT /discounts/:id
+ */
+export const updateDiscount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: discountId } = req.params as unknown as IdParams;
+
+    const { description, min_spend, starts_at, ends_at, max_uses, max_uses_per_user, active } =
+      req.body as UpdateDiscountRequest;
+
+    const discount = await discountService.updateDiscount(discountId, {
+      description,
+      min_spend,
+      starts_at,
+      ends_at,
+      max_uses,
+      max_uses_per_user,
+      active,
+    });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Discount updated successfully',
+      data: discount,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete discount
+ * DELETE /discounts/:id
+ */
+export const deleteDiscount = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: discountId } = req.params as unknown as IdParams;
+
+    await discountService.deleteDiscount(discountId);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Discount deleted successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Discount Controller - Exported as functional module
+ */
+const discountController = {
+  createDiscount,
+  getAllDiscounts,
+  getDiscountById,
+  updateDiscount,
+  deleteDiscount,
+};
+
+export default discountController;
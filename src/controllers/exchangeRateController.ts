@@ -0,0 +1,121 @@
+import { NextFunction, Request, Response } from 'express';
+import currencyService from '../services/currencyService';
+import { CreateExchangeRateRequest, ExchangeRateListQuery, IdParams } from '../types/index';
+import { toPagination } from '../utils/helpers';
+
+/**
+ * Create an exchange rate
+ * POST /exchange-rates
+ */
+export const createExchangeRate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { currency, rate, effective_from } = req.body as CreateExchangeRateRequest;
+
+    const exchangeRate = await currencyService.createExchangeRate({
+      currency,
+      rate,
+      effective_from,
+    });
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Exchange rate created successfully',
+      data: exchangeRate,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get all exchange rates (paginated), optionally for one currency
+ * GET /exchange-rates?currency=EUR&page=1&limit=10
+ */
+export const getAllExchangeRates = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { currency, ...pagination } = req.query as unknown as ExchangeRateListQuery;
+
+    const { exchange_rates, total, next_cursor } = await currencyService.getAllExchangeRates(
+      pagination,
+      { currency }
+    );
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Exchange rates retrieved successfully',
+      data: exchange_rates,
+      pagination: toPagination(pagination, total, next_cursor),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the base currency and the rate in effect for every other supported currency
+ * GET /exchange-rates/current
+ */
+export const getCurrentExchangeRates = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const rates = await currencyService.getCurrentExchangeRates();
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Current exchange rates retrieved successfully',
+      data: { base_currency: currencyService.getBaseCurrency(), rates },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete exchange rate
+ * DELETE /exchange-rates/:id
+ */
+export const deleteExchangeRate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: exchangeRateId } = req.params as unknown as IdParams;
+
+    await currencyService.deleteExchangeRate(exchangeRateId);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Exchange rate deleted successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Exchange Rate Controller - Exported as functional module
+ */
+const exchangeRateController = {
+  createExchangeRate,
+  getAllExchangeRates,
+  getCurrentExchangeRates,
+  deleteExchangeRate,
+};
+
+export default exchangeRateController;
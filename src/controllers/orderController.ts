@@ -1,3 +1,262 @@
-// Order business logic controllers
-// TODO: Create order (with transaction), get order details, list user orders
-// TODO: Handle order status transitions, refunds
+import { NextFunction, Request, Response } from 'express';
+import { NotFoundError } from '../middleware/errorHandler';
+import currencyService from '../services/currencyService';
+import orderService from '../services/orderService';
+import userService from '../services/userService';
+import {
+  CreateOrderRequest,
+  CurrencyQuery,
+  IdParams,
+  OrderListQuery,
+  PaginationQuery,
+  UpdateOrderStatusRequest,
+} from '../types/index';
+import { toPagination } from '../utils/helpers';
+
+/**
+ * Price an order without placing it
+ * POST /orders/quote
+ */
+export const quoteOrder = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const {
+      user_id,
+      items,
+      discount_codes,
+      region,
+      currency,
+      shipping_address_id,
+      billing_address_id,
+    } = req.body as CreateOrderRequest;
+
+    const quote = await orderService.quoteOrder({
+      user_id,
+      items,
+      discount_codes,
+      region,
+      currency,
+      shipping_address_id,
+      billing_address_id,
+    });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Order quoted successfully',
+      data: quote,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create a new order
+ * POST /orders
+ */
+export const createOrder = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const {
+      user_id,
+      items,
+      discount_codes,
+      region,
+      currency,
+      shipping_address_id,
+      billing_address_id,
+    } = req.body as CreateOrderRequest;
+
+    const order = await orderService.createOrder({
+      user_id,
+      items,
+      discount_codes,
+      region,
+      currency,
+      shipping_address_id,
+      billing_address_id,
+    });
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Order created successfully',
+      data: order,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get order by ID, optionally with its amounts converted into another currency
+ * GET /orders/:id?currency=EUR
+ */
+export const getOrderById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: orderId } = req.params as unknown as IdParams;
+
+    const { currency } = req.query as unknown as CurrencyQuery;
+
+    const order = await orderService.getOrderById(orderId);
+
+    if (!order) {
+      throw new NotFoundError('Order', orderId);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Order retrieved successfully',
+      data: currency ? (await currencyService.convertOrders([order], currency))[0] : order,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get all orders (paginated, filterable)
+ * GET /orders?page=1&limit=10&status=pending&user_id=1&from=2024-01-01&to=2024-02-01&currency=EUR
+ */
+export const getAllOrders = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { status, user_id, from, to, currency, ...pagination } =
+      req.query as unknown as OrderListQuery;
+
+    const { orders, total, next_cursor } = await orderService.getAllOrders(pagination, {
+      status,
+      user_id,
+      from,
+      to,
+    });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Orders retrieved successfully',
+      data: currency ? await currencyService.convertOrders(orders, currency) : orders,
+      pagination: toPagination(pagination, total, next_cursor),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get all orders for a user (paginated)
+ * GET /users/:id/orders?page=1&limit=10&currency=EUR
+ */
+export const getUserOrders = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: userId } = req.params as unknown as IdParams;
+
+    if (!(await userService.userExists(userId))) {
+      throw new NotFoundError('User', userId);
+    }
+
+    const { currency, ...pagination } = req.query as unknown as PaginationQuery & CurrencyQuery;
+
+    const { orders, total, next_cursor } = await orderService.getOrdersByUserId(userId, pagination);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'User orders retrieved successfully',
+      data: currency ? await currencyService.convertOrders(orders, currency) : orders,
+      pagination: toPagination(pagination, total, next_cursor),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update order status
+ * PATCH /orders/:id/status
+ */
+export const updateOrderStatus = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: orderId } = req.params as unknown as IdParams;
+
+    const { status, reason } = req.body as UpdateOrderStatusRequest;
+
+    const order = await orderService.updateOrderStatus(orderId, {
+      status,
+      actor: req.user ? `user:${req.user.id}` : undefined,
+      reason,
+    });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Order status updated successfully',
+      data: order,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get order status history
+ * GET /orders/:id/history
+ */
+export const getOrderHistory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: orderId } = req.params as unknown as IdParams;
+
+    const history = await orderService.getOrderStatusHistory(orderId);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Order history retrieved successfully',
+      data: history,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Order Controller - Exported as functional module
+ */
+const orderController = {
+  quoteOrder,
+  createOrder,
+  getOrderById,
+  getAllOrders,
+  getUserOrders,
+  updateOrderStatus,
+  getOrderHistory,
+};
+
+export default orderController;
@@ -0,0 +1,156 @@
+import { NextFunction, Request, Response } from 'express';
+import { NotFoundError } from '../middleware/errorHandler';
+import paymentService from '../services/paymentService';
+import refundService from '../services/refundService';
+import { CreatePaymentRequest, CreateRefundRequest, IdParams } from '../types/index';
+
+/**
+ * Create a payment for an order
+ * POST /orders/:id/payments
+ */
+export const createPayment = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: orderId } = req.params as unknown as IdParams;
+
+    const { amount, currency, payment_method } = req.body as Omit<CreatePaymentRequest, 'order_id'>;
+
+    const payment = await paymentService.createPayment({
+      order_id: orderId,
+      amount,
+      currency,
+      payment_method,
+    });
+
+    res.status(201).json({
+      status: 'success',
+      message: `Payment ${payment.status}`,
+      data: payment,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get all payments for an order
+ * GET /orders/:id/payments
+ */
+export const getOrderPayments = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: orderId } = req.params as unknown as IdParams;
+
+    const payments = await paymentService.getPaymentsByOrderId(orderId);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Payments retrieved successfully',
+      data: payments,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get payment by ID
+ * GET /payments/:id
+ */
+export const getPaymentById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: paymentId } = req.params as unknown as IdParams;
+
+    const payment = await paymentService.getPaymentById(paymentId);
+
+    if (!payment) {
+      throw new NotFoundError('Payment', paymentId);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Payment retrieved successfully',
+      data: payment,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Refund a payment (full, partial or by line item)
+ * POST /payments/:id/refunds
+ */
+export const createRefund = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: paymentId } = req.params as unknown as IdParams;
+
+    const { amount, items, restock, reason } = req.body as CreateRefundRequest;
+
+    const refund = await refundService.createRefund(paymentId, { amount, items, restock, reason });
+
+    res.status(201).json({
+      status: 'success',
+      message: `Refund ${refund.status}`,
+      data: refund,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get all refunds for a payment
+ * GET /payments/:id/refunds
+ */
+export const getPaymentRefunds = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: paymentId } = req.params as unknown as IdParams;
+
+    const refunds = await refundService.getRefundsByPaymentId(paymentId);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Refunds retrieved successfully',
+      data: refunds,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Payment Controller - Exported as functional module
+ */
+const paymentController = {
+  createPayment,
+  getOrderPayments,
+  getPaymentById,
+  createRefund,
+  getPaymentRefunds,
+};
+
+export default paymentController;
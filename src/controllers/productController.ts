@@ -1,26 +1,46 @@
-import { Request, Response } from 'express';
-import { CreateProductRequest, UpdateProductRequest } from '../types';
+import { NextFunction, Request, Response } from 'express';
+import { NotFoundError } from '../middleware/errorHandler';
+import {
+  CreateProductRequest,
+  CreateProductVariantRequest,
+  CurrencyQuery,
+  IdParams,
+  PaginationQuery,
+  ProductListQuery,
+  SetProductCategoriesRequest,
+  StockAdjustmentRequest,
+  StockMovementListQuery,
+  UpdateProductRequest,
+  UpdateProductVariantRequest,
+  VariantParams,
+} from '../types';
+import currencyService from '../services/currencyService';
+import inventoryService from '../services/inventoryService';
 import productService from '../services/productService';
+import variantService from '../services/variantService';
+import { toPagination } from '../utils/helpers';
 
 /**
  * Create a new product
  * POST /products
  */
-export const createProduct = async (req: Request, res: Response): Promise<void> => {
+export const createProduct = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
   try {
-    const { name, price, stock } = req.body as CreateProductRequest;
-
-    // Validate input
-    if (!name || !price || !stock) {
-      res.status(400).json({
-        status: 'error',
-        message: 'Name, price and stock are required',
-        timestamp: new Date().toISOString(),
-      });
-      return;
-    }
+    const { name, price, currency, stock, reorder_threshold, weight_grams } =
+      req.body as CreateProductRequest;
 
-    const product = await productService.createProduct({ name, price, stock });
+    const product = await productService.createProduct({
+      name,
+      price,
+      currency,
+      stock,
+      reorder_threshold,
+      weight_grams,
+    });
 
     res.status(201).json({
       status: 'success',
@@ -29,92 +49,70 @@ export const createProduct = async (req: Request, res: Response): Promise<void>
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Internal server error';
-    res.status(400).json({
-      status: 'error',
-      message,
-      timestamp: new Date().toISOString(),
-    });
+    next(error);
   }
 };
 
 /**
- * Get all products (paginated)
- * GET /products?page=1&limit=10
+ * Search products (paginated, with facet counts)
+ * GET /products?category_id=3&q=mouse&min_price=10&max_price=50&in_stock=true&sort=-price,name&page=1&limit=10&currency=EUR
  */
-export const getAllProducts = async (req: Request, res: Response): Promise<void> => {
+export const getAllProducts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
   try {
-    const page = Math.max(1, parseInt(req.query.page as string) || 1);
-    const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 10));
-
-    const { products, total } = await productService.getAllProducts(page, limit);
+    const { category_id, q, min_price, max_price, in_stock, sort, currency, ...pagination } =
+      req.query as unknown as ProductListQuery;
 
-    const totalPages = Math.ceil(total / limit);
+    const { products, total, facets, next_cursor } = await productService.getAllProducts(
+      pagination,
+      { category_id, q, min_price, max_price, in_stock, currency },
+      sort
+    );
 
     res.status(200).json({
       status: 'success',
       message: 'Products retrieved successfully',
-      data: products,
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages,
-      },
+      data: currency ? await currencyService.convertProducts(products, currency) : products,
+      pagination: toPagination(pagination, total, next_cursor),
+      ...(facets ? { facets } : {}),
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Internal server error';
-    res.status(500).json({
-      status: 'error',
-      message,
-      timestamp: new Date().toISOString(),
-    });
+    next(error);
   }
 };
 
 /**
- * Get product by ID
- * GET /products/:id
+ * Get product by ID, optionally priced in another currency
+ * GET /products/:id?currency=EUR
  */
-export const getProductById = async (req: Request, res: Response): Promise<void> => {
+export const getProductById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
   try {
-    const id = String(req.params.id);
-    const productId = parseInt(id, 10);
-
-    if (isNaN(productId)) {
-      res.status(400).json({
-        status: 'error',
-        message: 'Invalid product ID',
-        timestamp: new Date().toISOString(),
-      });
-      return;
-    }
+    const { id: productId } = req.params as unknown as IdParams;
+
+    const { currency } = req.query as unknown as CurrencyQuery;
 
     const product = await productService.getProductById(productId);
 
     if (!product) {
-      res.status(404).json({
-        status: 'error',
-        message: 'Product not found',
-        timestamp: new Date().toISOString(),
-      });
-      return;
+      throw new NotFoundError('Product', productId);
     }
 
     res.status(200).json({
       status: 'success',
       message: 'Product retrieved successfully',
-      data: product,
+      data: currency ? (await currencyService.convertProducts([product], currency))[0] : product,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Internal server error';
-    res.status(500).json({
-      status: 'error',
-      message,
-      timestamp: new Date().toISOString(),
-    });
+    next(error);
   }
 };
 
@@ -122,33 +120,25 @@ export const getProductById = async (req: Request, res: Response): Promise<void>
  * Update product
  * PUT /products/:id
  */
-export const updateProduct = async (req: Request, res: Response): Promise<void> => {
+export const updateProduct = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
   try {
-    const id = String(req.params.id);
-    const productId = parseInt(id, 10);
-
-    if (isNaN(productId)) {
-      res.status(400).json({
-        status: 'error',
-        message: 'Invalid product ID',
-        timestamp: new Date().toISOString(),
-      });
-      return;
-    }
-
-    const { name, price, stock } = req.body as UpdateProductRequest;
+    const { id: productId } = req.params as unknown as IdParams;
 
-    // Check if at least one field is provided
-    if (!name && !price && !stock) {
-      res.status(400).json({
-        status: 'error',
-        message: 'At least one field (name, price or stock) must be provided for update',
-        timestamp: new Date().toISOString(),
-      });
-      return;
-    }
+    const { name, price, currency, stock, reorder_threshold, weight_grams } =
+      req.body as UpdateProductRequest;
 
-    const product = await productService.updateProduct(productId, { name, price, stock });
+    const product = await productService.updateProduct(productId, {
+      name,
+      price,
+      currency,
+      stock,
+      reorder_threshold,
+      weight_grams,
+    });
 
     res.status(200).json({
       status: 'success',
@@ -157,13 +147,7 @@ export const updateProduct = async (req: Request, res: Response): Promise<void>
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Internal server error';
-    const statusCode = message.includes('not found') ? 404 : 400;
-    res.status(statusCode).json({
-      status: 'error',
-      message,
-      timestamp: new Date().toISOString(),
-    });
+    next(error);
   }
 };
 
@@ -171,19 +155,13 @@ export const updateProduct = async (req: Request, res: Response): Promise<void>
  * Delete product
  * DELETE /product/:id
  */
-export const deleteProduct = async (req: Request, res: Response): Promise<void> => {
+export const deleteProduct = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
   try {
-    const id = String(req.params.id);
-    const productId = parseInt(id, 10);
-
-    if (isNaN(productId)) {
-      res.status(400).json({
-        status: 'error',
-        message: 'Invalid product ID',
-        timestamp: new Date().toISOString(),
-      });
-      return;
-    }
+    const { id: productId } = req.params as unknown as IdParams;
 
     await productService.deleteProduct(productId);
 
@@ -193,13 +171,291 @@ export const deleteProduct = async (req: Request, res: Response): Promise<void>
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Internal server error';
-    const statusCode = message.includes('not found') ? 404 : 400;
-    res.status(statusCode).json({
-      status: 'error',
-      message,
+    next(error);
+  }
+};
+
+/**
+ * Replace the categories a product is listed in
+ * PUT /products/:id/categories
+ */
+export const setProductCategories = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: productId } = req.params as unknown as IdParams;
+
+    const { category_ids } = req.body as SetProductCategoriesRequest;
+
+    const product = await productService.setProductCategories(productId, category_ids);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Product categories updated successfully',
+      data: product,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create a product variant
+ * POST /products/:id/variants
+ */
+export const createVariant = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: productId } = req.params as unknown as IdParams;
+
+    const { sku, attributes, price, stock } = req.body as CreateProductVariantRequest;
+
+    const variant = await variantService.createVariant(productId, {
+      sku,
+      attributes,
+      price,
+      stock,
+    });
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Product variant created successfully',
+      data: variant,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get all variants of a product
+ * GET /products/:id/variants
+ */
+export const getProductVariants = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: productId } = req.params as unknown as IdParams;
+
+    const variants = await variantService.getVariantsByProductId(productId);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Product variants retrieved successfully',
+      data: variants,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get a product variant
+ * GET /products/:id/variants/:variantId
+ */
+export const getVariantById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: productId, variantId } = req.params as unknown as VariantParams;
+
+    const variant = await variantService.getVariantById(productId, variantId);
+
+    if (!variant) {
+      throw new NotFoundError('Product variant', variantId);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Product variant retrieved successfully',
+      data: variant,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a product variant
+ * PUT /products/:id/variants/:variantId
+ */
+export const updateVariant = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: productId, variantId } = req.params as unknown as VariantParams;
+
+    const { sku, attributes, price, stock } = req.body as UpdateProductVariantRequest;
+
+    const variant = await variantService.updateVariant(productId, variantId, {
+      sku,
+      attributes,
+      price,
+      stock,
+    });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Product variant updated successfully',
+      data: variant,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a product variant
+ * DELETE /products/:id/variants/:variantId
+ */
+export const deleteVariant = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: productId, variantId } = req.params as unknown as VariantParams;
+
+    await variantService.deleteVariant(productId, variantId);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Product variant deleted successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Adjust the stock of a product or one of its variants
+ * POST /products/:id/stock/adjust
+ */
+export const adjustStock = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: productId } = req.params as unknown as IdParams;
+
+    const { quantity, reason, variant_id, note } = req.body as StockAdjustmentRequest;
+
+    const result = await inventoryService.adjustStock(productId, {
+      quantity,
+      reason,
+      variant_id,
+      note,
+      actor: req.user ? `user:${req.user.id}` : undefined,
+    });
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Stock adjusted successfully',
+      data: result,
       timestamp: new Date().toISOString(),
     });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the stock movements of a product and its variants (paginated, newest first)
+ * GET /products/:id/stock/movements?variant_id=2&reason=sale&page=1&limit=10
+ */
+export const getStockMovements = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: productId } = req.params as unknown as IdParams;
+    const { variant_id, reason, ...pagination } = req.query as unknown as StockMovementListQuery;
+
+    const { movements, total, next_cursor } = await inventoryService.getStockMovements(
+      productId,
+      pagination,
+      { variant_id, reason }
+    );
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Stock movements retrieved successfully',
+      data: movements,
+      pagination: toPagination(pagination, total, next_cursor),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Check every product's and variant's stock against the inventory ledger
+ * GET /products/stock/reconciliation
+ */
+export const reconcileInventory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const reconciliation = await inventoryService.reconcileInventory();
+
+    res.status(200).json({
+      status: 'success',
+      message: reconciliation.consistent
+        ? 'Inventory ledger is consistent'
+        : 'Inventory ledger is out of balance',
+      data: reconciliation,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the products at or below their reorder threshold (paginated, largest shortfall first)
+ * GET /products/low-stock?page=1&limit=10
+ */
+export const getLowStockProducts = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const pagination = req.query as unknown as PaginationQuery;
+
+    const { products, total } = await inventoryService.getLowStockProducts(pagination);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Low-stock products retrieved successfully',
+      data: products,
+      pagination: toPagination(pagination, total, null),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
   }
 };
 
@@ -212,6 +468,16 @@ const productController = {
   getProductById,
   updateProduct,
   deleteProduct,
+  setProductCategories,
+  createVariant,
+  getProductVariants,
+  getVariantById,
+  updateVariant,
+  deleteVariant,
+  adjustStock,
+  getStockMovements,
+  reconcileInventory,
+  getLowStockProducts,
 };
 
 export default productController;
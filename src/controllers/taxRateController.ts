@@ -0,0 +1,121 @@
+import { NextFunction, Request, Response } from 'express';
+import taxRateService from '../services/taxRateService';
+import {
+  CreateTaxRateRequest,
+  IdParams,
+  TaxRateFilters,
+  UpdateTaxRateRequest,
+} from '../types/index';
+
+/**
+ * Create a tax rate
+ * POST /tax-rates
+ */
+export const createTaxRate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { region, category_id, rate } = req.body as CreateTaxRateRequest;
+
+    const taxRate = await taxRateService.createTaxRate({ region, category_id, rate });
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Tax rate created successfully',
+      data: taxRate,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get all tax rates, optionally for one region
+ * GET /tax-rates?region=US-CA
+ */
+export const getTaxRates = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { region } = req.query as unknown as TaxRateFilters;
+
+    const taxRates = await taxRateService.getTaxRates({ region });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Tax rates retrieved successfully',
+      data: taxRates,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Change a tax rate
+ * PUT /tax-rates/:id
+ */
+export const updateTaxRate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: taxRateId } = req.params as unknown as IdParams;
+
+    const { rate } = req.body as UpdateTaxRateRequest;
+
+    const taxRate = await taxRateService.updateTaxRate(taxRateId, { rate });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Tax rate updated successfully',
+      data: taxRate,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete tax rate
+ * DELETE /tax-rates/:id
+ */
+export const deleteTaxRate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: taxRateId } = req.params as unknown as IdParams;
+
+    await taxRateService.deleteTaxRate(taxRateId);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Tax rate deleted successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Tax Rate Controller - Exported as functional module
+ */
+const taxRateController = {
+  createTaxRate,
+  getTaxRates,
+  updateTaxRate,
+  deleteTaxRate,
+};
+
+export default taxRateController;
@@ -1,25 +1,27 @@
-import { Request, Response } from 'express';
+import { NextFunction, Request, Response } from 'express';
+import { NotFoundError } from '../middleware/errorHandler';
 import userService from '../services/userService';
-import { CreateUserRequest, UpdateUserRequest, ApiResponse } from '../types/index';
+import {
+  CreateUserRequest,
+  IdParams,
+  PaginationQuery,
+  UpdateUserRequest,
+  UpdateUserRoleRequest,
+} from '../types/index';
+import { toPagination } from '../utils/helpers';
 
 /**
  * Create a new user
  * POST /users
  */
-export const createUser = async (req: Request, res: Response): Promise<void> => {
+export const createUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
   try {
     const { name, email } = req.body as CreateUserRequest;
 
-    // Validate input
-    if (!name || !email) {
-      res.status(400).json({
-        status: 'error',
-        message: 'Name and email are required',
-        timestamp: new Date().toISOString(),
-      });
-      return;
-    }
-
     const user = await userService.createUser({ name, email });
 
     res.status(201).json({
@@ -29,12 +31,7 @@ export const createUser = async (req: Request, res: Response): Promise<void> =>
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Internal server error';
-    res.status(400).json({
-      status: 'error',
-      message,
-      timestamp: new Date().toISOString(),
-    });
+    next(error);
   }
 };
 
@@ -42,29 +39,18 @@ export const createUser = async (req: Request, res: Response): Promise<void> =>
  * Get user by ID
  * GET /users/:id
  */
-export const getUserById = async (req: Request, res: Response): Promise<void> => {
+export const getUserById = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
   try {
-    const id = String(req.params.id);
-    const userId = parseInt(id, 10);
-
-    if (isNaN(userId)) {
-      res.status(400).json({
-        status: 'error',
-        message: 'Invalid user ID',
-        timestamp: new Date().toISOString(),
-      });
-      return;
-    }
+    const { id: userId } = req.params as unknown as IdParams;
 
     const user = await userService.getUserById(userId);
 
     if (!user) {
-      res.status(404).json({
-        status: 'error',
-        message: 'User not found',
-        timestamp: new Date().toISOString(),
-      });
-      return;
+      throw new NotFoundError('User', userId);
     }
 
     res.status(200).json({
@@ -74,47 +60,33 @@ export const getUserById = async (req: Request, res: Response): Promise<void> =>
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Internal server error';
-    res.status(500).json({
-      status: 'error',
-      message,
-      timestamp: new Date().toISOString(),
-    });
+    next(error);
   }
 };
 
 /**
  * Get all users (paginated)
- * GET /users?page=1&limit=10
+ * GET /users?page=1&limit=10 or GET /users?cursor=<next_cursor>&limit=10
  */
-export const getAllUsers = async (req: Request, res: Response): Promise<void> => {
+export const getAllUsers = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
   try {
-    const page = Math.max(1, parseInt(req.query.page as string) || 1);
-    const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 10));
-
-    const { users, total } = await userService.getAllUsers(page, limit);
+    const pagination = req.query as unknown as PaginationQuery;
 
-    const totalPages = Math.ceil(total / limit);
+    const { users, total, next_cursor } = await userService.getAllUsers(pagination);
 
     res.status(200).json({
       status: 'success',
       message: 'Users retrieved successfully',
       data: users,
-      pagination: {
-        page,
-        limit,
-        total,
-        totalPages,
-      },
+      pagination: toPagination(pagination, total, next_cursor),
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Internal server error';
-    res.status(500).json({
-      status: 'error',
-      message,
-      timestamp: new Date().toISOString(),
-    });
+    next(error);
   }
 };
 
@@ -122,32 +94,16 @@ export const getAllUsers = async (req: Request, res: Response): Promise<void> =>
  * Update user
  * PUT /users/:id
  */
-export const updateUser = async (req: Request, res: Response): Promise<void> => {
+export const updateUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
   try {
-    const id = String(req.params.id);
-    const userId = parseInt(id, 10);
-
-    if (isNaN(userId)) {
-      res.status(400).json({
-        status: 'error',
-        message: 'Invalid user ID',
-        timestamp: new Date().toISOString(),
-      });
-      return;
-    }
+    const { id: userId } = req.params as unknown as IdParams;
 
     const { name, email } = req.body as UpdateUserRequest;
 
-    // Check if at least one field is provided
-    if (!name && !email) {
-      res.status(400).json({
-        status: 'error',
-        message: 'At least one field (name or email) must be provided for update',
-        timestamp: new Date().toISOString(),
-      });
-      return;
-    }
-
     const user = await userService.updateUser(userId, { name, email });
 
     res.status(200).json({
@@ -157,13 +113,34 @@ export const updateUser = async (req: Request, res: Response): Promise<void> =>
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Internal server error';
-    const statusCode = message.includes('not found') ? 404 : 400;
-    res.status(statusCode).json({
-      status: 'error',
-      message,
+    next(error);
+  }
+};
+
+/**
+ * Change user role
+ * PATCH /users/:id/role
+ */
+export const updateUserRole = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id: userId } = req.params as unknown as IdParams;
+
+    const { role } = req.body as UpdateUserRoleRequest;
+
+    const user = await userService.updateUserRole(userId, role);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'User role updated successfully',
+      data: user,
       timestamp: new Date().toISOString(),
     });
+  } catch (error) {
+    next(error);
   }
 };
 
@@ -171,19 +148,13 @@ export const updateUser = async (req: Request, res: Response): Promise<void> =>
  * Delete user
  * DELETE /users/:id
  */
-export const deleteUser = async (req: Request, res: Response): Promise<void> => {
+export const deleteUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
   try {
-    const id = String(req.params.id);
-    const userId = parseInt(id, 10);
-
-    if (isNaN(userId)) {
-      res.status(400).json({
-        status: 'error',
-        message: 'Invalid user ID',
-        timestamp: new Date().toISOString(),
-      });
-      return;
-    }
+    const { id: userId } = req.params as unknown as IdParams;
 
     await userService.deleteUser(userId);
 
@@ -193,13 +164,7 @@ export const deleteUser = async (req: Request, res: Response): Promise<void> =>
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    const message = error instanceof Error ? error.message : 'Internal server error';
-    const statusCode = message.includes('not found') ? 404 : 400;
-    res.status(statusCode).json({
-      status: 'error',
-      message,
-      timestamp: new Date().toISOString(),
-    });
+    next(error);
   }
 };
 
@@ -211,6 +176,7 @@ const userController = {
   getUserById,
   getAllUsers,
   updateUser,
+  updateUserRole,
   deleteUser,
 };
 
@@ -0,0 +1,157 @@
+// Database client abstraction
+// Exposes the tagged-template `sql` API over interchangeable drivers (Neon HTTP or pooled pg)
+
+export type Row = Record<string, unknown>;
+
+/**
+ * A parameterised statement ($1, $2, ... placeholders)
+ */
+export interface Query {
+  text: string;
+  params: unknown[];
+}
+
+export type IsolationLevel =
+  | 'ReadUncommitted'
+  | 'ReadCommitted'
+  | 'RepeatableRead'
+  | 'Serializable';
+
+export interface TransactionOptions {
+  isolationLevel?: IsolationLevel;
+  readOnly?: boolean;
+}
+
+/**
+ * Runs statements immediately: sql`SELECT ...` or sql.query(text, params)
+ *
+ * Rows are untyped unless the caller names their shape, e.g. sql<User>`SELECT * FROM users`.
+ */
+export interface SqlClient {
+  <T extends object = Row>(strings: TemplateStringsArray, ...values: unknown[]): Promise<T[]>;
+  query<T extends object = Row>(text: string, params?: unknown[]): Promise<T[]>;
+}
+
+/**
+ * Builds statements for a batch transaction without running them
+ */
+export interface QueryBuilder {
+  (strings: TemplateStringsArray, ...values: unknown[]): Query;
+  query(text: string, params?: unknown[]): Query;
+}
+
+export type Executor = (text: string, params: unknown[]) => Promise<Row[]>;
+
+/**
+ * What each driver must provide
+ */
+export interface DatabaseDriver {
+  query: Executor;
+
+  /**
+   * Run a fixed list of statements atomically
+   * @returns Promise<Row[][]> - Rows of each statement, in order
+   */
+  batch(queries: Query[], options: TransactionOptions): Promise<Row[][]>;
+
+  /**
+   * Run a callback inside an interactive transaction on a single connection
+   */
+  begin<T>(fn: (execute: Executor) => Promise<T>, options: TransactionOptions): Promise<T>;
+
+  /**
+   * Run a callback on a single dedicated connection, outside any transaction
+   */
+  session<T>(fn: (execute: Executor) => Promise<T>): Promise<T>;
+
+  end(): Promise<void>;
+}
+
+export type DatabaseDriverName = 'neon' | 'pg';
+
+export interface Database extends SqlClient {
+  readonly driver: DatabaseDriverName;
+
+  /**
+   * Non-interactive transaction: every statement is built up front and committed together
+   * @param build - Returns the statements to run, e.g. (txn) => [txn`UPDATE ...`, txn`INSERT ...`]
+   * @param options - Isolation level / read-only
+   * @returns Promise<Row[][]> - Rows of each statement, in order
+   */
+  transaction(
+    build: (txn: QueryBuilder) => Query[],
+    options?: TransactionOptions
+  ): Promise<Row[][]>;
+
+  /**
+   * Interactive transaction: statements can depend on earlier results. Rolls back if fn throws.
+   * @param fn - Receives a client bound to the transaction
+   * @param options - Isolation level / read-only
+   * @returns Promise<T> - Value returned by fn, after COMMIT
+   */
+  begin<T>(fn: (tx: SqlClient) => Promise<T>, options?: TransactionOptions): Promise<T>;
+
+  /**
+   * Dedicated connection for session state such as advisory locks or explicit BEGIN/COMMIT
+   * @param fn - Receives a client bound to one connection
+   * @returns Promise<T> - Value returned by fn; the connection is released afterwards
+   */
+  session<T>(fn: (db: SqlClient) => Promise<T>): Promise<T>;
+
+  /**
+   * Close pooled connections
+   */
+  end(): Promise<void>;
+}
+
+/**
+ * Compile a tagged template into a parameterised statement
+ * @param strings - Template string parts
+ * @param values - Interpolated values, sent as parameters
+ * @returns Query - Statement with $n placeholders
+ */
+export const compile = (strings: TemplateStringsArray, values: unknown[]): Query => ({
+  text: strings.reduce((text, part, index) => `${text}$${index}${part}`),
+  params: values,
+});
+
+/**
+ * Wrap an executor in the tagged-template client API
+ * @param execute - Runs a parameterised statement
+ * @returns SqlClient
+ */
+export const createSqlClient = (execute: Executor): SqlClient => {
+  const query = async <T extends object = Row>(text: string, params: unknown[] = []) =>
+    (await execute(text, params)) as T[];
+
+  const client = <T extends object = Row>(strings: TemplateStringsArray, ...values: unknown[]) => {
+    const { text, params } = compile(strings, values);
+    return query<T>(text, params);
+  };
+
+  return Object.assign(client, { query });
+};
+
+const queryBuilder: QueryBuilder = Object.assign(
+  (strings: TemplateStringsArray, ...values: unknown[]) => compile(strings, values),
+  { query: (text: string, params: unknown[] = []): Query => ({ text, params }) }
+);
+
+/**
+ * Build the `sql` API on top of a driver
+ * @param name - Driver name, exposed for diagnostics
+ * @param driver - Driver implementation
+ * @returns Database
+ */
+export const createDatabase = (name: DatabaseDriverName, driver: DatabaseDriver): Database => {
+  return Object.assign(createSqlClient(driver.query), {
+    driver: name,
+    transaction: (build: (txn: QueryBuilder) => Query[], options: TransactionOptions = {}) =>
+      driver.batch(build(queryBuilder), options),
+    begin: <T>(fn: (tx: SqlClient) => Promise<T>, options: TransactionOptions = {}) =>
+      driver.begin((execute) => fn(createSqlClient(execute)), options),
+    session: <T>(fn: (db: SqlClient) => Promise<T>) =>
+      driver.session((execute) => fn(createSqlClient(execute))),
+    end: () => driver.end(),
+  });
+};
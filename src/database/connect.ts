@@ -0,0 +1,51 @@
+// Driver selection
+// Kept free of app config so scripts (migrate, seed) can connect with only DATABASE_URL
+
+import { createDatabase, Database, DatabaseDriverName } from './client';
+import { createNeonDriver } from './neonDriver';
+import { createPgDriver } from './pgDriver';
+
+/**
+ * Resolve which driver to use for a connection URL
+ *
+ * An explicit driver always wins. Otherwise `neon://` URLs and hosts under neon.tech use the
+ * Neon HTTP driver, and every other postgres:// / postgresql:// URL uses pooled pg.
+ *
+ * @param url - Connection URL
+ * @param driver - Explicit driver, if configured
+ * @returns DatabaseDriverName
+ */
+export const resolveDriver = (url: string, driver?: string): DatabaseDriverName => {
+  if (driver === 'neon' || driver === 'pg') {
+    return driver;
+  }
+
+  if (driver) {
+    throw new Error(`Unknown DATABASE_DRIVER "${driver}". Expected "neon" or "pg"`);
+  }
+
+  const { protocol, hostname } = new URL(url);
+  return protocol === 'neon:' || hostname.endsWith('.neon.tech') ? 'neon' : 'pg';
+};
+
+/**
+ * Create a database client for a connection URL
+ * @param url - Connection URL
+ * @param options - Explicit driver and pool size
+ * @returns Database
+ */
+export const connect = (
+  url: string,
+  options: { driver?: string; poolSize?: number } = {}
+): Database => {
+  const driver = resolveDriver(url, options.driver);
+  const poolSize = options.poolSize ?? 10;
+
+  if (driver === 'neon') {
+    // Neon accepts the same URL over HTTP once the scheme is standard
+    const neonUrl = url.replace(/^neon:/, 'postgresql:');
+    return createDatabase('neon', createNeonDriver(neonUrl, poolSize));
+  }
+
+  return createDatabase('pg', createPgDriver(url, poolSize));
+};
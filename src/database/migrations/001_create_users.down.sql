@@ -0,0 +1,2 @@
+-- Rollback: Create Users table
+DROP TABLE IF EXISTS users;
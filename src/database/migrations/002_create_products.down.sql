@@ -0,0 +1,2 @@
+-- Rollback: Create Products table
+DROP TABLE IF EXISTS products;
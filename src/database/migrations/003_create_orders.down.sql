@@ -0,0 +1,2 @@
+-- Rollback: Create Orders table
+DROP TABLE IF EXISTS orders;
@@ -0,0 +1,2 @@
+-- Rollback: Create Order Items table
+DROP TABLE IF EXISTS order_items;
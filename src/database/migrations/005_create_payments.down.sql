@@ -0,0 +1,2 @@
+-- Rollback: Create Payments table
+DROP TABLE IF EXISTS payments;
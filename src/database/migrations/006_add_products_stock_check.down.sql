@@ -0,0 +1,2 @@
+-- Rollback: Add non-negative stock constraint to Products
+ALTER TABLE products DROP CONSTRAINT IF EXISTS chk_products_stock_non_negative;
@@ -0,0 +1,5 @@
+-- Migration: Add non-negative stock constraint to Products
+-- Description: Guarantee stock can never be decremented below zero, so a short order aborts its transaction
+ALTER TABLE products DROP CONSTRAINT IF EXISTS chk_products_stock_non_negative;
+
+ALTER TABLE products ADD CONSTRAINT chk_products_stock_non_negative CHECK (stock >= 0);
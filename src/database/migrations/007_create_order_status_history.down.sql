@@ -0,0 +1,2 @@
+-- Rollback: Create Order Status History table
+DROP TABLE IF EXISTS order_status_history;
@@ -0,0 +1,4 @@
+-- Rollback: Create Refunds and Refund Items tables
+DROP TABLE IF EXISTS refund_items;
+
+DROP TABLE IF EXISTS refunds;
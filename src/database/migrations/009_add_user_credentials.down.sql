@@ -0,0 +1,4 @@
+-- Rollback: Add user credentials and Refresh Tokens table
+DROP TABLE IF EXISTS refresh_tokens;
+
+ALTER TABLE users DROP COLUMN IF EXISTS password_hash;
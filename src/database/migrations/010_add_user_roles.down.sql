@@ -0,0 +1,4 @@
+-- Rollback: Add role to Users
+ALTER TABLE users DROP CONSTRAINT IF EXISTS chk_users_role;
+
+ALTER TABLE users DROP COLUMN IF EXISTS role;
@@ -0,0 +1,7 @@
+-- Migration: Add role to Users
+-- Description: Role-based access control (admin, staff, customer), existing users become customers
+ALTER TABLE users ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'customer';
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS chk_users_role;
+
+ALTER TABLE users ADD CONSTRAINT chk_users_role CHECK (role IN ('admin', 'staff', 'customer'));
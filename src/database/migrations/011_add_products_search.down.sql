@@ -0,0 +1,5 @@
+-- Rollback: Add full-text search to Products
+DROP INDEX IF EXISTS idx_products_price;
+DROP INDEX IF EXISTS idx_products_search_vector;
+
+ALTER TABLE products DROP COLUMN IF EXISTS search_vector;
@@ -0,0 +1,8 @@
+-- Migration: Add full-text search to Products
+-- Description: Generated tsvector over the product name with a GIN index, plus a price index for range filters
+ALTER TABLE products
+    ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', name)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector ON products USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_products_price ON products(price);
@@ -0,0 +1,10 @@
+-- Rollback: Prepare Users, Products and Orders for keyset pagination
+-- Sub-millisecond precision dropped by the up migration cannot be restored
+DROP INDEX IF EXISTS idx_orders_user_id_created_at_id;
+DROP INDEX IF EXISTS idx_orders_created_at_id;
+DROP INDEX IF EXISTS idx_products_created_at_id;
+DROP INDEX IF EXISTS idx_users_created_at_id;
+
+ALTER TABLE orders ALTER COLUMN created_at TYPE TIMESTAMP;
+ALTER TABLE products ALTER COLUMN created_at TYPE TIMESTAMP;
+ALTER TABLE users ALTER COLUMN created_at TYPE TIMESTAMP;
@@ -0,0 +1,10 @@
+-- Migration: Prepare Users, Products and Orders for keyset pagination
+-- Description: Millisecond created_at so cursors round-trip exactly through JavaScript dates, and (created_at, id) indexes for cursor pages
+ALTER TABLE users ALTER COLUMN created_at TYPE TIMESTAMP(3);
+ALTER TABLE products ALTER COLUMN created_at TYPE TIMESTAMP(3);
+ALTER TABLE orders ALTER COLUMN created_at TYPE TIMESTAMP(3);
+
+CREATE INDEX IF NOT EXISTS idx_users_created_at_id ON users(created_at, id);
+CREATE INDEX IF NOT EXISTS idx_products_created_at_id ON products(created_at, id);
+CREATE INDEX IF NOT EXISTS idx_orders_created_at_id ON orders(created_at, id);
+CREATE INDEX IF NOT EXISTS idx_orders_user_id_created_at_id ON orders(user_id, created_at, id);
@@ -0,0 +1,20 @@
+-- Migration: Create Product Variants table
+-- Description: Sellable variants of a product (size, colour, ...) with their own SKU, stock and optional price, referenced by order items
+CREATE TABLE IF NOT EXISTS product_variants (
+    id SERIAL PRIMARY KEY,
+    product_id INT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    sku TEXT NOT NULL UNIQUE,
+    attributes JSONB NOT NULL DEFAULT '{}',
+    price NUMERIC(10,2),
+    stock INT NOT NULL DEFAULT 0,
+    created_at TIMESTAMP(3) DEFAULT NOW(),
+    CONSTRAINT chk_product_variants_stock_non_negative CHECK (stock >= 0)
+);
+
+COMMENT ON COLUMN product_variants.price IS 'Overrides the product price when set';
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_id ON product_variants(product_id);
+
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS variant_id INT REFERENCES product_variants(id);
+
+CREATE INDEX IF NOT EXISTS idx_order_items_variant_id ON order_items(variant_id);
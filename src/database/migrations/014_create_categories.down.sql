@@ -0,0 +1,4 @@
+-- Rollback: Create Categories and Product Categories tables
+DROP TABLE IF EXISTS product_categories;
+
+DROP TABLE IF EXISTS categories;
@@ -0,0 +1,22 @@
+-- Migration: Create Categories and Product Categories tables
+-- Description: Category tree (parent/child) and the many-to-many link between products and categories
+CREATE TABLE IF NOT EXISTS categories (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    parent_id INT REFERENCES categories(id),
+    created_at TIMESTAMP(3) DEFAULT NOW(),
+    CONSTRAINT chk_categories_not_own_parent CHECK (parent_id <> id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_categories_parent_id ON categories(parent_id);
+
+-- Sibling names are unique, case-insensitively; root categories count as siblings of each other
+CREATE UNIQUE INDEX IF NOT EXISTS uq_categories_parent_name ON categories (COALESCE(parent_id, 0), lower(name));
+
+CREATE TABLE IF NOT EXISTS product_categories (
+    product_id INT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    category_id INT NOT NULL REFERENCES categories(id) ON DELETE CASCADE,
+    PRIMARY KEY (product_id, category_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_categories_category_id ON product_categories(category_id);
@@ -0,0 +1,2 @@
+-- Rollback: Create Inventory Movements table
+DROP TABLE IF EXISTS inventory_movements;
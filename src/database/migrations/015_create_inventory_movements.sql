@@ -0,0 +1,37 @@
+-- Migration: Create Inventory Movements table
+-- Description: Append-only ledger of every product and variant stock change with its reason; stock always equals the sum of its movements
+CREATE TABLE IF NOT EXISTS inventory_movements (
+    id SERIAL PRIMARY KEY,
+    product_id INT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    variant_id INT REFERENCES product_variants(id) ON DELETE CASCADE,
+    quantity INT NOT NULL,
+    reason TEXT NOT NULL,
+    order_id INT REFERENCES orders(id) ON DELETE SET NULL,
+    refund_id INT REFERENCES refunds(id) ON DELETE SET NULL,
+    actor TEXT,
+    note TEXT,
+    created_at TIMESTAMP(3) DEFAULT NOW(),
+    CONSTRAINT chk_inventory_movements_quantity_non_zero CHECK (quantity <> 0),
+    CONSTRAINT chk_inventory_movements_reason
+        CHECK (reason IN ('sale', 'restock', 'adjustment', 'return', 'cancellation'))
+);
+
+COMMENT ON COLUMN inventory_movements.quantity IS 'Signed change: positive adds stock, negative removes it';
+COMMENT ON COLUMN inventory_movements.variant_id IS 'Set when the movement applies to a variant''s stock rather than the product''s';
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_product_created_at_id ON inventory_movements(product_id, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_variant_id ON inventory_movements(variant_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_order_id ON inventory_movements(order_id);
+
+-- Opening balances, so existing stock reconciles with the ledger from the start
+INSERT INTO inventory_movements (product_id, variant_id, quantity, reason, note)
+SELECT id, NULL, stock, 'adjustment', 'Opening balance'
+FROM products
+WHERE stock <> 0
+  AND NOT EXISTS (SELECT 1 FROM inventory_movements m WHERE m.product_id = products.id AND m.variant_id IS NULL);
+
+INSERT INTO inventory_movements (product_id, variant_id, quantity, reason, note)
+SELECT product_id, id, stock, 'adjustment', 'Opening balance'
+FROM product_variants
+WHERE stock <> 0
+  AND NOT EXISTS (SELECT 1 FROM inventory_movements m WHERE m.variant_id = product_variants.id);
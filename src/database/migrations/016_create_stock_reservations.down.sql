@@ -0,0 +1,9 @@
+-- Rollback: Create Stock Reservations table
+-- Active holds are dropped rather than turned into stock decrements; roll back with no pending orders
+DROP TABLE IF EXISTS stock_reservations;
+
+ALTER TABLE product_variants DROP CONSTRAINT IF EXISTS chk_product_variants_reserved_within_stock;
+ALTER TABLE product_variants DROP COLUMN IF EXISTS reserved;
+
+ALTER TABLE products DROP CONSTRAINT IF EXISTS chk_products_reserved_within_stock;
+ALTER TABLE products DROP COLUMN IF EXISTS reserved;
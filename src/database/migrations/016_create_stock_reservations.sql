@@ -0,0 +1,39 @@
+-- Migration: Create Stock Reservations table
+-- Description: Pending orders hold stock through reservations with an expiry instead of decrementing it; products and variants track the reserved total so available = stock - reserved
+ALTER TABLE products ADD COLUMN IF NOT EXISTS reserved INT NOT NULL DEFAULT 0;
+ALTER TABLE product_variants ADD COLUMN IF NOT EXISTS reserved INT NOT NULL DEFAULT 0;
+
+ALTER TABLE products DROP CONSTRAINT IF EXISTS chk_products_reserved_within_stock;
+ALTER TABLE products
+    ADD CONSTRAINT chk_products_reserved_within_stock CHECK (reserved >= 0 AND reserved <= stock);
+
+ALTER TABLE product_variants DROP CONSTRAINT IF EXISTS chk_product_variants_reserved_within_stock;
+ALTER TABLE product_variants
+    ADD CONSTRAINT chk_product_variants_reserved_within_stock CHECK (reserved >= 0 AND reserved <= stock);
+
+CREATE TABLE IF NOT EXISTS stock_reservations (
+    id SERIAL PRIMARY KEY,
+    order_id INT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    product_id INT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    variant_id INT REFERENCES product_variants(id) ON DELETE CASCADE,
+    quantity INT NOT NULL CHECK (quantity > 0),
+    status TEXT NOT NULL DEFAULT 'active',
+    expires_at TIMESTAMP(3) NOT NULL,
+    created_at TIMESTAMP(3) DEFAULT NOW(),
+    updated_at TIMESTAMP(3) DEFAULT NOW(),
+    CONSTRAINT chk_stock_reservations_status CHECK (status IN ('active', 'committed', 'released'))
+);
+
+COMMENT ON COLUMN stock_reservations.status IS 'active: holds stock; committed: converted into a stock decrement; released: hold dropped or stock returned';
+
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_order_id ON stock_reservations(order_id);
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_active_expires_at ON stock_reservations(expires_at) WHERE status = 'active';
+
+-- Open orders placed before reservations already decremented their stock, so they are
+-- recorded as committed: cancelling them still puts the stock back
+INSERT INTO stock_reservations (order_id, product_id, variant_id, quantity, status, expires_at)
+SELECT oi.order_id, oi.product_id, oi.variant_id, oi.quantity, 'committed', o.created_at
+FROM order_items oi
+JOIN orders o ON o.id = oi.order_id
+WHERE o.status IN ('pending', 'confirmed')
+  AND NOT EXISTS (SELECT 1 FROM stock_reservations r WHERE r.order_id = o.id);
@@ -0,0 +1,7 @@
+-- Rollback: Add reorder thresholds
+DROP TABLE IF EXISTS outbox_events;
+
+DROP INDEX IF EXISTS idx_products_reorder_threshold;
+ALTER TABLE products DROP CONSTRAINT IF EXISTS chk_products_reorder_threshold_non_negative;
+ALTER TABLE products DROP COLUMN IF EXISTS low_stock_since;
+ALTER TABLE products DROP COLUMN IF EXISTS reorder_threshold;
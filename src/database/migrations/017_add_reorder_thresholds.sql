@@ -0,0 +1,22 @@
+-- Migration: Add reorder thresholds
+-- Description: Products can carry a reorder threshold; low_stock_since marks products whose available stock is at or below it, so crossing the threshold is detected once. Outbox events hold domain events for delivery by an external relay
+ALTER TABLE products ADD COLUMN IF NOT EXISTS reorder_threshold INT;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS low_stock_since TIMESTAMP(3);
+
+ALTER TABLE products DROP CONSTRAINT IF EXISTS chk_products_reorder_threshold_non_negative;
+ALTER TABLE products
+    ADD CONSTRAINT chk_products_reorder_threshold_non_negative CHECK (reorder_threshold >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_products_reorder_threshold ON products(id) WHERE reorder_threshold IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS outbox_events (
+    id SERIAL PRIMARY KEY,
+    event_type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    created_at TIMESTAMP(3) DEFAULT NOW(),
+    published_at TIMESTAMP(3)
+);
+
+COMMENT ON COLUMN outbox_events.published_at IS 'Set by the relay once the event has been delivered; NULL while pending';
+
+CREATE INDEX IF NOT EXISTS idx_outbox_events_unpublished ON outbox_events(id) WHERE published_at IS NULL;
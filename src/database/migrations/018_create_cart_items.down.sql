@@ -0,0 +1,2 @@
+-- Rollback: Create Cart Items table
+DROP TABLE IF EXISTS cart_items;
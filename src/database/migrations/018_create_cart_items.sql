@@ -0,0 +1,18 @@
+-- Migration: Create Cart Items table
+-- Description: Persistent shopping cart per user; each line remembers the unit price when it was added so checkout can warn about price changes
+CREATE TABLE IF NOT EXISTS cart_items (
+    id SERIAL PRIMARY KEY,
+    user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    product_id INT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    variant_id INT REFERENCES product_variants(id) ON DELETE CASCADE,
+    quantity INT NOT NULL CHECK (quantity > 0),
+    added_price NUMERIC(10,2) NOT NULL,
+    created_at TIMESTAMP(3) DEFAULT NOW(),
+    updated_at TIMESTAMP(3) DEFAULT NOW()
+);
+
+COMMENT ON COLUMN cart_items.added_price IS 'Unit price (variant override or product price) when the line was last added';
+
+-- One line per product/variant in a cart; adding the same item again increases its quantity
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cart_items_user_product_variant
+    ON cart_items(user_id, product_id, (COALESCE(variant_id, 0)));
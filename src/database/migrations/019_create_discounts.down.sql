@@ -0,0 +1,7 @@
+-- Rollback: Create Discounts tables
+ALTER TABLE orders DROP COLUMN IF EXISTS discount_total;
+ALTER TABLE orders DROP COLUMN IF EXISTS subtotal;
+
+DROP TABLE IF EXISTS order_discounts;
+DROP TABLE IF EXISTS discount_redemptions;
+DROP TABLE IF EXISTS discounts;
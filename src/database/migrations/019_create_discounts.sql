@@ -0,0 +1,66 @@
+-- Migration: Create Discounts tables
+-- Description: Discount codes and automatic promotions (percentage, fixed amount, buy-X-get-Y, with optional minimum spend), usage counters enforced by CHECK constraints, and the discount lines applied to each order
+CREATE TABLE IF NOT EXISTS discounts (
+    id SERIAL PRIMARY KEY,
+    code TEXT,
+    description TEXT,
+    type TEXT NOT NULL,
+    value NUMERIC(10,2),
+    product_id INT REFERENCES products(id) ON DELETE CASCADE,
+    buy_quantity INT,
+    get_quantity INT,
+    min_spend NUMERIC(10,2),
+    starts_at TIMESTAMP(3),
+    ends_at TIMESTAMP(3),
+    max_uses INT,
+    max_uses_per_user INT,
+    times_used INT NOT NULL DEFAULT 0,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP(3) DEFAULT NOW(),
+    CONSTRAINT chk_discounts_type CHECK (type IN ('percentage', 'fixed', 'buy_x_get_y')),
+    CONSTRAINT chk_discounts_rule CHECK (
+        (type = 'percentage' AND value > 0 AND value <= 100)
+        OR (type = 'fixed' AND value > 0)
+        OR (type = 'buy_x_get_y' AND buy_quantity > 0 AND get_quantity > 0)
+    ),
+    CONSTRAINT chk_discounts_window CHECK (ends_at IS NULL OR starts_at IS NULL OR ends_at > starts_at),
+    CONSTRAINT chk_discounts_within_max_uses CHECK (times_used >= 0 AND (max_uses IS NULL OR times_used <= max_uses))
+);
+
+COMMENT ON COLUMN discounts.code IS 'Code customers enter at checkout; NULL for promotions applied automatically to every qualifying order';
+COMMENT ON COLUMN discounts.value IS 'Percent off for percentage discounts, amount off for fixed discounts';
+COMMENT ON COLUMN discounts.product_id IS 'Restricts the discount to lines of this product when set';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_discounts_code ON discounts(upper(code)) WHERE code IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_discounts_automatic ON discounts(id) WHERE code IS NULL AND active;
+
+-- Per-user usage; max_uses copies discounts.max_uses_per_user on every redemption so the CHECK
+-- can enforce it in the order transaction
+CREATE TABLE IF NOT EXISTS discount_redemptions (
+    discount_id INT NOT NULL REFERENCES discounts(id) ON DELETE CASCADE,
+    user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    times_used INT NOT NULL DEFAULT 0,
+    max_uses INT,
+    PRIMARY KEY (discount_id, user_id),
+    CONSTRAINT chk_discount_redemptions_within_max_uses CHECK (times_used >= 0 AND (max_uses IS NULL OR times_used <= max_uses))
+);
+
+CREATE TABLE IF NOT EXISTS order_discounts (
+    id SERIAL PRIMARY KEY,
+    order_id INT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    discount_id INT REFERENCES discounts(id) ON DELETE SET NULL,
+    code TEXT,
+    description TEXT,
+    amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+    created_at TIMESTAMP(3) DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_discounts_order_id ON order_discounts(order_id);
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS subtotal NUMERIC(10,2);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_total NUMERIC(10,2) NOT NULL DEFAULT 0;
+
+-- Orders placed before discounts were charged their item total
+UPDATE orders SET subtotal = total_amount WHERE subtotal IS NULL;
+
+ALTER TABLE orders ALTER COLUMN subtotal SET NOT NULL;
@@ -0,0 +1,9 @@
+-- Rollback: Add tax and shipping
+ALTER TABLE orders DROP COLUMN IF EXISTS shipping_total;
+ALTER TABLE orders DROP COLUMN IF EXISTS tax_total;
+ALTER TABLE orders DROP COLUMN IF EXISTS region;
+
+DROP TABLE IF EXISTS tax_rates;
+
+ALTER TABLE products DROP CONSTRAINT IF EXISTS chk_products_weight_non_negative;
+ALTER TABLE products DROP COLUMN IF EXISTS weight_grams;
@@ -0,0 +1,27 @@
+-- Migration: Add tax and shipping
+-- Description: Product weights for weight-based shipping, tax rates by region and (optionally) category, and the region, tax and shipping that make up each order's total
+ALTER TABLE products ADD COLUMN IF NOT EXISTS weight_grams INT NOT NULL DEFAULT 0;
+
+ALTER TABLE products DROP CONSTRAINT IF EXISTS chk_products_weight_non_negative;
+ALTER TABLE products
+    ADD CONSTRAINT chk_products_weight_non_negative CHECK (weight_grams >= 0);
+
+CREATE TABLE IF NOT EXISTS tax_rates (
+    id SERIAL PRIMARY KEY,
+    region TEXT NOT NULL,
+    category_id INT REFERENCES categories(id) ON DELETE CASCADE,
+    rate NUMERIC(6,3) NOT NULL,
+    created_at TIMESTAMP(3) DEFAULT NOW(),
+    CONSTRAINT chk_tax_rates_rate CHECK (rate >= 0 AND rate <= 100)
+);
+
+COMMENT ON COLUMN tax_rates.region IS 'ISO 3166 country or subdivision code the rate applies to, e.g. DE or US-CA';
+COMMENT ON COLUMN tax_rates.category_id IS 'Category (and its subcategories) the rate applies to; NULL for the region''s default rate';
+COMMENT ON COLUMN tax_rates.rate IS 'Percentage of the discounted line amount';
+
+-- One default rate per region and one rate per region and category
+CREATE UNIQUE INDEX IF NOT EXISTS uq_tax_rates_region_category ON tax_rates (region, (COALESCE(category_id, 0)));
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS region TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS tax_total NUMERIC(10,2) NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_total NUMERIC(10,2) NOT NULL DEFAULT 0;
@@ -0,0 +1,12 @@
+-- Rollback: Add currencies
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS chk_payments_currency;
+ALTER TABLE payments DROP COLUMN IF EXISTS currency;
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS chk_orders_currency;
+ALTER TABLE orders DROP COLUMN IF EXISTS exchange_rate;
+ALTER TABLE orders DROP COLUMN IF EXISTS currency;
+
+ALTER TABLE products DROP CONSTRAINT IF EXISTS chk_products_currency;
+ALTER TABLE products DROP COLUMN IF EXISTS currency;
+
+DROP TABLE IF EXISTS exchange_rates;
@@ -0,0 +1,32 @@
+-- Migration: Add currencies
+-- Description: ISO 4217 currency codes on products, orders and payments, exchange rates against the base currency with the time each takes effect, and the rate each order was converted at. Existing rows are in USD, the default base currency
+CREATE TABLE IF NOT EXISTS exchange_rates (
+    id SERIAL PRIMARY KEY,
+    currency TEXT NOT NULL,
+    rate NUMERIC(18,8) NOT NULL,
+    effective_from TIMESTAMP(3) NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMP(3) DEFAULT NOW(),
+    CONSTRAINT chk_exchange_rates_currency CHECK (currency ~ '^[A-Z]{3}$'),
+    CONSTRAINT chk_exchange_rates_rate_positive CHECK (rate > 0)
+);
+
+COMMENT ON COLUMN exchange_rates.rate IS 'Units of currency per unit of the base currency';
+COMMENT ON COLUMN exchange_rates.effective_from IS 'The rate applies from this time until the next rate of the currency takes effect';
+
+-- Current rate lookups take the latest effective_from at or before a point in time
+CREATE UNIQUE INDEX IF NOT EXISTS uq_exchange_rates_currency_effective_from ON exchange_rates(currency, effective_from DESC);
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE products DROP CONSTRAINT IF EXISTS chk_products_currency;
+ALTER TABLE products ADD CONSTRAINT chk_products_currency CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(18,8) NOT NULL DEFAULT 1;
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS chk_orders_currency;
+ALTER TABLE orders ADD CONSTRAINT chk_orders_currency CHECK (currency ~ '^[A-Z]{3}$');
+
+COMMENT ON COLUMN orders.exchange_rate IS 'Units of the order currency per unit of the base currency when the order was placed';
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE payments DROP CONSTRAINT IF EXISTS chk_payments_currency;
+ALTER TABLE payments ADD CONSTRAINT chk_payments_currency CHECK (currency ~ '^[A-Z]{3}$');
@@ -0,0 +1,37 @@
+-- Migration: Create Addresses table
+-- Description: Address book per user with at most one default shipping and one default billing address, and the addresses each order was placed with, snapshotted so later edits to the address book leave order history unchanged
+CREATE TABLE IF NOT EXISTS addresses (
+    id SERIAL PRIMARY KEY,
+    user_id INT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    label TEXT,
+    recipient_name TEXT NOT NULL,
+    line1 TEXT NOT NULL,
+    line2 TEXT,
+    city TEXT NOT NULL,
+    subdivision TEXT,
+    postal_code TEXT,
+    country TEXT NOT NULL,
+    phone TEXT,
+    is_default_shipping BOOLEAN NOT NULL DEFAULT FALSE,
+    is_default_billing BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP(3) DEFAULT NOW(),
+    updated_at TIMESTAMP(3) DEFAULT NOW(),
+    CONSTRAINT chk_addresses_country CHECK (country ~ '^[A-Z]{2}$'),
+    CONSTRAINT chk_addresses_subdivision CHECK (subdivision ~ '^[A-Z0-9]{1,3}$')
+);
+
+COMMENT ON COLUMN addresses.subdivision IS 'ISO 3166-2 subdivision code within country (CA for US-CA)';
+
+CREATE INDEX IF NOT EXISTS idx_addresses_user_id ON addresses(user_id);
+
+-- At most one default of each kind per user
+CREATE UNIQUE INDEX IF NOT EXISTS uq_addresses_default_shipping
+    ON addresses(user_id) WHERE is_default_shipping;
+CREATE UNIQUE INDEX IF NOT EXISTS uq_addresses_default_billing
+    ON addresses(user_id) WHERE is_default_billing;
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipping_address JSONB;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS billing_address JSONB;
+
+COMMENT ON COLUMN orders.shipping_address IS 'Copy of the address book entry the order ships to, as it was when the order was placed';
+COMMENT ON COLUMN orders.billing_address IS 'Copy of the address book entry the order is billed to, as it was when the order was placed';
@@ -0,0 +1,14 @@
+-- Rollback: Widen money columns
+-- Fails with numeric overflow if any amount no longer fits NUMERIC(10,2)
+ALTER TABLE refund_items ALTER COLUMN amount TYPE NUMERIC(10,2);
+ALTER TABLE refunds ALTER COLUMN amount TYPE NUMERIC(10,2);
+ALTER TABLE payments ALTER COLUMN amount TYPE NUMERIC(10,2);
+ALTER TABLE order_discounts ALTER COLUMN amount TYPE NUMERIC(10,2);
+ALTER TABLE order_items ALTER COLUMN price TYPE NUMERIC(10,2);
+
+ALTER TABLE orders
+    ALTER COLUMN total_amount TYPE NUMERIC(10,2),
+    ALTER COLUMN subtotal TYPE NUMERIC(10,2),
+    ALTER COLUMN discount_total TYPE NUMERIC(10,2),
+    ALTER COLUMN tax_total TYPE NUMERIC(10,2),
+    ALTER COLUMN shipping_total TYPE NUMERIC(10,2);
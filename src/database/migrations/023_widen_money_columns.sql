@@ -0,0 +1,14 @@
+-- Migration: Widen money columns
+-- Description: Order, payment and refund amounts widened to NUMERIC(14,2), so orders converted into large-unit currencies (JPY, KRW) fit; product prices stay NUMERIC(10,2)
+ALTER TABLE orders
+    ALTER COLUMN total_amount TYPE NUMERIC(14,2),
+    ALTER COLUMN subtotal TYPE NUMERIC(14,2),
+    ALTER COLUMN discount_total TYPE NUMERIC(14,2),
+    ALTER COLUMN tax_total TYPE NUMERIC(14,2),
+    ALTER COLUMN shipping_total TYPE NUMERIC(14,2);
+
+ALTER TABLE order_items ALTER COLUMN price TYPE NUMERIC(14,2);
+ALTER TABLE order_discounts ALTER COLUMN amount TYPE NUMERIC(14,2);
+ALTER TABLE payments ALTER COLUMN amount TYPE NUMERIC(14,2);
+ALTER TABLE refunds ALTER COLUMN amount TYPE NUMERIC(14,2);
+ALTER TABLE refund_items ALTER COLUMN amount TYPE NUMERIC(14,2);
@@ -0,0 +1,3 @@
+-- Rollback: Add order item discount and tax
+ALTER TABLE order_items DROP COLUMN IF EXISTS tax;
+ALTER TABLE order_items DROP COLUMN IF EXISTS discount;
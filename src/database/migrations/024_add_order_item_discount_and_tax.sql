@@ -0,0 +1,7 @@
+-- Migration: Add order item discount and tax
+-- Description: Each order line's share of the order discounts and its tax, recorded when the order is placed so line refunds return what was actually paid for the units. NULL on orders placed before this migration
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS discount NUMERIC(14,2);
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS tax NUMERIC(14,2);
+
+COMMENT ON COLUMN order_items.discount IS 'Share of the order discounts taken off the line, in the order currency';
+COMMENT ON COLUMN order_items.tax IS 'Tax charged on the discounted line, in the order currency';
@@ -0,0 +1,46 @@
+// Neon serverless driver
+// Queries and batch transactions go over HTTP; interactive transactions and sessions need a
+// real connection, so they use Neon's WebSocket Pool, opened on first use
+
+import { neon, neonConfig, Pool } from '@neondatabase/serverless';
+import ws from 'ws';
+import { DatabaseDriver, Executor, Row } from './client';
+import { runInSession, runInTransaction } from './pgDriver';
+
+/**
+ * Create a Neon driver
+ * @param connectionString - Neon connection URL
+ * @param poolSize - Maximum number of WebSocket connections for transactions and sessions
+ * @returns DatabaseDriver
+ */
+export const createNeonDriver = (connectionString: string, poolSize: number): DatabaseDriver => {
+  const http = neon(connectionString);
+  let pool: Pool | null = null;
+
+  const getPool = (): Pool => {
+    if (!pool) {
+      // Node < 22 has no global WebSocket
+      if (typeof WebSocket === 'undefined') {
+        neonConfig.webSocketConstructor = ws;
+      }
+      pool = new Pool({ connectionString, max: poolSize });
+    }
+    return pool;
+  };
+
+  const query: Executor = async (text, params) => (await http.query(text, params)) as Row[];
+
+  return {
+    query,
+    batch: async (queries, options) =>
+      (await http.transaction(
+        (txn) => queries.map(({ text, params }) => txn.query(text, params)),
+        options
+      )) as Row[][],
+    begin: (fn, options) => runInTransaction(getPool(), fn, options),
+    session: (fn) => runInSession(getPool(), fn),
+    end: async () => {
+      await pool?.end();
+    },
+  };
+};
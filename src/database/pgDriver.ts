@@ -0,0 +1,104 @@
+// Pooled TCP driver using node-postgres (local Postgres, docker-compose, or any Postgres host)
+
+import { Pool } from 'pg';
+import { DatabaseDriver, Executor, IsolationLevel, Row, TransactionOptions } from './client';
+
+const ISOLATION_LEVELS: Record<IsolationLevel, string> = {
+  ReadUncommitted: 'READ UNCOMMITTED',
+  ReadCommitted: 'READ COMMITTED',
+  RepeatableRead: 'REPEATABLE READ',
+  Serializable: 'SERIALIZABLE',
+};
+
+/**
+ * Build the BEGIN statement for a set of transaction options
+ * @param options - Isolation level / read-only
+ * @returns string - BEGIN statement
+ */
+const beginStatement = (options: TransactionOptions): string => {
+  const modes = [
+    options.isolationLevel && `ISOLATION LEVEL ${ISOLATION_LEVELS[options.isolationLevel]}`,
+    options.readOnly && 'READ ONLY',
+  ].filter(Boolean);
+
+  return modes.length > 0 ? `BEGIN ${modes.join(', ')}` : 'BEGIN';
+};
+
+/**
+ * Run a callback on one pooled connection, released afterwards
+ *
+ * Works with any pg-compatible Pool, including Neon's WebSocket Pool.
+ *
+ * @param pool - Connection pool
+ * @param fn - Receives an executor bound to the connection
+ * @returns Promise<T> - Value returned by fn
+ */
+export const runInSession = async <T>(
+  pool: Pool,
+  fn: (execute: Executor) => Promise<T>
+): Promise<T> => {
+  const client = await pool.connect();
+
+  try {
+    return await fn(async (text, params) => (await client.query<Row>(text, params)).rows);
+  } finally {
+    client.release();
+  }
+};
+
+/**
+ * Run a callback inside a transaction on one pooled connection
+ *
+ * @param pool - Connection pool
+ * @param fn - Receives an executor bound to the transaction's connection
+ * @param options - Isolation level / read-only
+ * @returns Promise<T> - Value returned by fn, after COMMIT
+ */
+export const runInTransaction = async <T>(
+  pool: Pool,
+  fn: (execute: Executor) => Promise<T>,
+  options: TransactionOptions
+): Promise<T> => {
+  return runInSession(pool, async (execute) => {
+    await execute(beginStatement(options), []);
+    try {
+      const result = await fn(execute);
+      await execute('COMMIT', []);
+      return result;
+    } catch (error) {
+      await execute('ROLLBACK', []).catch(() => undefined);
+      throw error;
+    }
+  });
+};
+
+/**
+ * Create a pooled node-postgres driver
+ * @param connectionString - Postgres connection URL
+ * @param poolSize - Maximum number of pooled connections
+ * @returns DatabaseDriver
+ */
+export const createPgDriver = (connectionString: string, poolSize: number): DatabaseDriver => {
+  const pool = new Pool({ connectionString, max: poolSize });
+
+  const query: Executor = async (text, params) => (await pool.query(text, params)).rows as Row[];
+
+  return {
+    query,
+    batch: (queries, options) =>
+      runInTransaction(
+        pool,
+        async (execute) => {
+          const results: Row[][] = [];
+          for (const { text, params } of queries) {
+            results.push(await execute(text, params));
+          }
+          return results;
+        },
+        options
+      ),
+    begin: (fn, options) => runInTransaction(pool, fn, options),
+    session: (fn) => runInSession(pool, fn),
+    end: () => pool.end(),
+  };
+};
@@ -1,16 +1,41 @@
 -- Seed: Sample data for development and testing
 -- Insert sample users
-INSERT INTO users (name, email) VALUES
-    ('John Doe', 'john@example.com'),
-    ('Jane Smith', 'jane@example.com'),
-    ('Bob Johnson', 'bob@example.com')
+INSERT INTO users (name, email, role) VALUES
+    ('John Doe', 'john@example.com', 'admin'),
+    ('Jane Smith', 'jane@example.com', 'staff'),
+    ('Bob Johnson', 'bob@example.com', 'customer')
 ON CONFLICT (email) DO NOTHING;
 
 -- Insert sample products
-INSERT INTO products (name, price, stock) VALUES
-    ('Laptop Pro', 999.99, 10),
-    ('Wireless Mouse', 29.99, 50),
-    ('USB-C Cable', 9.99, 100),
-    ('Monitor 27"', 299.99, 5),
-    ('Mechanical Keyboard', 149.99, 20)
+INSERT INTO products (name, price, stock, reorder_threshold, weight_grams) VALUES
+    ('Laptop Pro', 999.99, 10, 3, 1800),
+    ('Wireless Mouse', 29.99, 50, 10, 90),
+    ('USB-C Cable', 9.99, 100, 20, 40),
+    ('Monitor 27"', 299.99, 5, 8, 6200),
+    ('Mechanical Keyboard', 149.99, 20, 5, 950)
 ON CONFLICT DO NOTHING;
+
+-- Insert sample default tax rates
+INSERT INTO tax_rates (region, rate) VALUES
+    ('US-CA', 7.25),
+    ('US-NY', 4),
+    ('DE', 19)
+ON CONFLICT DO NOTHING;
+
+-- Exchange rates against the base currency (USD)
+INSERT INTO exchange_rates (currency, rate, effective_from) VALUES
+    ('EUR', 0.92, '2024-01-01'),
+    ('GBP', 0.79, '2024-01-01')
+ON CONFLICT DO NOTHING;
+
+-- Products seeded at or below their reorder threshold start out flagged as low on stock
+UPDATE products
+SET low_stock_since = NOW()
+WHERE stock - reserved <= reorder_threshold AND low_stock_since IS NULL;
+
+-- Record opening stock in the inventory ledger for products that have none yet
+INSERT INTO inventory_movements (product_id, quantity, reason, note)
+SELECT id, stock, 'restock', 'Seeded'
+FROM products
+WHERE stock > 0
+  AND NOT EXISTS (SELECT 1 FROM inventory_movements m WHERE m.product_id = products.id);
@@ -1,9 +1,26 @@
 import 'dotenv/config';
-import express, { Express, Request, Response, NextFunction } from 'express';
+import express, { Express, Request, Response } from 'express';
 import { config } from './config/env';
 import sql from './config/database';
+import { authenticate } from './middleware/authentication';
+import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { requestLogger } from './middleware/requestLogger';
+import authRoutes from './routes/auth';
 import userRoutes from './routes/users';
 import productRoutes from './routes/products';
+import categoryRoutes from './routes/categories';
+import orderRoutes from './routes/orders';
+import paymentRoutes from './routes/payments';
+import discountRoutes from './routes/discounts';
+import taxRateRoutes from './routes/taxRates';
+import exchangeRateRoutes from './routes/exchangeRates';
+import { createNotificationSink, registerNotificationSinks } from './services/notificationSinks';
+import { createPaymentProvider } from './services/paymentProvider';
+import { setPaymentProvider } from './services/paymentService';
+import { setShippingStrategy } from './services/pricingService';
+import { startReservationSweeper } from './services/reservationService';
+import { createShippingStrategy } from './services/shippingRates';
+import logger from './utils/logger';
 
 const app: Express = express();
 const port = config.server.port;
@@ -13,18 +30,15 @@ const host = config.server.host;
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
-// Request logging middleware
-app.use((req: Request, res: Response, next: NextFunction) => {
-  console.log(`${req.method} ${req.path}`);
-  next();
-});
+// Request ID and access logging middleware
+app.use(requestLogger);
 
 // Health check endpoint
 app.get('/health', async (req: Request, res: Response) => {
   try {
     // Test database connection
-    const result = await sql`SELECT version()`;
-    const dbVersion = (result && result[0] && (result[0] as any).version) || 'unknown';
+    const result = await sql<{ version: string }>`SELECT version()`;
+    const dbVersion = (result && result[0] && result[0].version) || 'unknown';
 
     res.status(200).json({
       status: 'ok',
@@ -50,32 +64,43 @@ app.get('/health', async (req: Request, res: Response) => {
 });
 
 // Routes
-app.use('/users', userRoutes);
-app.use('/products', productRoutes);
+app.use('/auth', authRoutes);
+app.use('/users', authenticate, userRoutes);
+app.use('/products', authenticate, productRoutes);
+app.use('/categories', authenticate, categoryRoutes);
+app.use('/orders', authenticate, orderRoutes);
+app.use('/payments', authenticate, paymentRoutes);
+app.use('/discounts', authenticate, discountRoutes);
+app.use('/tax-rates', authenticate, taxRateRoutes);
+app.use('/exchange-rates', authenticate, exchangeRateRoutes);
 
 // 404 handler
-app.use((req: Request, res: Response) => {
-  res.status(404).json({
-    status: 'error',
-    message: 'Route not found',
-    path: req.path,
-  });
-});
+app.use(notFoundHandler);
 
 // Error handling middleware
-app.use((err: any, req: Request, res: Response, next: NextFunction) => {
-  console.error('Error:', err);
-  res.status(err.status || 500).json({
-    status: 'error',
-    message: err.message || 'Internal server error',
-    timestamp: new Date().toISOString(),
-  });
-});
+app.use(errorHandler);
+
+// Deliver domain events (low-stock alerts, ...) to the configured sinks
+registerNotificationSinks(
+  config.notifications.sinks.map((name) =>
+    createNotificationSink(name, config.notifications.webhookUrl)
+  )
+);
+
+// Charge payments through the configured provider
+setPaymentProvider(createPaymentProvider(config.payments.provider, config.server.nodeEnv));
+
+// Charge shipping with the configured strategy
+setShippingStrategy(createShippingStrategy(config.shipping));
 
 // Start server
 app.listen(port, host, () => {
-  console.log(`\n🚀 Server running at http://${host}:${port}`);
-  console.log(`📊 Health check: http://${host}:${port}/health`);
-  console.log(`👥 User routes: http://${host}:${port}/users`);
-  console.log(`🌍 Environment: ${config.server.nodeEnv}\n`);
+  logger.info('server started', {
+    url: `http://${host}:${port}`,
+    health_check: `http://${host}:${port}/health`,
+    environment: config.server.nodeEnv,
+  });
+
+  // Cancel unpaid orders whose stock reservations have expired
+  startReservationSweeper(config.inventory.reservationSweepIntervalSeconds * 1000);
 });
@@ -1,3 +1,113 @@
 // Authentication and authorization middleware
-// TODO: JWT verification, user authentication
-// TODO: Role-based access control (RBAC)
+
+import { NextFunction, Request, Response } from 'express';
+import { ROLE_PERMISSIONS } from '../config/constants';
+import authService from '../services/authService';
+import { AuthenticationError, ForbiddenError } from './errorHandler';
+import orderService from '../services/orderService';
+import paymentService from '../services/paymentService';
+import { Permission, UserRole } from '../types/index';
+
+type OwnerResolver = (req: Request) => Promise<number | null>;
+
+/**
+ * Resolve the owning user of the resource a request targets, keyed by permission resource.
+ * Used only when the caller holds nothing but ':own' permissions for the route.
+ */
+const OWNER_RESOLVERS: Record<string, OwnerResolver> = {
+  // /users/:id and nested routes
+  users: async (req) => parseInt(String(req.params.id), 10) || null,
+
+  // /orders/:id and nested routes, or the user_id of an order being placed
+  orders: async (req) => {
+    if (req.params.id !== undefined) {
+      const orderId = parseInt(String(req.params.id), 10);
+      return isNaN(orderId) ? null : orderService.getOrderOwnerId(orderId);
+    }
+    const userId = (req.body as { user_id?: unknown } | undefined)?.user_id;
+    return typeof userId === 'number' ? userId : null;
+  },
+
+  // /users/:id/cart and nested routes
+  carts: async (req) => parseInt(String(req.params.id), 10) || null,
+
+  // /users/:id/addresses and nested routes
+  addresses: async (req) => parseInt(String(req.params.id), 10) || null,
+
+  // /payments/:id and nested routes
+  payments: async (req) => {
+    const paymentId = parseInt(String(req.params.id), 10);
+    return isNaN(paymentId) ? null : paymentService.getPaymentOwnerId(paymentId);
+  },
+};
+
+/**
+ * Check whether a role grants a permission
+ * @param role - User role
+ * @param permission - Permission to check
+ * @returns boolean - True if granted
+ */
+export const hasPermission = (role: UserRole, permission: Permission): boolean => {
+  return (ROLE_PERMISSIONS[role] ?? []).includes(permission);
+};
+
+/**
+ * Require a valid Bearer access token and attach its user to req.user
+ */
+export const authenticate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const header = req.headers.authorization;
+  const [scheme, token] = header ? header.split(' ') : [];
+
+  if (scheme !== 'Bearer' || !token) {
+    next(new AuthenticationError('Missing or malformed Authorization header'));
+    return;
+  }
+
+  try {
+    req.user = await authService.verifyAccessToken(token);
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Require the authenticated user to hold at least one of the given permissions.
+ * If only ':own' permissions match, the targeted resource must belong to the user.
+ * Must run after authenticate.
+ */
+export const authorize = (...permissions: Permission[]) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      next(new AuthenticationError());
+      return;
+    }
+
+    const granted = permissions.filter((permission) => hasPermission(req.user!.role, permission));
+
+    if (granted.some((permission) => !permission.endsWith(':own'))) {
+      next();
+      return;
+    }
+
+    try {
+      for (const permission of granted) {
+        const resolveOwner = OWNER_RESOLVERS[permission.split(':')[0]];
+        if (resolveOwner && (await resolveOwner(req)) === req.user.id) {
+          next();
+          return;
+        }
+      }
+
+      next(new ForbiddenError());
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+export default authenticate;
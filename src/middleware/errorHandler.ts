@@ -1,2 +1,272 @@
 // Global error handling middleware
-// TODO: Centralized error handling, logging, response formatting
+
+import { NextFunction, Request, Response } from 'express';
+import { config } from '../config/env';
+import { ApiErrorResponse, OrderItemFailure, OrderStatus } from '../types/index';
+import logger, { serializeError } from '../utils/logger';
+
+/**
+ * Stable, machine-readable error codes returned in ApiErrorResponse.error
+ */
+export enum ErrorCode {
+  BAD_REQUEST = 'BAD_REQUEST',
+  VALIDATION_ERROR = 'VALIDATION_ERROR',
+  UNAUTHENTICATED = 'UNAUTHENTICATED',
+  FORBIDDEN = 'FORBIDDEN',
+  NOT_FOUND = 'NOT_FOUND',
+  ROUTE_NOT_FOUND = 'ROUTE_NOT_FOUND',
+  CONFLICT = 'CONFLICT',
+  INSUFFICIENT_STOCK = 'INSUFFICIENT_STOCK',
+  INVALID_STATUS_TRANSITION = 'INVALID_STATUS_TRANSITION',
+  UNPROCESSABLE_ENTITY = 'UNPROCESSABLE_ENTITY',
+  ORDER_NOT_PAYABLE = 'ORDER_NOT_PAYABLE',
+  ORDER_HAS_PAYMENTS = 'ORDER_HAS_PAYMENTS',
+  PAYMENT_EXCEEDS_BALANCE = 'PAYMENT_EXCEEDS_BALANCE',
+  PAYMENT_NOT_REFUNDABLE = 'PAYMENT_NOT_REFUNDABLE',
+  REFUND_EXCEEDS_BALANCE = 'REFUND_EXCEEDS_BALANCE',
+  CART_EMPTY = 'CART_EMPTY',
+  QUANTITY_LIMIT_EXCEEDED = 'QUANTITY_LIMIT_EXCEEDED',
+  DISCOUNT_NOT_APPLICABLE = 'DISCOUNT_NOT_APPLICABLE',
+  UNSUPPORTED_CURRENCY = 'UNSUPPORTED_CURRENCY',
+  CURRENCY_MISMATCH = 'CURRENCY_MISMATCH',
+  ORDER_TOTAL_TOO_LARGE = 'ORDER_TOTAL_TOO_LARGE',
+  FOREIGN_KEY_VIOLATION = 'FOREIGN_KEY_VIOLATION',
+  CHECK_VIOLATION = 'CHECK_VIOLATION',
+  VALUE_OUT_OF_RANGE = 'VALUE_OUT_OF_RANGE',
+  CONCURRENT_UPDATE = 'CONCURRENT_UPDATE',
+  INTERNAL_ERROR = 'INTERNAL_ERROR',
+}
+
+/**
+ * Base class for errors that map directly onto an HTTP response
+ */
+export class AppError extends Error {
+  readonly statusCode: number;
+  readonly code: ErrorCode;
+  readonly details?: unknown;
+
+  constructor(message: string, statusCode: number, code: ErrorCode, details?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.statusCode = statusCode;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * A single field-level validation failure
+ */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * 400 - Request is malformed or fails validation
+ */
+export class ValidationError extends AppError {
+  constructor(message: string, errors: FieldError[] = []) {
+    super(message, 400, ErrorCode.VALIDATION_ERROR, errors.length > 0 ? errors : undefined);
+  }
+}
+
+/**
+ * 401 - Missing, invalid, expired or revoked credentials
+ */
+export class AuthenticationError extends AppError {
+  constructor(message: string = 'Authentication required') {
+    super(message, 401, ErrorCode.UNAUTHENTICATED);
+  }
+}
+
+/**
+ * 403 - Authenticated but not allowed to perform the action
+ */
+export class ForbiddenError extends AppError {
+  constructor(message: string = 'You do not have permission to perform this action') {
+    super(message, 403, ErrorCode.FORBIDDEN);
+  }
+}
+
+/**
+ * 404 - Resource does not exist
+ */
+export class NotFoundError extends AppError {
+  constructor(resource: string, id?: number | string) {
+    super(
+      id === undefined ? `${resource} not found` : `${resource} with ID ${id} not found`,
+      404,
+      ErrorCode.NOT_FOUND
+    );
+  }
+}
+
+/**
+ * 409 - Request conflicts with current state (e.g. duplicate unique value)
+ */
+export class ConflictError extends AppError {
+  constructor(message: string, code: ErrorCode = ErrorCode.CONFLICT, details?: unknown) {
+    super(message, 409, code, details);
+  }
+}
+
+/**
+ * 409 - One or more order items are missing or short on stock
+ */
+export class InsufficientStockError extends ConflictError {
+  readonly items: OrderItemFailure[];
+
+  constructor(items: OrderItemFailure[]) {
+    super(`Insufficient stock for ${items.length} item(s)`, ErrorCode.INSUFFICIENT_STOCK, items);
+    this.items = items;
+  }
+}
+
+/**
+ * 409 - Order status change not allowed by ORDER_STATUS_TRANSITIONS,
+ * or the order's status changed concurrently
+ */
+export class InvalidStatusTransitionError extends ConflictError {
+  readonly from: OrderStatus;
+  readonly to: OrderStatus;
+
+  constructor(from: OrderStatus, to: OrderStatus) {
+    super(`Cannot transition order from ${from} to ${to}`, ErrorCode.INVALID_STATUS_TRANSITION, {
+      from,
+      to,
+    });
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * 422 - Well-formed request that breaks a business rule or referential constraint
+ */
+export class UnprocessableEntityError extends AppError {
+  constructor(
+    message: string,
+    code: ErrorCode = ErrorCode.UNPROCESSABLE_ENTITY,
+    details?: unknown
+  ) {
+    super(message, 422, code, details);
+  }
+}
+
+// Postgres SQLSTATE codes mapped to typed errors; services also catch check violations themselves
+const PG_UNIQUE_VIOLATION = '23505';
+const PG_FOREIGN_KEY_VIOLATION = '23503';
+export const PG_CHECK_VIOLATION = '23514';
+const PG_INVALID_TEXT_REPRESENTATION = '22P02';
+const PG_NUMERIC_VALUE_OUT_OF_RANGE = '22003';
+export const PG_SERIALIZATION_FAILURE = '40001';
+
+/**
+ * Translate a Postgres driver error into a typed error
+ *
+ * Messages are fixed: the driver's detail text quotes column values (e.g. another user's email),
+ * so only the constraint name is passed on.
+ *
+ * @param error - Error thrown by the database driver
+ * @returns AppError | null - Typed error, or null if the error is not a recognised constraint error
+ */
+export const fromDatabaseError = (error: unknown): AppError | null => {
+  const dbError = error as { code?: unknown; constraint?: string };
+
+  if (!dbError || typeof dbError.code !== 'string') {
+    return null;
+  }
+
+  const details = dbError.constraint ? { constraint: dbError.constraint } : undefined;
+
+  switch (dbError.code) {
+    case PG_UNIQUE_VIOLATION:
+      return new ConflictError('Resource already exists', ErrorCode.CONFLICT, details);
+    case PG_FOREIGN_KEY_VIOLATION:
+      return new UnprocessableEntityError(
+        'Referenced resource does not exist',
+        ErrorCode.FOREIGN_KEY_VIOLATION,
+        details
+      );
+    case PG_CHECK_VIOLATION:
+      return new UnprocessableEntityError(
+        'Value violates a data constraint',
+        ErrorCode.CHECK_VIOLATION,
+        details
+      );
+    case PG_INVALID_TEXT_REPRESENTATION:
+      return new ValidationError('Invalid input value');
+    case PG_NUMERIC_VALUE_OUT_OF_RANGE:
+      return new UnprocessableEntityError(
+        'Value is out of range for its field',
+        ErrorCode.VALUE_OUT_OF_RANGE
+      );
+    // A concurrent transaction changed the same rows; the request is safe to retry
+    case PG_SERIALIZATION_FAILURE:
+      return new ConflictError(
+        'The resource was changed by another request; retry',
+        ErrorCode.CONCURRENT_UPDATE
+      );
+    default:
+      return null;
+  }
+};
+
+/**
+ * Build the ApiErrorResponse body for an error
+ * @param error - Typed application error
+ * @returns ApiErrorResponse - Response body
+ */
+const toResponse = (error: AppError): ApiErrorResponse => ({
+  status: 'error',
+  message: error.message,
+  error: error.code,
+  statusCode: error.statusCode,
+  ...(error.details !== undefined && { details: error.details }),
+  timestamp: new Date().toISOString(),
+});
+
+/**
+ * 404 handler for unmatched routes
+ */
+export const notFoundHandler = (req: Request, res: Response): void => {
+  const error = new AppError(
+    `Route ${req.method} ${req.path} not found`,
+    404,
+    ErrorCode.ROUTE_NOT_FOUND
+  );
+  res.status(error.statusCode).json(toResponse(error));
+};
+
+/**
+ * Global error handler; must be registered after all routes
+ */
+export const errorHandler = (
+  err: unknown,
+  req: Request,
+  res: Response,
+  // Express identifies error handlers by their four-argument signature
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  next: NextFunction
+): void => {
+  let error: AppError | null = err instanceof AppError ? err : fromDatabaseError(err);
+
+  // Malformed JSON bodies from express.json()
+  if (!error && (err as { type?: string })?.type === 'entity.parse.failed') {
+    error = new ValidationError('Malformed JSON body');
+  }
+
+  if (!error) {
+    logger.error('unhandled error', { error: serializeError(err) });
+    const message =
+      config.server.nodeEnv === 'production' || !(err instanceof Error)
+        ? 'Internal server error'
+        : err.message;
+    error = new AppError(message, 500, ErrorCode.INTERNAL_ERROR);
+  }
+
+  res.status(error.statusCode).json(toResponse(error));
+};
+
+export default errorHandler;
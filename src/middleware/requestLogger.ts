@@ -0,0 +1,46 @@
+// Request correlation and access logging middleware
+
+import { randomUUID } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import logger from '../utils/logger';
+import { runWithRequestContext } from '../utils/requestContext';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Accept caller-supplied IDs only if they are short and free of control characters
+const VALID_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+/**
+ * Assign a request ID and log one line per request once the response is sent
+ *
+ * The ID is taken from an incoming X-Request-Id header when valid, otherwise generated,
+ * echoed back on the response, and made available to everything downstream through the
+ * request context so service-level log lines carry it too.
+ */
+export const requestLogger = (req: Request, res: Response, next: NextFunction): void => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+  const startedAt = process.hrtime.bigint();
+
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+
+  runWithRequestContext({ requestId }, () => {
+    res.on('finish', () => {
+      const status = res.statusCode;
+      const level = status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info';
+
+      logger.log(level, 'request completed', {
+        request_id: requestId,
+        method: req.method,
+        route: req.route ? `${req.baseUrl}${(req.route as { path: string }).path}` : undefined,
+        path: req.originalUrl.split('?')[0],
+        status,
+        latency_ms: Number(process.hrtime.bigint() - startedAt) / 1e6,
+      });
+    });
+
+    next();
+  });
+};
+
+export default requestLogger;
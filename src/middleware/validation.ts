@@ -1,3 +1,80 @@
 // Request validation middleware
-// TODO: Validate request bodies, parameters, query strings
-// TODO: Use Joi for schema validation
+// Validates request bodies, route params and query strings against Joi schemas
+
+import { NextFunction, Request, Response } from 'express';
+import { ObjectSchema, ValidationOptions } from 'joi';
+import { FieldError, ValidationError } from './errorHandler';
+
+/**
+ * Schemas for the parts of a request to validate
+ */
+export interface RequestSchemas {
+  params?: ObjectSchema;
+  query?: ObjectSchema;
+  body?: ObjectSchema;
+}
+
+type RequestPart = keyof RequestSchemas;
+
+const VALIDATION_OPTIONS: ValidationOptions = {
+  abortEarly: false,
+  convert: true,
+  stripUnknown: true,
+  errors: { wrap: { label: false } },
+};
+
+/**
+ * Validate params, query and body against their schemas
+ *
+ * Every field error across all parts is collected into a single ValidationError. On success
+ * the validated values (coerced, defaulted and stripped of unknown keys) replace the originals,
+ * so controllers read typed values from req.params, req.query and req.body.
+ *
+ * @param schemas - Schemas keyed by request part
+ * @returns Express middleware
+ */
+export const validate = (schemas: RequestSchemas) => {
+  const parts = (['params', 'query', 'body'] as RequestPart[]).filter((part) => schemas[part]);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const errors: FieldError[] = [];
+    const values: Partial<Record<RequestPart, unknown>> = {};
+
+    for (const part of parts) {
+      const result = (schemas[part] as ObjectSchema<unknown>).validate(
+        req[part] ?? {},
+        VALIDATION_OPTIONS
+      );
+
+      if (result.error) {
+        errors.push(
+          ...result.error.details.map((detail) => ({
+            field: [part, ...detail.path].join('.'),
+            message: detail.message,
+          }))
+        );
+      } else {
+        values[part] = result.value;
+      }
+    }
+
+    if (errors.length > 0) {
+      next(new ValidationError('Request validation failed', errors));
+      return;
+    }
+
+    for (const part of parts) {
+      // req.query is a getter in Express 5, so it is shadowed rather than assigned
+      Object.defineProperty(req, part, {
+        value: values[part],
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+    }
+
+    next();
+  };
+};
+
+export default validate;
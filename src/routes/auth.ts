@@ -0,0 +1,37 @@
+// Auth routes: POST /auth/register, POST /auth/login, POST /auth/refresh, POST /auth/logout
+
+import express, { Router } from 'express';
+import authController from '../controllers/authController';
+import { validate } from '../middleware/validation';
+import { loginSchema, refreshTokenSchema, registerSchema } from '../utils/validator';
+
+/**
+ * Create auth router
+ */
+const createAuthRouter = (): Router => {
+  const router = express.Router();
+
+  /**
+   * POST /auth/register - Register a new user with a password
+   */
+  router.post('/register', validate({ body: registerSchema }), authController.register);
+
+  /**
+   * POST /auth/login - Exchange credentials for an access and refresh token
+   */
+  router.post('/login', validate({ body: loginSchema }), authController.login);
+
+  /**
+   * POST /auth/refresh - Rotate a refresh token
+   */
+  router.post('/refresh', validate({ body: refreshTokenSchema }), authController.refresh);
+
+  /**
+   * POST /auth/logout - Revoke a refresh token
+   */
+  router.post('/logout', validate({ body: refreshTokenSchema }), authController.logout);
+
+  return router;
+};
+
+export default createAuthRouter();
@@ -0,0 +1,74 @@
+// Category routes: POST /categories, GET /categories (tree), GET/PUT/DELETE /categories/:id,
+// GET /categories/:id/products (products in the category subtree)
+
+import express, { Router } from 'express';
+import categoryController from '../controllers/categoryController';
+import { authorize } from '../middleware/authentication';
+import { validate } from '../middleware/validation';
+import { Permission } from '../types/index';
+import {
+  categoryProductsQuerySchema,
+  createCategorySchema,
+  idParamsSchema,
+  updateCategorySchema,
+} from '../utils/validator';
+
+/**
+ * Create category router
+ */
+const createCategoryRouter = (): Router => {
+  const router = express.Router();
+
+  /**
+   * POST /categories - Create a new category
+   */
+  router.post(
+    '/',
+    authorize(Permission.PRODUCTS_MANAGE),
+    validate({ body: createCategorySchema }),
+    categoryController.createCategory
+  );
+
+  /**
+   * GET /categories - Get the category tree
+   */
+  router.get('/', categoryController.getCategoryTree);
+
+  /**
+   * GET /categories/:id - Get category with ancestors and children
+   */
+  router.get('/:id', validate({ params: idParamsSchema }), categoryController.getCategoryById);
+
+  /**
+   * GET /categories/:id/products - Get products in the category subtree (paginated)
+   */
+  router.get(
+    '/:id/products',
+    validate({ params: idParamsSchema, query: categoryProductsQuerySchema }),
+    categoryController.getCategoryProducts
+  );
+
+  /**
+   * PUT /categories/:id - Rename or move a category
+   */
+  router.put(
+    '/:id',
+    authorize(Permission.PRODUCTS_MANAGE),
+    validate({ params: idParamsSchema, body: updateCategorySchema }),
+    categoryController.updateCategory
+  );
+
+  /**
+   * DELETE /categories/:id - Delete a category without subcategories
+   */
+  router.delete(
+    '/:id',
+    authorize(Permission.PRODUCTS_MANAGE),
+    validate({ params: idParamsSchema }),
+    categoryController.deleteCategory
+  );
+
+  return router;
+};
+
+export default createCategoryRouter();
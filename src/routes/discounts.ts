@@ -0,0 +1,75 @@
+// Discount routes: POST /discounts, GET /discounts (paginated), GET/PUT/DELETE /discounts/:id
+// Codes are redeemed through POST /orders and POST /users/:id/cart/checkout (discount_codes)
+
+import express, { Router } from 'express';
+import discountController from '../controllers/discountController';
+import { authorize } from '../middleware/authentication';
+import { validate } from '../middleware/validation';
+import { Permission } from '../types/index';
+import {
+  createDiscountSchema,
+  idParamsSchema,
+  paginationQuerySchema,
+  updateDiscountSchema,
+} from '../utils/validator';
+
+/**
+ * Create discount router
+ */
+const createDiscountRouter = (): Router => {
+  const router = express.Router();
+
+  /**
+   * POST /discounts - Create a discount code or automatic promotion
+   */
+  router.post(
+    '/',
+    authorize(Permission.DISCOUNTS_MANAGE),
+    validate({ body: createDiscountSchema }),
+    discountController.createDiscount
+  );
+
+  /**
+   * GET /discounts - Get all discounts (paginated)
+   */
+  router.get(
+    '/',
+    authorize(Permission.DISCOUNTS_MANAGE),
+    validate({ query: paginationQuerySchema }),
+    discountController.getAllDiscounts
+  );
+
+  /**
+   * GET /discounts/:id - Get discount by ID
+   */
+  router.get(
+    '/:id',
+    authorize(Permission.DISCOUNTS_MANAGE),
+    validate({ params: idParamsSchema }),
+    discountController.getDiscountById
+  );
+
+  /**
+   * PUT /discounts/:id - Update conditions, validity window, usage limits or status
+   */
+  router.put(
+    '/:id',
+    authorize(Permission.DISCOUNTS_MANAGE),
+    validate({ params: idParamsSchema, body: updateDiscountSchema }),
+    discountController.updateDiscount
+  );
+
+  /**
+   * DELETE /discounts/:id - Delete a discount
+   */
+  router.delete(
+    '/:id',
+    authorize(Permission.DISCOUNTS_MANAGE),
+    validate({ params: idParamsSchema }),
+    discountController.deleteDiscount
+  );
+
+  return router;
+};
+
+export default createDiscountRouter();
@@ -0,0 +1,59 @@
+// Exchange rate routes: POST /exchange-rates, GET /exchange-rates (filterable by currency),
+// GET /exchange-rates/current, DELETE /exchange-rates/:id
+
+import express, { Router } from 'express';
+import exchangeRateController from '../controllers/exchangeRateController';
+import { authorize } from '../middleware/authentication';
+import { validate } from '../middleware/validation';
+import { Permission } from '../types/index';
+import {
+  createExchangeRateSchema,
+  exchangeRateListQuerySchema,
+  idParamsSchema,
+} from '../utils/validator';
+
+/**
+ * Create exchange rate router
+ */
+const createExchangeRateRouter = (): Router => {
+  const router = express.Router();
+
+  /**
+   * POST /exchange-rates - Create a rate against the base currency, effective now or later
+   */
+  router.post(
+    '/',
+    authorize(Permission.EXCHANGE_RATES_MANAGE),
+    validate({ body: createExchangeRateSchema }),
+    exchangeRateController.createExchangeRate
+  );
+
+  /**
+   * GET /exchange-rates - Get all exchange rates with pagination (filterable by currency)
+   */
+  router.get(
+    '/',
+    authorize(Permission.EXCHANGE_RATES_MANAGE),
+    validate({ query: exchangeRateListQuerySchema }),
+    exchangeRateController.getAllExchangeRates
+  );
+
+  /**
+   * GET /exchange-rates/current - Get the supported currencies and their rates in effect
+   */
+  router.get('/current', exchangeRateController.getCurrentExchangeRates);
+
+  /**
+   * DELETE /exchange-rates/:id - Delete an exchange rate
+   */
+  router.delete(
+    '/:id',
+    authorize(Permission.EXCHANGE_RATES_MANAGE),
+    validate({ params: idParamsSchema }),
+    exchangeRateController.deleteExchangeRate
+  );
+
+  return router;
+};
+
+export default createExchangeRateRouter();
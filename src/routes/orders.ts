@@ -1,2 +1,107 @@
-// Order routes: POST /orders, GET /orders/:id, GET /users/:id/orders
-// TODO: Implement order endpoints with transaction support
+// Order routes: POST /orders, POST /orders/quote, GET /orders/:id, GET /users/:id/orders
+
+import express, { Router } from 'express';
+import orderController from '../controllers/orderController';
+import paymentController from '../controllers/paymentController';
+import { authorize } from '../middleware/authentication';
+import { validate } from '../middleware/validation';
+import { Permission } from '../types/index';
+import {
+  createOrderSchema,
+  createPaymentSchema,
+  currencyQuerySchema,
+  idParamsSchema,
+  orderListQuerySchema,
+  updateOrderStatusSchema,
+} from '../utils/validator';
+
+/**
+ * Create order router
+ */
+const createOrderRouter = (): Router => {
+  const router = express.Router();
+
+  /**
+   * POST /orders - Create a new order (transactional)
+   */
+  router.post(
+    '/',
+    authorize(Permission.ORDERS_CREATE_ANY, Permission.ORDERS_CREATE_OWN),
+    validate({ body: createOrderSchema }),
+    orderController.createOrder
+  );
+
+  /**
+   * POST /orders/quote - Price an order (discounts, tax, shipping) without placing it
+   */
+  router.post(
+    '/quote',
+    authorize(Permission.ORDERS_CREATE_ANY, Permission.ORDERS_CREATE_OWN),
+    validate({ body: createOrderSchema }),
+    orderController.quoteOrder
+  );
+
+  /**
+   * GET /orders - Get all orders (paginated, filterable by status, user_id, from, to)
+   */
+  router.get(
+    '/',
+    authorize(Permission.ORDERS_LIST),
+    validate({ query: orderListQuerySchema }),
+    orderController.getAllOrders
+  );
+
+  /**
+   * GET /orders/:id - Get order by ID with items and user (optionally in another currency)
+   */
+  router.get(
+    '/:id',
+    authorize(Permission.ORDERS_READ_ANY, Permission.ORDERS_READ_OWN),
+    validate({ params: idParamsSchema, query: currencyQuerySchema }),
+    orderController.getOrderById
+  );
+
+  /**
+   * PATCH /orders/:id/status - Transition order status
+   */
+  router.patch(
+    '/:id/status',
+    authorize(Permission.ORDERS_UPDATE_STATUS),
+    validate({ params: idParamsSchema, body: updateOrderStatusSchema }),
+    orderController.updateOrderStatus
+  );
+
+  /**
+   * GET /orders/:id/history - Get order status history
+   */
+  router.get(
+    '/:id/history',
+    authorize(Permission.ORDERS_READ_ANY, Permission.ORDERS_READ_OWN),
+    validate({ params: idParamsSchema }),
+    orderController.getOrderHistory
+  );
+
+  /**
+   * POST /orders/:id/payments - Pay for an order
+   */
+  router.post(
+    '/:id/payments',
+    authorize(Permission.ORDERS_PAY_ANY, Permission.ORDERS_PAY_OWN),
+    validate({ params: idParamsSchema, body: createPaymentSchema }),
+    paymentController.createPayment
+  );
+
+  /**
+   * GET /orders/:id/payments - Get all payments for an order
+   */
+  router.get(
+    '/:id/payments',
+    authorize(Permission.ORDERS_READ_ANY, Permission.ORDERS_READ_OWN),
+    validate({ params: idParamsSchema }),
+    paymentController.getOrderPayments
+  );
+
+  return router;
+};
+
+export default createOrderRouter();
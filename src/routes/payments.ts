@@ -0,0 +1,50 @@
+// Payment routes: GET /payments/:id, POST /payments/:id/refunds, GET /payments/:id/refunds
+// Order-scoped payment endpoints live in the order router (POST/GET /orders/:id/payments)
+
+import express, { Router } from 'express';
+import paymentController from '../controllers/paymentController';
+import { authorize } from '../middleware/authentication';
+import { validate } from '../middleware/validation';
+import { Permission } from '../types/index';
+import { createRefundSchema, idParamsSchema } from '../utils/validator';
+
+/**
+ * Create payment router
+ */
+const createPaymentRouter = (): Router => {
+  const router = express.Router();
+
+  /**
+   * GET /payments/:id - Get payment by ID
+   */
+  router.get(
+    '/:id',
+    authorize(Permission.PAYMENTS_READ_ANY, Permission.PAYMENTS_READ_OWN),
+    validate({ params: idParamsSchema }),
+    paymentController.getPaymentById
+  );
+
+  /**
+   * POST /payments/:id/refunds - Refund a payment (full, partial or by line item)
+   */
+  router.post(
+    '/:id/refunds',
+    authorize(Permission.PAYMENTS_REFUND),
+    validate({ params: idParamsSchema, body: createRefundSchema }),
+    paymentController.createRefund
+  );
+
+  /**
+   * GET /payments/:id/refunds - Get all refunds for a payment
+   */
+  router.get(
+    '/:id/refunds',
+    authorize(Permission.PAYMENTS_READ_ANY, Permission.PAYMENTS_READ_OWN),
+    validate({ params: idParamsSchema }),
+    paymentController.getPaymentRefunds
+  );
+
+  return router;
+};
+
+export default createPaymentRouter();
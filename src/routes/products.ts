@@ -1,8 +1,28 @@
 // Product routes: POST /products, GET /products, PATCH /products/:id
-// TODO: Implement product endpoints
+// Category links: PUT /products/:id/categories
+// Variant routes: POST/GET /products/:id/variants, GET/PUT/DELETE /products/:id/variants/:variantId
+// Inventory routes: POST /products/:id/stock/adjust, GET /products/:id/stock/movements,
+//   GET /products/stock/reconciliation, GET /products/low-stock
 
 import express, { Router } from 'express';
 import productController from '../controllers/productController';
+import { authorize } from '../middleware/authentication';
+import { validate } from '../middleware/validation';
+import { Permission } from '../types/index';
+import {
+  createProductSchema,
+  createProductVariantSchema,
+  currencyQuerySchema,
+  idParamsSchema,
+  lowStockQuerySchema,
+  productListQuerySchema,
+  setProductCategoriesSchema,
+  stockAdjustmentSchema,
+  stockMovementListQuerySchema,
+  updateProductSchema,
+  updateProductVariantSchema,
+  variantParamsSchema,
+} from '../utils/validator';
 
 /**
  * Create product router
@@ -13,27 +33,143 @@ const createProductRouter = (): Router => {
   /**
    * POST /products - Create a new product
    */
-  router.post('/', productController.createProduct);
+  router.post(
+    '/',
+    authorize(Permission.PRODUCTS_MANAGE),
+    validate({ body: createProductSchema }),
+    productController.createProduct
+  );
 
   /**
-   * GET /products - Get all products (paginated)
+   * GET /products - Search products (paginated, with facet counts)
    */
-  router.get('/', productController.getAllProducts);
+  router.get('/', validate({ query: productListQuerySchema }), productController.getAllProducts);
 
   /**
-   * GET /products/:id - Get product by ID
+   * GET /products/stock/reconciliation - Check stock levels against the inventory ledger
    */
-  router.get('/:id', productController.getProductById);
+  router.get(
+    '/stock/reconciliation',
+    authorize(Permission.PRODUCTS_MANAGE),
+    productController.reconcileInventory
+  );
+
+  /**
+   * GET /products/low-stock - Get the products at or below their reorder threshold
+   */
+  router.get(
+    '/low-stock',
+    authorize(Permission.PRODUCTS_MANAGE),
+    validate({ query: lowStockQuerySchema }),
+    productController.getLowStockProducts
+  );
+
+  /**
+   * GET /products/:id - Get product by ID (optionally priced in another currency)
+   */
+  router.get(
+    '/:id',
+    validate({ params: idParamsSchema, query: currencyQuerySchema }),
+    productController.getProductById
+  );
 
   /**
    * PUT /products/:id - Update product
    */
-  router.put('/:id', productController.updateProduct);
+  router.put(
+    '/:id',
+    authorize(Permission.PRODUCTS_MANAGE),
+    validate({ params: idParamsSchema, body: updateProductSchema }),
+    productController.updateProduct
+  );
 
   /**
    * DELETE /products/:id - Delete product
    */
-  router.delete('/:id', productController.deleteProduct);
+  router.delete(
+    '/:id',
+    authorize(Permission.PRODUCTS_MANAGE),
+    validate({ params: idParamsSchema }),
+    productController.deleteProduct
+  );
+
+  /**
+   * PUT /products/:id/categories - Replace the categories a product is listed in
+   */
+  router.put(
+    '/:id/categories',
+    authorize(Permission.PRODUCTS_MANAGE),
+    validate({ params: idParamsSchema, body: setProductCategoriesSchema }),
+    productController.setProductCategories
+  );
+
+  /**
+   * POST /products/:id/variants - Create a product variant
+   */
+  router.post(
+    '/:id/variants',
+    authorize(Permission.PRODUCTS_MANAGE),
+    validate({ params: idParamsSchema, body: createProductVariantSchema }),
+    productController.createVariant
+  );
+
+  /**
+   * GET /products/:id/variants - Get all variants of a product
+   */
+  router.get(
+    '/:id/variants',
+    validate({ params: idParamsSchema }),
+    productController.getProductVariants
+  );
+
+  /**
+   * GET /products/:id/variants/:variantId - Get a product variant
+   */
+  router.get(
+    '/:id/variants/:variantId',
+    validate({ params: variantParamsSchema }),
+    productController.getVariantById
+  );
+
+  /**
+   * PUT /products/:id/variants/:variantId - Update a product variant
+   */
+  router.put(
+    '/:id/variants/:variantId',
+    authorize(Permission.PRODUCTS_MANAGE),
+    validate({ params: variantParamsSchema, body: updateProductVariantSchema }),
+    productController.updateVariant
+  );
+
+  /**
+   * DELETE /products/:id/variants/:variantId - Delete a product variant
+   */
+  router.delete(
+    '/:id/variants/:variantId',
+    authorize(Permission.PRODUCTS_MANAGE),
+    validate({ params: variantParamsSchema }),
+    productController.deleteVariant
+  );
+
+  /**
+   * POST /products/:id/stock/adjust - Record a manual stock change (restock, adjustment, return)
+   */
+  router.post(
+    '/:id/stock/adjust',
+    authorize(Permission.PRODUCTS_MANAGE),
+    validate({ params: idParamsSchema, body: stockAdjustmentSchema }),
+    productController.adjustStock
+  );
+
+  /**
+   * GET /products/:id/stock/movements - Get the stock movements of a product and its variants
+   */
+  router.get(
+    '/:id/stock/movements',
+    authorize(Permission.PRODUCTS_MANAGE),
+    validate({ params: idParamsSchema, query: stockMovementListQuerySchema }),
+    productController.getStockMovements
+  );
 
   return router;
 };
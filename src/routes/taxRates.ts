@@ -0,0 +1,64 @@
+// Tax rate routes: POST /tax-rates, GET /tax-rates (filterable by region), PUT/DELETE /tax-rates/:id
+
+import express, { Router } from 'express';
+import taxRateController from '../controllers/taxRateController';
+import { authorize } from '../middleware/authentication';
+import { validate } from '../middleware/validation';
+import { Permission } from '../types/index';
+import {
+  createTaxRateSchema,
+  idParamsSchema,
+  taxRateListQuerySchema,
+  updateTaxRateSchema,
+} from '../utils/validator';
+
+/**
+ * Create tax rate router
+ */
+const createTaxRateRouter = (): Router => {
+  const router = express.Router();
+
+  /**
+   * POST /tax-rates - Create the default rate of a region, or a rate for a category in it
+   */
+  router.post(
+    '/',
+    authorize(Permission.TAX_RATES_MANAGE),
+    validate({ body: createTaxRateSchema }),
+    taxRateController.createTaxRate
+  );
+
+  /**
+   * GET /tax-rates - Get all tax rates (filterable by region)
+   */
+  router.get(
+    '/',
+    authorize(Permission.TAX_RATES_MANAGE),
+    validate({ query: taxRateListQuerySchema }),
+    taxRateController.getTaxRates
+  );
+
+  /**
+   * PUT /tax-rates/:id - Change a tax rate
+   */
+  router.put(
+    '/:id',
+    authorize(Permission.TAX_RATES_MANAGE),
+    validate({ params: idParamsSchema, body: updateTaxRateSchema }),
+    taxRateController.updateTaxRate
+  );
+
+  /**
+   * DELETE /tax-rates/:id - Delete a tax rate
+   */
+  router.delete(
+    '/:id',
+    authorize(Permission.TAX_RATES_MANAGE),
+    validate({ params: idParamsSchema }),
+    taxRateController.deleteTaxRate
+  );
+
+  return router;
+};
+
+export default createTaxRateRouter();
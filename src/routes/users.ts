@@ -1,5 +1,32 @@
+// User routes: POST/GET /users, GET/PUT/DELETE /users/:id, PATCH /users/:id/role
+// Order history: GET /users/:id/orders
+// Cart routes: GET /users/:id/cart, POST /users/:id/cart/items,
+//   PATCH/DELETE /users/:id/cart/items/:itemId, POST /users/:id/cart/checkout
+// Address book: POST/GET /users/:id/addresses, GET/PUT/DELETE /users/:id/addresses/:addressId
+
 import express, { Router } from 'express';
+import addressController from '../controllers/addressController';
+import cartController from '../controllers/cartController';
 import userController from '../controllers/userController';
+import orderController from '../controllers/orderController';
+import { authorize } from '../middleware/authentication';
+import { validate } from '../middleware/validation';
+import { Permission } from '../types/index';
+import {
+  addCartItemSchema,
+  addressParamsSchema,
+  cartItemParamsSchema,
+  checkoutCartSchema,
+  createAddressSchema,
+  createUserSchema,
+  idParamsSchema,
+  paginationQuerySchema,
+  userOrderListQuerySchema,
+  updateAddressSchema,
+  updateCartItemSchema,
+  updateUserRoleSchema,
+  updateUserSchema,
+} from '../utils/validator';
 
 /**
  * Create user router
@@ -10,27 +37,172 @@ const createUserRouter = (): Router => {
   /**
    * POST /users - Create a new user
    */
-  router.post('/', userController.createUser);
+  router.post(
+    '/',
+    authorize(Permission.USERS_CREATE),
+    validate({ body: createUserSchema }),
+    userController.createUser
+  );
 
   /**
    * GET /users - Get all users (paginated)
    */
-  router.get('/', userController.getAllUsers);
+  router.get(
+    '/',
+    authorize(Permission.USERS_LIST),
+    validate({ query: paginationQuerySchema }),
+    userController.getAllUsers
+  );
 
   /**
    * GET /users/:id - Get user by ID
    */
-  router.get('/:id', userController.getUserById);
+  router.get(
+    '/:id',
+    authorize(Permission.USERS_READ_ANY, Permission.USERS_READ_OWN),
+    validate({ params: idParamsSchema }),
+    userController.getUserById
+  );
+
+  /**
+   * GET /users/:id/orders - Get all orders for a user (paginated, optionally in another currency)
+   */
+  router.get(
+    '/:id/orders',
+    authorize(Permission.ORDERS_LIST, Permission.USERS_READ_OWN),
+    validate({ params: idParamsSchema, query: userOrderListQuerySchema }),
+    orderController.getUserOrders
+  );
+
+  /**
+   * GET /users/:id/cart - Get a user's cart with live prices and stock checks
+   */
+  router.get(
+    '/:id/cart',
+    authorize(Permission.CARTS_MANAGE_ANY, Permission.CARTS_MANAGE_OWN),
+    validate({ params: idParamsSchema }),
+    cartController.getCart
+  );
+
+  /**
+   * POST /users/:id/cart/items - Add an item to a user's cart
+   */
+  router.post(
+    '/:id/cart/items',
+    authorize(Permission.CARTS_MANAGE_ANY, Permission.CARTS_MANAGE_OWN),
+    validate({ params: idParamsSchema, body: addCartItemSchema }),
+    cartController.addCartItem
+  );
+
+  /**
+   * PATCH /users/:id/cart/items/:itemId - Change the quantity of a cart item
+   */
+  router.patch(
+    '/:id/cart/items/:itemId',
+    authorize(Permission.CARTS_MANAGE_ANY, Permission.CARTS_MANAGE_OWN),
+    validate({ params: cartItemParamsSchema, body: updateCartItemSchema }),
+    cartController.updateCartItem
+  );
+
+  /**
+   * DELETE /users/:id/cart/items/:itemId - Remove an item from a user's cart
+   */
+  router.delete(
+    '/:id/cart/items/:itemId',
+    authorize(Permission.CARTS_MANAGE_ANY, Permission.CARTS_MANAGE_OWN),
+    validate({ params: cartItemParamsSchema }),
+    cartController.removeCartItem
+  );
+
+  /**
+   * POST /users/:id/cart/checkout - Place an order for the contents of a user's cart
+   */
+  router.post(
+    '/:id/cart/checkout',
+    authorize(Permission.CARTS_MANAGE_ANY, Permission.CARTS_MANAGE_OWN),
+    validate({ params: idParamsSchema, body: checkoutCartSchema }),
+    cartController.checkoutCart
+  );
+
+  /**
+   * POST /users/:id/addresses - Add an address to a user's address book
+   */
+  router.post(
+    '/:id/addresses',
+    authorize(Permission.ADDRESSES_MANAGE_ANY, Permission.ADDRESSES_MANAGE_OWN),
+    validate({ params: idParamsSchema, body: createAddressSchema }),
+    addressController.createAddress
+  );
+
+  /**
+   * GET /users/:id/addresses - Get a user's address book, defaults first
+   */
+  router.get(
+    '/:id/addresses',
+    authorize(Permission.ADDRESSES_MANAGE_ANY, Permission.ADDRESSES_MANAGE_OWN),
+    validate({ params: idParamsSchema }),
+    addressController.getAddresses
+  );
+
+  /**
+   * GET /users/:id/addresses/:addressId - Get one address of a user
+   */
+  router.get(
+    '/:id/addresses/:addressId',
+    authorize(Permission.ADDRESSES_MANAGE_ANY, Permission.ADDRESSES_MANAGE_OWN),
+    validate({ params: addressParamsSchema }),
+    addressController.getAddressById
+  );
+
+  /**
+   * PUT /users/:id/addresses/:addressId - Update an address (orders keep their copy)
+   */
+  router.put(
+    '/:id/addresses/:addressId',
+    authorize(Permission.ADDRESSES_MANAGE_ANY, Permission.ADDRESSES_MANAGE_OWN),
+    validate({ params: addressParamsSchema, body: updateAddressSchema }),
+    addressController.updateAddress
+  );
+
+  /**
+   * DELETE /users/:id/addresses/:addressId - Delete an address (orders keep their copy)
+   */
+  router.delete(
+    '/:id/addresses/:addressId',
+    authorize(Permission.ADDRESSES_MANAGE_ANY, Permission.ADDRESSES_MANAGE_OWN),
+    validate({ params: addressParamsSchema }),
+    addressController.deleteAddress
+  );
 
   /**
    * PUT /users/:id - Update user
    */
-  router.put('/:id', userController.updateUser);
+  router.put(
+    '/:id',
+    authorize(Permission.USERS_UPDATE_ANY, Permission.USERS_UPDATE_OWN),
+    validate({ params: idParamsSchema, body: updateUserSchema }),
+    userController.updateUser
+  );
+
+  /**
+   * PATCH /users/:id/role - Change user role
+   */
+  router.patch(
+    '/:id/role',
+    authorize(Permission.USERS_MANAGE_ROLES),
+    validate({ params: idParamsSchema, body: updateUserRoleSchema }),
+    userController.updateUserRole
+  );
 
   /**
    * DELETE /users/:id - Delete user
    */
-  router.delete('/:id', userController.deleteUser);
+  router.delete(
+    '/:id',
+    authorize(Permission.USERS_DELETE),
+    validate({ params: idParamsSchema }),
+    userController.deleteUser
+  );
 
   return router;
 };
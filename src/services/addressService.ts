@@ -0,0 +1,299 @@
+import sql from '../config/database';
+import { NotFoundError, UnprocessableEntityError } from '../middleware/errorHandler';
+import {
+  Address,
+  AddressSnapshot,
+  CreateAddressRequest,
+  UpdateAddressRequest,
+} from '../types/index';
+import { userExists } from './userService';
+
+/**
+ * Ensure a user exists before touching their address book
+ * @param userId - User ID
+ * @throws NotFoundError if user not found
+ */
+const assertUserExists = async (userId: number): Promise<void> => {
+  if (!(await userExists(userId))) {
+    throw new NotFoundError('User', userId);
+  }
+};
+
+/**
+ * Copy the fields of an address that are stored on an order
+ * @param address - Address book entry
+ * @returns AddressSnapshot - Address without its ID, owner, label, flags and timestamps
+ */
+const toSnapshot = (address: Address): AddressSnapshot => ({
+  recipient_name: address.recipient_name,
+  line1: address.line1,
+  line2: address.line2,
+  city: address.city,
+  subdivision: address.subdivision,
+  postal_code: address.postal_code,
+  country: address.country,
+  phone: address.phone,
+});
+
+/**
+ * Get the ISO 3166 code of the region an address is in
+ * @param address - Address or snapshot
+ * @returns string - Subdivision code (US-CA) if the address has one, else the country code (DE)
+ */
+export const addressRegion = (address: AddressSnapshot): string => {
+  return address.subdivision ? `${address.country}-${address.subdivision}` : address.country;
+};
+
+/**
+ * Get a user's address book, defaults first
+ * @param userId - User ID
+ * @returns Promise<Address[]> - Addresses
+ * @throws NotFoundError if user not found
+ */
+export const getAddresses = async (userId: number): Promise<Address[]> => {
+  await assertUserExists(userId);
+
+  const result = await sql<Address>`
+    SELECT
+      id, user_id, label, recipient_name, line1, line2, city, subdivision, postal_code, country,
+      phone, is_default_shipping, is_default_billing, created_at, updated_at
+    FROM addresses
+    WHERE user_id = ${userId}
+    ORDER BY is_default_shipping DESC, is_default_billing DESC, created_at, id
+  `;
+
+  return result || [];
+};
+
+/**
+ * Get one address from a user's address book
+ * @param userId - User ID
+ * @param addressId - Address ID
+ * @returns Promise<Address | null> - Address or null if the user has no such address
+ */
+export const getAddressById = async (
+  userId: number,
+  addressId: number
+): Promise<Address | null> => {
+  const result = await sql<Address>`
+    SELECT
+      id, user_id, label, recipient_name, line1, line2, city, subdivision, postal_code, country,
+      phone, is_default_shipping, is_default_billing, created_at, updated_at
+    FROM addresses
+    WHERE id = ${addressId} AND user_id = ${userId}
+  `;
+
+  return result && result.length > 0 ? result[0] : null;
+};
+
+/**
+ * Add an address to a user's address book
+ *
+ * Marking it as the default shipping or billing address clears that flag on the user's other
+ * addresses. A user's first address becomes both defaults unless the flags say otherwise.
+ *
+ * @param userId - User ID
+ * @param addressData - Address fields and default flags
+ * @returns Promise<Address> - Created address
+ * @throws NotFoundError if user not found
+ */
+export const createAddress = async (
+  userId: number,
+  addressData: CreateAddressRequest
+): Promise<Address> => {
+  await assertUserExists(userId);
+
+  const defaultShipping = addressData.is_default_shipping ?? null;
+  const defaultBilling = addressData.is_default_billing ?? null;
+
+  const results = await sql.transaction((txn) => [
+    txn`
+      UPDATE addresses
+      SET is_default_shipping = FALSE, updated_at = NOW()
+      WHERE user_id = ${userId} AND is_default_shipping AND ${defaultShipping ?? false}::boolean
+    `,
+    txn`
+      UPDATE addresses
+      SET is_default_billing = FALSE, updated_at = NOW()
+      WHERE user_id = ${userId} AND is_default_billing AND ${defaultBilling ?? false}::boolean
+    `,
+    txn`
+      INSERT INTO addresses (
+        user_id, label, recipient_name, line1, line2, city, subdivision, postal_code, country,
+        phone, is_default_shipping, is_default_billing
+      )
+      SELECT
+        ${userId}, ${addressData.label ?? null}, ${addressData.recipient_name},
+        ${addressData.line1}, ${addressData.line2 ?? null}, ${addressData.city},
+        ${addressData.subdivision ?? null}, ${addressData.postal_code ?? null},
+        ${addressData.country}, ${addressData.phone ?? null},
+        COALESCE(${defaultShipping}::boolean, NOT EXISTS (SELECT 1 FROM addresses WHERE user_id = ${userId})),
+        COALESCE(${defaultBilling}::boolean, NOT EXISTS (SELECT 1 FROM addresses WHERE user_id = ${userId}))
+      RETURNING
+        id, user_id, label, recipient_name, line1, line2, city, subdivision, postal_code, country,
+        phone, is_default_shipping, is_default_billing, created_at, updated_at
+    `,
+  ]);
+
+  const result = results[results.length - 1];
+
+  if (!result || result.length === 0) {
+    throw new Error('Failed to create address');
+  }
+
+  return result[0] as unknown as Address;
+};
+
+/**
+ * Update an address; orders already placed keep the copy they were placed with.
+ * Marking it as a default clears that flag on the user's other addresses.
+ * @param userId - User ID
+ * @param addressId - Address ID
+ * @param updateData - Fields to change; null clears an optional field
+ * @returns Promise<Address> - Updated address
+ * @throws NotFoundError if the user has no such address
+ */
+export const updateAddress = async (
+  userId: number,
+  addressId: number,
+  updateData: UpdateAddressRequest
+): Promise<Address> => {
+  const address = await getAddressById(userId, addressId);
+  if (!address) {
+    throw new NotFoundError('Address', addressId);
+  }
+
+  // Fields that were not sent keep their current value
+  const next = <K extends keyof UpdateAddressRequest & keyof Address>(field: K) =>
+    updateData[field] !== undefined ? updateData[field] : address[field];
+
+  const results = await sql.transaction((txn) => [
+    txn`
+      UPDATE addresses
+      SET is_default_shipping = FALSE, updated_at = NOW()
+      WHERE user_id = ${userId} AND id <> ${addressId} AND is_default_shipping
+        AND ${updateData.is_default_shipping ?? false}::boolean
+    `,
+    txn`
+      UPDATE addresses
+      SET is_default_billing = FALSE, updated_at = NOW()
+      WHERE user_id = ${userId} AND id <> ${addressId} AND is_default_billing
+        AND ${updateData.is_default_billing ?? false}::boolean
+    `,
+    txn`
+      UPDATE addresses
+      SET
+        label = ${next('label')},
+        recipient_name = ${next('recipient_name')},
+        line1 = ${next('line1')},
+        line2 = ${next('line2')},
+        city = ${next('city')},
+        subdivision = ${next('subdivision')},
+        postal_code = ${next('postal_code')},
+        country = ${next('country')},
+        phone = ${next('phone')},
+        is_default_shipping = ${next('is_default_shipping')},
+        is_default_billing = ${next('is_default_billing')},
+        updated_at = NOW()
+      WHERE id = ${addressId} AND user_id = ${userId}
+      RETURNING
+        id, user_id, label, recipient_name, line1, line2, city, subdivision, postal_code, country,
+        phone, is_default_shipping, is_default_billing, created_at, updated_at
+    `,
+  ]);
+
+  const result = results[results.length - 1];
+
+  if (!result || result.length === 0) {
+    throw new NotFoundError('Address', addressId);
+  }
+
+  return result[0] as unknown as Address;
+};
+
+/**
+ * Remove an address from a user's address book; orders placed with it keep their copy
+ * @param userId - User ID
+ * @param addressId - Address ID
+ * @returns Promise<boolean> - True if the address was deleted
+ * @throws NotFoundError if the user has no such address
+ */
+export const deleteAddress = async (userId: number, addressId: number): Promise<boolean> => {
+  const result = await sql`
+    DELETE FROM addresses
+    WHERE id = ${addressId} AND user_id = ${userId}
+    RETURNING id
+  `;
+
+  if (!result || result.length === 0) {
+    throw new NotFoundError('Address', addressId);
+  }
+
+  return true;
+};
+
+/**
+ * Look up the addresses an order is placed with and copy them for the order. An address that
+ * is not given falls back to the user's default of that kind.
+ * @param userId - User placing the order
+ * @param shippingAddressId - Address to ship to (optional, else the default shipping address)
+ * @param billingAddressId - Address to bill to (optional, else the default billing address)
+ * @returns Promise<{shipping: AddressSnapshot | null, billing: AddressSnapshot | null}> - Copies
+ *   of the addresses, null where no ID was given and the user has no default
+ * @throws UnprocessableEntityError if an address is not in the user's address book
+ */
+export const snapshotOrderAddresses = async (
+  userId: number,
+  shippingAddressId?: number,
+  billingAddressId?: number
+): Promise<{ shipping: AddressSnapshot | null; billing: AddressSnapshot | null }> => {
+  const defaults =
+    shippingAddressId === undefined || billingAddressId === undefined
+      ? await sql<Address>`
+          SELECT
+            id, user_id, label, recipient_name, line1, line2, city, subdivision, postal_code,
+            country, phone, is_default_shipping, is_default_billing, created_at, updated_at
+          FROM addresses
+          WHERE user_id = ${userId} AND (is_default_shipping OR is_default_billing)
+        `
+      : [];
+
+  const snapshot = async (
+    addressId: number | undefined,
+    isDefault: (address: Address) => boolean
+  ): Promise<AddressSnapshot | null> => {
+    if (addressId === undefined) {
+      const fallback = defaults.find(isDefault);
+      return fallback ? toSnapshot(fallback) : null;
+    }
+
+    const address = await getAddressById(userId, addressId);
+    if (!address) {
+      throw new UnprocessableEntityError(
+        `User with ID ${userId} has no address with ID ${addressId}`
+      );
+    }
+
+    return toSnapshot(address);
+  };
+
+  return {
+    shipping: await snapshot(shippingAddressId, (address) => address.is_default_shipping),
+    billing: await snapshot(billingAddressId, (address) => address.is_default_billing),
+  };
+};
+
+/**
+ * Address Service - Exported as functional module
+ */
+const addressService = {
+  addressRegion,
+  getAddresses,
+  getAddressById,
+  createAddress,
+  updateAddress,
+  deleteAddress,
+  snapshotOrderAddresses,
+};
+
+export default addressService;
@@ -0,0 +1,236 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import sql from '../config/database';
+import { AuthenticationError, ConflictError } from '../middleware/errorHandler';
+import { config } from '../config/env';
+import logger from '../utils/logger';
+import {
+  AccessTokenPayload,
+  AuthResult,
+  AuthTokens,
+  LoginRequest,
+  RegisterRequest,
+  User,
+} from '../types/index';
+
+/**
+ * Hash a refresh token for storage; only the hash is ever persisted
+ * @param token - Raw refresh token
+ * @returns string - SHA-256 hex digest
+ */
+const hashToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Sign a short-lived access token for a user
+ * @param user - Token subject
+ * @returns string - Signed JWT
+ */
+const signAccessToken = (user: User): string => {
+  const payload: AccessTokenPayload = { sub: String(user.id), email: user.email, role: user.role };
+
+  return jwt.sign(payload, config.auth.jwtSecret, {
+    expiresIn: config.auth.jwtExpiry as SignOptions['expiresIn'],
+  });
+};
+
+/**
+ * Issue an access token and a new refresh token in the given family
+ * @param user - Token subject
+ * @param familyId - Refresh token family (a new family starts at login)
+ * @returns Promise<AuthTokens> - Token pair
+ */
+const issueTokens = async (user: User, familyId: string = randomUUID()): Promise<AuthTokens> => {
+  const refreshToken = randomBytes(48).toString('base64url');
+
+  await sql`
+    INSERT INTO refresh_tokens (user_id, token_hash, family_id, expires_at)
+    VALUES (
+      ${user.id},
+      ${hashToken(refreshToken)},
+      ${familyId},
+      NOW() + make_interval(days => ${config.auth.refreshTokenExpiryDays})
+    )
+  `;
+
+  return {
+    access_token: signAccessToken(user),
+    refresh_token: refreshToken,
+    token_type: 'Bearer',
+    expires_in: config.auth.jwtExpiry,
+  };
+};
+
+/**
+ * Register a new user with a password
+ * @param registerData - Registration data (name, email, password)
+ * @returns Promise<AuthResult> - Created user and token pair
+ * @throws ConflictError if email is already taken
+ */
+export const register = async (registerData: RegisterRequest): Promise<AuthResult> => {
+  // Check if email already exists
+  const existingUser = await sql`
+    SELECT id FROM users WHERE email = ${registerData.email}
+  `;
+
+  if (existingUser && existingUser.length > 0) {
+    throw new ConflictError(`Email ${registerData.email} is already in use`);
+  }
+
+  const passwordHash = await bcrypt.hash(registerData.password, config.auth.bcryptRounds);
+
+  const result = await sql<User>`
+    INSERT INTO users (name, email, password_hash)
+    VALUES (${registerData.name}, ${registerData.email}, ${passwordHash})
+    RETURNING id, name, email, role, created_at
+  `;
+
+  if (!result || result.length === 0) {
+    throw new Error('Failed to create user');
+  }
+
+  const user = result[0];
+  return { ...(await issueTokens(user)), user };
+};
+
+/**
+ * Log in with email and password
+ * @param credentials - Login credentials (email, password)
+ * @returns Promise<AuthResult> - User and token pair (starts a new refresh token family)
+ * @throws AuthenticationError if the credentials are invalid
+ */
+export const login = async (credentials: LoginRequest): Promise<AuthResult> => {
+  const result = await sql<User & { password_hash: string }>`
+    SELECT id, name, email, role, created_at, password_hash
+    FROM users
+    WHERE email = ${credentials.email}
+  `;
+
+  const row = result && result.length > 0 ? result[0] : null;
+  const valid =
+    row !== null &&
+    typeof row.password_hash === 'string' &&
+    (await bcrypt.compare(credentials.password, row.password_hash));
+
+  if (!row || !valid) {
+    throw new AuthenticationError('Invalid email or password');
+  }
+
+  const user: User = {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    role: row.role,
+    created_at: row.created_at,
+  };
+  return { ...(await issueTokens(user)), user };
+};
+
+/**
+ * Exchange a refresh token for a new token pair (rotation)
+ *
+ * The presented token is revoked and a replacement is issued in the same family. Presenting
+ * a token that was already revoked indicates theft, so the whole family is revoked.
+ *
+ * @param refreshToken - Raw refresh token
+ * @returns Promise<AuthResult> - User and new token pair
+ * @throws AuthenticationError if the token is unknown, expired or revoked
+ */
+export const refresh = async (refreshToken: string): Promise<AuthResult> => {
+  const tokenHash = hashToken(refreshToken);
+
+  // Atomically revoke the presented token so it can only be rotated once
+  const rotated = await sql`
+    UPDATE refresh_tokens
+    SET revoked_at = NOW()
+    WHERE token_hash = ${tokenHash} AND revoked_at IS NULL AND expires_at > NOW()
+    RETURNING user_id, family_id
+  `;
+
+  if (!rotated || rotated.length === 0) {
+    // Reuse of a rotated or revoked token: revoke every token in its family
+    const revoked = await sql`
+      UPDATE refresh_tokens
+      SET revoked_at = NOW()
+      WHERE revoked_at IS NULL
+        AND family_id = (
+          SELECT family_id FROM refresh_tokens
+          WHERE token_hash = ${tokenHash} AND revoked_at IS NOT NULL
+        )
+      RETURNING user_id
+    `;
+
+    if (revoked && revoked.length > 0) {
+      logger.warn('refresh token reuse detected, token family revoked', {
+        user_id: revoked[0].user_id,
+      });
+    }
+
+    throw new AuthenticationError('Invalid or expired refresh token');
+  }
+
+  const userResult = await sql<User>`
+    SELECT id, name, email, role, created_at FROM users WHERE id = ${rotated[0].user_id}
+  `;
+
+  if (!userResult || userResult.length === 0) {
+    throw new AuthenticationError('Invalid or expired refresh token');
+  }
+
+  const user = userResult[0];
+  return { ...(await issueTokens(user, rotated[0].family_id as string)), user };
+};
+
+/**
+ * Log out by revoking the refresh token's entire family
+ * @param refreshToken - Raw refresh token
+ * @returns Promise<void>
+ */
+export const logout = async (refreshToken: string): Promise<void> => {
+  await sql`
+    UPDATE refresh_tokens
+    SET revoked_at = NOW()
+    WHERE revoked_at IS NULL
+      AND family_id = (SELECT family_id FROM refresh_tokens WHERE token_hash = ${hashToken(refreshToken)})
+  `;
+};
+
+/**
+ * Verify an access token and load its user
+ * @param accessToken - Signed JWT
+ * @returns Promise<User> - Token subject
+ * @throws AuthenticationError if the token is invalid, expired or its user no longer exists
+ */
+export const verifyAccessToken = async (accessToken: string): Promise<User> => {
+  let payload: AccessTokenPayload;
+  try {
+    payload = jwt.verify(accessToken, config.auth.jwtSecret) as AccessTokenPayload;
+  } catch {
+    throw new AuthenticationError('Invalid or expired access token');
+  }
+
+  const result = await sql<User>`
+    SELECT id, name, email, role, created_at FROM users WHERE id = ${Number(payload.sub)}
+  `;
+
+  if (!result || result.length === 0) {
+    throw new AuthenticationError('Invalid or expired access token');
+  }
+
+  return result[0];
+};
+
+/**
+ * Auth Service - Exported as functional module
+ */
+const authService = {
+  register,
+  login,
+  refresh,
+  logout,
+  verifyAccessToken,
+};
+
+export default authService;
@@ -0,0 +1,276 @@
+import { MAX_LINE_QUANTITY } from '../config/constants';
+import sql from '../config/database';
+import { ErrorCode, NotFoundError, UnprocessableEntityError } from '../middleware/errorHandler';
+import {
+  AddCartItemRequest,
+  Cart,
+  CartCheckoutResult,
+  CartLine,
+  CheckoutCartRequest,
+  UpdateCartItemRequest,
+} from '../types/index';
+import { convertCents, fromCents, toCents } from '../utils/helpers';
+import logger from '../utils/logger';
+import { getBaseCurrency, getRates } from './currencyService';
+import { createOrder } from './orderService';
+import { userExists } from './userService';
+
+/**
+ * Ensure a user exists before touching their cart
+ * @param userId - User ID
+ * @throws NotFoundError if user not found
+ */
+const assertUserExists = async (userId: number): Promise<void> => {
+  if (!(await userExists(userId))) {
+    throw new NotFoundError('User', userId);
+  }
+};
+
+/**
+ * Get a user's cart, priced at current prices and checked against the stock available to sell.
+ * Lines are priced in their product's currency and the subtotal in the base currency.
+ * @param userId - User ID
+ * @returns Promise<Cart> - Lines in the order they were added, subtotal and overall flags
+ * @throws NotFoundError if user not found
+ */
+export const getCart = async (userId: number): Promise<Cart> => {
+  await assertUserExists(userId);
+
+  const result = await sql<Omit<CartLine, 'price_changed' | 'in_stock'>>`
+    SELECT
+      ci.id, ci.user_id, ci.product_id, ci.variant_id, ci.quantity, ci.added_price,
+      ci.created_at, ci.updated_at, p.name, v.sku, p.currency,
+      COALESCE(v.price, p.price) AS price,
+      COALESCE(v.price, p.price) * ci.quantity AS line_total,
+      CASE WHEN ci.variant_id IS NULL THEN p.stock - p.reserved ELSE v.stock - v.reserved END AS available
+    FROM cart_items ci
+    JOIN products p ON p.id = ci.product_id
+    LEFT JOIN product_variants v ON v.id = ci.variant_id
+    WHERE ci.user_id = ${userId}
+    ORDER BY ci.created_at, ci.id
+  `;
+
+  const items: CartLine[] = (result || []).map((row) => ({
+    ...row,
+    price_changed: toCents(row.price) !== toCents(row.added_price),
+    in_stock: Number(row.available) >= Number(row.quantity),
+  }));
+
+  const rates = await getRates(items.map((item) => item.currency));
+  const subtotalCents = items.reduce(
+    (sum, item) =>
+      sum + convertCents(toCents(item.line_total), rates.get(item.currency) as string, 1),
+    0
+  );
+
+  return {
+    user_id: userId,
+    items,
+    currency: getBaseCurrency(),
+    subtotal: fromCents(subtotalCents),
+    price_changed: items.some((item) => item.price_changed),
+    in_stock: items.every((item) => item.in_stock),
+  };
+};
+
+/**
+ * Add an item to a user's cart at its current price
+ *
+ * Adding a product (or variant) that is already in the cart increases the line's quantity and
+ * moves its remembered price to the current one, as long as the line stays within
+ * MAX_LINE_QUANTITY units. Stock is not held; it is checked on read and at checkout.
+ *
+ * @param userId - User ID
+ * @param itemData - Product, optional variant and quantity
+ * @returns Promise<Cart> - Updated cart
+ * @throws NotFoundError if user not found
+ * @throws UnprocessableEntityError if the product (or the product's variant) does not exist or
+ *   the line would exceed MAX_LINE_QUANTITY units
+ */
+export const addCartItem = async (userId: number, itemData: AddCartItemRequest): Promise<Cart> => {
+  await assertUserExists(userId);
+
+  const variantId = itemData.variant_id ?? null;
+
+  const result = await sql`
+    INSERT INTO cart_items (user_id, product_id, variant_id, quantity, added_price)
+    SELECT ${userId}, p.id, v.id, ${itemData.quantity}, COALESCE(v.price, p.price)
+    FROM products p
+    LEFT JOIN product_variants v ON v.id = ${variantId}::int AND v.product_id = p.id
+    WHERE p.id = ${itemData.product_id} AND (${variantId}::int IS NULL OR v.id IS NOT NULL)
+    ON CONFLICT (user_id, product_id, (COALESCE(variant_id, 0))) DO UPDATE
+    SET
+      quantity = cart_items.quantity + EXCLUDED.quantity,
+      added_price = EXCLUDED.added_price,
+      updated_at = NOW()
+    WHERE cart_items.quantity + EXCLUDED.quantity <= ${MAX_LINE_QUANTITY}
+    RETURNING id
+  `;
+
+  if (!result || result.length === 0) {
+    // The conflicting line exists but would go over the limit
+    const existing = await sql<{ quantity: number }>`
+      SELECT quantity FROM cart_items
+      WHERE user_id = ${userId} AND product_id = ${itemData.product_id}
+        AND COALESCE(variant_id, 0) = COALESCE(${variantId}::int, 0)
+    `;
+
+    if (existing.length > 0) {
+      throw new UnprocessableEntityError(
+        `Cart already holds ${existing[0].quantity} of this item; a line can hold at most ${MAX_LINE_QUANTITY}`,
+        ErrorCode.QUANTITY_LIMIT_EXCEEDED,
+        { quantity: Number(existing[0].quantity), max_quantity: MAX_LINE_QUANTITY }
+      );
+    }
+
+    throw new UnprocessableEntityError(
+      variantId === null
+        ? `Product with ID ${itemData.product_id} does not exist`
+        : `Product with ID ${itemData.product_id} has no variant with ID ${variantId}`
+    );
+  }
+
+  return getCart(userId);
+};
+
+/**
+ * Change the quantity of a cart line; its remembered price is kept
+ * @param userId - User ID
+ * @param itemId - Cart item ID
+ * @param updateData - New quantity
+ * @returns Promise<Cart> - Updated cart
+ * @throws NotFoundError if the user's cart has no such item
+ */
+export const updateCartItem = async (
+  userId: number,
+  itemId: number,
+  updateData: UpdateCartItemRequest
+): Promise<Cart> => {
+  const result = await sql`
+    UPDATE cart_items
+    SET quantity = ${updateData.quantity}, updated_at = NOW()
+    WHERE id = ${itemId} AND user_id = ${userId}
+    RETURNING id
+  `;
+
+  if (!result || result.length === 0) {
+    throw new NotFoundError('Cart item', itemId);
+  }
+
+  return getCart(userId);
+};
+
+/**
+ * Remove a line from a user's cart
+ * @param userId - User ID
+ * @param itemId - Cart item ID
+ * @returns Promise<Cart> - Updated cart
+ * @throws NotFoundError if the user's cart has no such item
+ */
+export const removeCartItem = async (userId: number, itemId: number): Promise<Cart> => {
+  const result = await sql`
+    DELETE FROM cart_items
+    WHERE id = ${itemId} AND user_id = ${userId}
+    RETURNING id
+  `;
+
+  if (!result || result.length === 0) {
+    throw new NotFoundError('Cart item', itemId);
+  }
+
+  return getCart(userId);
+};
+
+/**
+ * Place an order for everything in a user's cart
+ *
+ * The order goes through the regular order service, so it is priced at current prices,
+ * gets its promotions, discount codes, tax and shipping applied and reserves its stock. Lines whose price
+ * changed since they were added are reported back.
+ * The checked-out lines are then removed. Items added meanwhile, and lines whose quantity changed
+ * while the order was being placed, stay in the cart.
+ *
+ * @param userId - User ID
+ * @param checkoutData - Discount codes, region, currency and addresses to place the order with
+ * @returns Promise<CartCheckoutResult> - Created order and the price changes it includes
+ * @throws NotFoundError if user not found
+ * @throws UnprocessableEntityError if the cart is empty, a line holds more than MAX_LINE_QUANTITY
+ *   units, an address does not exist, the currency is not supported or a discount code does not
+ *   apply
+ * @throws InsufficientStockError if any item is short on stock
+ */
+export const checkoutCart = async (
+  userId: number,
+  checkoutData: CheckoutCartRequest = {}
+): Promise<CartCheckoutResult> => {
+  const cart = await getCart(userId);
+
+  if (cart.items.length === 0) {
+    throw new UnprocessableEntityError('Cart is empty', ErrorCode.CART_EMPTY);
+  }
+
+  // Orders placed directly are capped by the request schema; the cart skips it
+  const oversized = cart.items.filter((item) => item.quantity > MAX_LINE_QUANTITY);
+  if (oversized.length > 0) {
+    throw new UnprocessableEntityError(
+      `A cart line can hold at most ${MAX_LINE_QUANTITY} units`,
+      ErrorCode.QUANTITY_LIMIT_EXCEEDED,
+      { cart_item_ids: oversized.map((item) => item.id), max_quantity: MAX_LINE_QUANTITY }
+    );
+  }
+
+  const order = await createOrder({
+    user_id: userId,
+    items: cart.items.map((item) => ({
+      product_id: item.product_id,
+      ...(item.variant_id !== null && { variant_id: item.variant_id }),
+      quantity: item.quantity,
+    })),
+    discount_codes: checkoutData.discount_codes,
+    region: checkoutData.region,
+    currency: checkoutData.currency,
+    shipping_address_id: checkoutData.shipping_address_id,
+    billing_address_id: checkoutData.billing_address_id,
+  });
+
+  // Lines changed since the cart was read were not ordered as they are now, so they are kept
+  await sql`
+    DELETE FROM cart_items ci
+    USING unnest(
+      ${cart.items.map((item) => item.id)}::int[],
+      ${cart.items.map((item) => item.quantity)}::int[]
+    ) AS r(id, quantity)
+    WHERE ci.user_id = ${userId} AND ci.id = r.id AND ci.quantity = r.quantity
+  `;
+
+  const priceChanges = cart.items
+    .filter((item) => item.price_changed)
+    .map((item) => ({
+      product_id: item.product_id,
+      variant_id: item.variant_id,
+      added_price: item.added_price,
+      price: item.price,
+    }));
+
+  logger.info('cart checked out', {
+    user_id: userId,
+    order_id: order.id,
+    items: cart.items.length,
+    price_changes: priceChanges.length,
+  });
+
+  return { order, price_changes: priceChanges };
+};
+
+/**
+ * Cart Service - Exported as functional module
+ */
+const cartService = {
+  getCart,
+  addCartItem,
+  updateCartItem,
+  removeCartItem,
+  checkoutCart,
+};
+
+export default cartService;
@@ -0,0 +1,267 @@
+import sql from '../config/database';
+import { ConflictError, NotFoundError, UnprocessableEntityError } from '../middleware/errorHandler';
+import {
+  Category,
+  CategoryTree,
+  CategoryWithRelations,
+  CreateCategoryRequest,
+  UpdateCategoryRequest,
+} from '../types/index';
+
+/**
+ * Ensure no sibling under the same parent already uses a name (case-insensitive)
+ * @param name - Candidate name
+ * @param parentId - Parent category ID, or null for top level
+ * @param excludeId - Category being updated, if any
+ * @throws ConflictError if a sibling has the same name
+ */
+const assertNameAvailable = async (
+  name: string,
+  parentId: number | null,
+  excludeId: number | null = null
+): Promise<void> => {
+  const existing = await sql`
+    SELECT id FROM categories
+    WHERE COALESCE(parent_id, 0) = COALESCE(${parentId}::int, 0)
+      AND lower(name) = lower(${name})
+      AND (${excludeId}::int IS NULL OR id <> ${excludeId})
+  `;
+
+  if (existing && existing.length > 0) {
+    throw new ConflictError(`Category ${name} already exists at this level`);
+  }
+};
+
+/**
+ * Ensure a parent category exists
+ * @param parentId - Parent category ID
+ * @throws UnprocessableEntityError if the parent does not exist
+ */
+const assertParentExists = async (parentId: number): Promise<void> => {
+  const parent = await sql`
+    SELECT 1 FROM categories WHERE id = ${parentId}
+  `;
+
+  if (!parent || parent.length === 0) {
+    throw new UnprocessableEntityError(`Category with ID ${parentId} does not exist`);
+  }
+};
+
+/**
+ * Get the IDs of a category and all of its descendants
+ * @param id - Category ID
+ * @returns Promise<number[]> - Subtree IDs (empty if the category does not exist)
+ */
+export const getCategorySubtreeIds = async (id: number): Promise<number[]> => {
+  const result = await sql`
+    WITH RECURSIVE subtree AS (
+      SELECT id FROM categories WHERE id = ${id}
+      UNION ALL
+      SELECT c.id FROM categories c JOIN subtree s ON c.parent_id = s.id
+    )
+    SELECT id FROM subtree
+  `;
+
+  return (result || []).map((row) => Number(row.id));
+};
+
+/**
+ * Create a new category
+ * @param categoryData - Name and optional parent
+ * @returns Promise<Category> - Created category
+ * @throws UnprocessableEntityError if the parent does not exist
+ * @throws ConflictError if a sibling already has the name
+ */
+export const createCategory = async (categoryData: CreateCategoryRequest): Promise<Category> => {
+  const parentId = categoryData.parent_id ?? null;
+
+  if (parentId !== null) {
+    await assertParentExists(parentId);
+  }
+  await assertNameAvailable(categoryData.name, parentId);
+
+  const result = await sql<Category>`
+    INSERT INTO categories (name, parent_id)
+    VALUES (${categoryData.name}, ${parentId})
+    RETURNING id, name, parent_id, created_at
+  `;
+
+  if (!result || result.length === 0) {
+    throw new Error('Failed to create category');
+  }
+
+  return result[0];
+};
+
+/**
+ * Get the whole category tree
+ * @returns Promise<CategoryTree[]> - Top-level categories with nested children, sorted by name
+ */
+export const getCategoryTree = async (): Promise<CategoryTree[]> => {
+  const result = await sql<Category>`
+    SELECT id, name, parent_id, created_at
+    FROM categories
+    ORDER BY lower(name), id
+  `;
+
+  const nodes = (result || []).map((category): CategoryTree => ({ ...category, children: [] }));
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+
+  const roots: CategoryTree[] = [];
+  for (const node of nodes) {
+    const parent = node.parent_id === null ? undefined : nodesById.get(node.parent_id);
+    (parent ? parent.children : roots).push(node);
+  }
+
+  return roots;
+};
+
+/**
+ * Get a category by ID
+ * @param id - Category ID
+ * @returns Promise<Category | null> - Category or null if not found
+ */
+export const getCategoryById = async (id: number): Promise<Category | null> => {
+  const result = await sql<Category>`
+    SELECT id, name, parent_id, created_at
+    FROM categories
+    WHERE id = ${id}
+  `;
+
+  return result && result.length > 0 ? result[0] : null;
+};
+
+/**
+ * Get a category with its ancestors (root first) and direct children
+ * @param id - Category ID
+ * @returns Promise<CategoryWithRelations | null> - Category or null if not found
+ */
+export const getCategoryWithRelations = async (
+  id: number
+): Promise<CategoryWithRelations | null> => {
+  const category = await getCategoryById(id);
+  if (!category) {
+    return null;
+  }
+
+  const [ancestors, children] = await Promise.all([
+    sql<Category>`
+      WITH RECURSIVE ancestors AS (
+        SELECT id, name, parent_id, created_at, 0 AS depth
+        FROM categories WHERE id = ${category.parent_id}::int
+        UNION ALL
+        SELECT c.id, c.name, c.parent_id, c.created_at, a.depth + 1
+        FROM categories c JOIN ancestors a ON c.id = a.parent_id
+      )
+      SELECT id, name, parent_id, created_at FROM ancestors ORDER BY depth DESC
+    `,
+    sql<Category>`
+      SELECT id, name, parent_id, created_at
+      FROM categories
+      WHERE parent_id = ${id}
+      ORDER BY lower(name), id
+    `,
+  ]);
+
+  return {
+    ...category,
+    ancestors: ancestors || [],
+    children: children || [],
+  };
+};
+
+/**
+ * Rename a category and/or move it under another parent
+ * @param id - Category ID
+ * @param updateData - New name and/or parent (null moves it to the top level)
+ * @returns Promise<Category> - Updated category
+ * @throws NotFoundError if category not found
+ * @throws UnprocessableEntityError if the parent does not exist or lies inside the category
+ * @throws ConflictError if a sibling at the destination already has the name
+ */
+export const updateCategory = async (
+  id: number,
+  updateData: UpdateCategoryRequest
+): Promise<Category> => {
+  const category = await getCategoryById(id);
+  if (!category) {
+    throw new NotFoundError('Category', id);
+  }
+
+  const name = updateData.name ?? category.name;
+  const parentId = updateData.parent_id !== undefined ? updateData.parent_id : category.parent_id;
+
+  if (parentId !== null && parentId !== category.parent_id) {
+    await assertParentExists(parentId);
+
+    // Moving a category under its own subtree would detach that subtree into a cycle
+    if ((await getCategorySubtreeIds(id)).includes(parentId)) {
+      throw new UnprocessableEntityError(
+        'A category cannot be moved under itself or one of its descendants'
+      );
+    }
+  }
+
+  if (name !== category.name || parentId !== category.parent_id) {
+    await assertNameAvailable(name, parentId, id);
+  }
+
+  const result = await sql<Category>`
+    UPDATE categories
+    SET name = ${name}, parent_id = ${parentId}
+    WHERE id = ${id}
+    RETURNING id, name, parent_id, created_at
+  `;
+
+  if (!result || result.length === 0) {
+    throw new Error('Failed to update category');
+  }
+
+  return result[0];
+};
+
+/**
+ * Delete a category; its product links are removed with it
+ * @param id - Category ID
+ * @returns Promise<boolean> - True if the category was deleted
+ * @throws NotFoundError if category not found
+ * @throws ConflictError if the category still has subcategories
+ */
+export const deleteCategory = async (id: number): Promise<boolean> => {
+  const category = await getCategoryById(id);
+  if (!category) {
+    throw new NotFoundError('Category', id);
+  }
+
+  const children = await sql`
+    SELECT 1 FROM categories WHERE parent_id = ${id} LIMIT 1
+  `;
+
+  if (children && children.length > 0) {
+    throw new ConflictError(
+      `Category ${category.name} has subcategories; move or delete them first`
+    );
+  }
+
+  await sql`
+    DELETE FROM categories
+    WHERE id = ${id}
+  `;
+
+  return true;
+};
+
+/**
+ * Category Service - Exported as functional module
+ */
+const categoryService = {
+  createCategory,
+  getCategoryTree,
+  getCategoryById,
+  getCategoryWithRelations,
+  getCategorySubtreeIds,
+  updateCategory,
+  deleteCategory,
+};
+
+export default categoryService;
@@ -0,0 +1,348 @@
+// Currencies: exchange rates against the base currency, each effective from a point in time
+// The base currency (BASE_CURRENCY) always has rate 1 and any other currency is supported once
+// it has a rate in effect
+
+import sql from '../config/database';
+import { config } from '../config/env';
+import {
+  ConflictError,
+  ErrorCode,
+  NotFoundError,
+  UnprocessableEntityError,
+} from '../middleware/errorHandler';
+import {
+  CreateExchangeRateRequest,
+  CurrencyConversion,
+  ExchangeRate,
+  ExchangeRateFilters,
+  Order,
+  PaginationQuery,
+  Product,
+} from '../types/index';
+import {
+  convertCents,
+  divideRounded,
+  fromCents,
+  fromScaled,
+  pageWindow,
+  RATE_SCALE,
+  takePage,
+  toCents,
+  toScaled,
+} from '../utils/helpers';
+
+// Rate of the base currency, at the scale rates are stored with
+const BASE_RATE = fromScaled(10n ** BigInt(RATE_SCALE), RATE_SCALE);
+
+/**
+ * Get the base currency exchange rates are quoted against
+ * @returns string - ISO 4217 code
+ */
+export const getBaseCurrency = (): string => config.currency.base;
+
+/**
+ * Get the rate of each currency in effect at a point in time
+ * @param currencies - ISO 4217 codes (duplicates allowed)
+ * @param at - Point in time (default: now)
+ * @returns Promise<Map<string, string>> - Exact decimal rate of each currency, in units per unit
+ *   of the base currency
+ * @throws UnprocessableEntityError if a currency has no rate in effect
+ */
+export const getRates = async (
+  currencies: string[],
+  at: Date = new Date()
+): Promise<Map<string, string>> => {
+  const base = getBaseCurrency();
+  const others = [...new Set(currencies)].filter((currency) => currency !== base);
+  const rates = new Map<string, string>([[base, BASE_RATE]]);
+
+  if (others.length === 0) {
+    return rates;
+  }
+
+  const result = await sql`
+    SELECT DISTINCT ON (currency) currency, rate
+    FROM exchange_rates
+    WHERE currency = ANY(${others}::text[]) AND effective_from <= ${at}
+    ORDER BY currency, effective_from DESC
+  `;
+
+  for (const row of result || []) {
+    rates.set(row.currency as string, String(row.rate));
+  }
+
+  const unsupported = others.filter((currency) => !rates.has(currency));
+  if (unsupported.length > 0) {
+    throw new UnprocessableEntityError(
+      `No exchange rate in effect for ${unsupported.join(', ')}`,
+      ErrorCode.UNSUPPORTED_CURRENCY,
+      { currencies: unsupported }
+    );
+  }
+
+  return rates;
+};
+
+/**
+ * Ensure a currency can be used now
+ * @param currency - ISO 4217 code
+ * @throws UnprocessableEntityError if the currency has no rate in effect
+ */
+export const assertSupportedCurrency = async (currency: string): Promise<void> => {
+  await getRates([currency]);
+};
+
+/**
+ * Divide two rates into the rate between their currencies
+ * @param fromRate - Units of the source currency per unit of the base currency
+ * @param toRate - Units of the target currency per unit of the base currency
+ * @returns string - Exact decimal units of the target currency per unit of the source currency
+ */
+const crossRate = (fromRate: number | string, toRate: number | string): string => {
+  const scale = 10n ** BigInt(RATE_SCALE);
+  const rate = divideRounded(toScaled(toRate, RATE_SCALE) * scale, toScaled(fromRate, RATE_SCALE));
+
+  return fromScaled(rate, RATE_SCALE);
+};
+
+/**
+ * Convert an amount between currencies
+ * @param amount - Amount in major units of the source currency
+ * @param fromRate - Rate of the source currency
+ * @param toRate - Rate of the target currency
+ * @returns number - Amount in major units of the target currency, rounded to 2 decimals
+ */
+const convertAmount = (
+  amount: number | string,
+  fromRate: number | string,
+  toRate: number | string
+): number => {
+  return fromCents(convertCents(toCents(amount), fromRate, toRate));
+};
+
+/**
+ * Show products in another currency at the current exchange rates
+ * @param products - Products with prices in their own currency
+ * @param currency - Currency to show the prices in
+ * @returns Promise<T[]> - Products priced in currency; converted ones carry converted_from
+ * @throws UnprocessableEntityError if a currency has no rate in effect
+ */
+export const convertProducts = async <T extends Product>(
+  products: T[],
+  currency: string
+): Promise<T[]> => {
+  const rates = await getRates([currency, ...products.map((product) => product.currency)]);
+  const toRate = rates.get(currency) as string;
+
+  return products.map((product) => {
+    if (product.currency === currency) {
+      return product;
+    }
+
+    const fromRate = rates.get(product.currency) as string;
+    const convertedFrom: CurrencyConversion = {
+      currency: product.currency,
+      rate: crossRate(fromRate, toRate),
+    };
+
+    return {
+      ...product,
+      price: convertAmount(product.price, fromRate, toRate),
+      currency,
+      converted_from: convertedFrom,
+    };
+  });
+};
+
+/**
+ * Show orders in another currency. Amounts are converted back to the base currency at the rate
+ * recorded on the order and on at the current rate of currency; each amount is rounded on its
+ * own, so converted totals may differ from the sum of their parts by a cent.
+ * @param orders - Orders with amounts in their own currency
+ * @param currency - Currency to show the amounts in
+ * @returns Promise<T[]> - Orders in currency; converted ones carry converted_from
+ * @throws UnprocessableEntityError if currency has no rate in effect
+ */
+export const convertOrders = async <
+  T extends Order & {
+    discounts?: { amount: number }[];
+    items?: { price: number }[];
+  },
+>(
+  orders: T[],
+  currency: string
+): Promise<T[]> => {
+  const rates = await getRates([currency]);
+  const toRate = rates.get(currency) as string;
+
+  return orders.map((order) => {
+    if (order.currency === currency) {
+      return order;
+    }
+
+    const fromRate = order.exchange_rate;
+    const convert = (amount: number) => convertAmount(amount, fromRate, toRate);
+
+    return {
+      ...order,
+      subtotal: convert(order.subtotal),
+      discount_total: convert(order.discount_total),
+      tax_total: convert(order.tax_total),
+      shipping_total: convert(order.shipping_total),
+      total_amount: convert(order.total_amount),
+      currency,
+      exchange_rate: toRate,
+      converted_from: { currency: order.currency, rate: crossRate(fromRate, toRate) },
+      ...(order.discounts
+        ? {
+            discounts: order.discounts.map((discount) => ({
+              ...discount,
+              amount: convert(discount.amount),
+            })),
+          }
+        : {}),
+      ...(order.items
+        ? { items: order.items.map((item) => ({ ...item, price: convert(item.price) })) }
+        : {}),
+    };
+  });
+};
+
+/**
+ * Create an exchange rate; it takes over from the currency's previous rate at effective_from
+ * @param exchangeRateData - Currency, rate and optional effective_from (default: now)
+ * @returns Promise<ExchangeRate> - Created exchange rate
+ * @throws UnprocessableEntityError if currency is the base currency
+ * @throws ConflictError if the currency already has a rate taking effect at that time
+ */
+export const createExchangeRate = async (
+  exchangeRateData: CreateExchangeRateRequest
+): Promise<ExchangeRate> => {
+  const base = getBaseCurrency();
+
+  if (exchangeRateData.currency === base) {
+    throw new UnprocessableEntityError(
+      `${base} is the base currency; its rate is always 1`,
+      ErrorCode.UNSUPPORTED_CURRENCY
+    );
+  }
+
+  const effectiveFrom = exchangeRateData.effective_from ?? new Date();
+
+  const existing = await sql`
+    SELECT id FROM exchange_rates
+    WHERE currency = ${exchangeRateData.currency} AND effective_from = ${effectiveFrom}
+  `;
+
+  if (existing && existing.length > 0) {
+    throw new ConflictError(
+      `${exchangeRateData.currency} already has a rate taking effect at ${effectiveFrom.toISOString()}`
+    );
+  }
+
+  const result = await sql<ExchangeRate>`
+    INSERT INTO exchange_rates (currency, rate, effective_from)
+    VALUES (${exchangeRateData.currency}, ${exchangeRateData.rate}, ${effectiveFrom})
+    RETURNING id, currency, rate, effective_from, created_at
+  `;
+
+  if (!result || result.length === 0) {
+    throw new Error('Failed to create exchange rate');
+  }
+
+  return result[0];
+};
+
+/**
+ * Get all exchange rates, including past and scheduled ones, newest first
+ * @param pagination - Page or cursor, page size and whether to count the total
+ * @param filters - Optional currency
+ * @returns Promise<{exchange_rates: ExchangeRate[], total: number | null, next_cursor: string | null}> -
+ *   Exchange rates, total count (null unless requested) and the cursor of the next page
+ */
+export const getAllExchangeRates = async (
+  pagination: PaginationQuery,
+  filters: ExchangeRateFilters = {}
+): Promise<{
+  exchange_rates: ExchangeRate[];
+  total: number | null;
+  next_cursor: string | null;
+}> => {
+  const { offset, fetch, afterCreatedAt, afterId } = pageWindow(pagination);
+  const currency = filters.currency ?? null;
+
+  let total: number | null = null;
+  if (pagination.include_total) {
+    const countResult = await sql`
+      SELECT COUNT(*) as count FROM exchange_rates
+      WHERE (${currency}::text IS NULL OR currency = ${currency})
+    `;
+
+    total = countResult && countResult[0] ? Number(countResult[0].count) : 0;
+  }
+
+  const exchangeRates = await sql<ExchangeRate>`
+    SELECT id, currency, rate, effective_from, created_at
+    FROM exchange_rates
+    WHERE (${currency}::text IS NULL OR currency = ${currency})
+      AND (${afterCreatedAt}::timestamp IS NULL OR (created_at, id) < (${afterCreatedAt}, ${afterId}))
+    ORDER BY created_at DESC, id DESC
+    LIMIT ${fetch} OFFSET ${offset}
+  `;
+
+  const page = takePage(exchangeRates || [], pagination.limit);
+
+  return { exchange_rates: page.rows, total, next_cursor: page.next_cursor };
+};
+
+/**
+ * Get the rate in effect now for every supported currency
+ * @returns Promise<ExchangeRate[]> - One rate per currency, by currency
+ */
+export const getCurrentExchangeRates = async (): Promise<ExchangeRate[]> => {
+  const result = await sql<ExchangeRate>`
+    SELECT DISTINCT ON (currency) id, currency, rate, effective_from, created_at
+    FROM exchange_rates
+    WHERE effective_from <= NOW()
+    ORDER BY currency, effective_from DESC
+  `;
+
+  return result || [];
+};
+
+/**
+ * Delete an exchange rate; orders already placed keep the rate they were converted at
+ * @param id - Exchange rate ID
+ * @returns Promise<boolean> - True if the exchange rate was deleted
+ * @throws NotFoundError if exchange rate not found
+ */
+export const deleteExchangeRate = async (id: number): Promise<boolean> => {
+  const result = await sql`
+    DELETE FROM exchange_rates
+    WHERE id = ${id}
+    RETURNING id
+  `;
+
+  if (!result || result.length === 0) {
+    throw new NotFoundError('Exchange rate', id);
+  }
+
+  return true;
+};
+
+/**
+ * Currency Service - Exported as functional module
+ */
+const currencyService = {
+  getBaseCurrency,
+  getRates,
+  assertSupportedCurrency,
+  convertProducts,
+  convertOrders,
+  createExchangeRate,
+  getAllExchangeRates,
+  getCurrentExchangeRates,
+  deleteExchangeRate,
+};
+
+export default currencyService;
@@ -0,0 +1,456 @@
+import sql from '../config/database';
+import {
+  ConflictError,
+  ErrorCode,
+  NotFoundError,
+  PG_CHECK_VIOLATION,
+  UnprocessableEntityError,
+} from '../middleware/errorHandler';
+import {
+  AppliedDiscount,
+  CreateDiscountRequest,
+  Discount,
+  DiscountType,
+  PaginationQuery,
+  UpdateDiscountRequest,
+} from '../types/index';
+import {
+  convertCents,
+  fromCents,
+  pageWindow,
+  percentOfCents,
+  takePage,
+  toCents,
+} from '../utils/helpers';
+
+// Order line priced at the current product or variant price, in the order currency
+export interface PricedLine {
+  product_id: number;
+  quantity: number;
+  priceCents: number;
+}
+
+// Candidate discount with the ordering user's redemption count
+interface DiscountCandidate extends Discount {
+  user_uses: number;
+}
+
+/**
+ * Ensure no other discount uses a code (case-insensitive)
+ * @param code - Candidate code
+ * @throws ConflictError if the code is taken
+ */
+const assertCodeAvailable = async (code: string): Promise<void> => {
+  const existing = await sql`
+    SELECT id FROM discounts WHERE upper(code) = upper(${code})
+  `;
+
+  if (existing && existing.length > 0) {
+    throw new ConflictError(`Discount code ${code} is already in use`);
+  }
+};
+
+/**
+ * Create a discount code or automatic promotion
+ * @param discountData - Rule, conditions, validity window and usage limits
+ * @returns Promise<Discount> - Created discount
+ * @throws ConflictError if the code is already in use
+ * @throws UnprocessableEntityError if the product does not exist
+ */
+export const createDiscount = async (discountData: CreateDiscountRequest): Promise<Discount> => {
+  const code = discountData.code ?? null;
+  const productId = discountData.product_id ?? null;
+
+  if (code !== null) {
+    await assertCodeAvailable(code);
+  }
+
+  if (productId !== null) {
+    const product = await sql`SELECT 1 FROM products WHERE id = ${productId}`;
+
+    if (!product || product.length === 0) {
+      throw new UnprocessableEntityError(`Product with ID ${productId} does not exist`);
+    }
+  }
+
+  const result = await sql<Discount>`
+    INSERT INTO discounts (
+      code, description, type, value, product_id, buy_quantity, get_quantity, min_spend,
+      starts_at, ends_at, max_uses, max_uses_per_user, active
+    )
+    VALUES (
+      ${code},
+      ${discountData.description ?? null},
+      ${discountData.type},
+      ${discountData.value ?? null},
+      ${productId},
+      ${discountData.buy_quantity ?? null},
+      ${discountData.get_quantity ?? null},
+      ${discountData.min_spend ?? null},
+      ${discountData.starts_at ?? null},
+      ${discountData.ends_at ?? null},
+      ${discountData.max_uses ?? null},
+      ${discountData.max_uses_per_user ?? null},
+      ${discountData.active ?? true}
+    )
+    RETURNING
+      id, code, description, type, value, product_id, buy_quantity, get_quantity, min_spend,
+      starts_at, ends_at, max_uses, max_uses_per_user, times_used, active, created_at
+  `;
+
+  if (!result || result.length === 0) {
+    throw new Error('Failed to create discount');
+  }
+
+  return result[0];
+};
+
+/**
+ * Get all discounts, newest first
+ * @param pagination - Page or cursor, page size and whether to count the total
+ * @returns Promise<{discounts: Discount[], total: number | null, next_cursor: string | null}> -
+ *   Discounts, total count (null unless requested) and the cursor of the next page
+ */
+export const getAllDiscounts = async (
+  pagination: PaginationQuery
+): Promise<{ discounts: Discount[]; total: number | null; next_cursor: string | null }> => {
+  const { offset, fetch, afterCreatedAt, afterId } = pageWindow(pagination);
+
+  let total: number | null = null;
+  if (pagination.include_total) {
+    const countResult = await sql`
+      SELECT COUNT(*) as count FROM discounts
+    `;
+
+    total = countResult && countResult[0] ? Number(countResult[0].count) : 0;
+  }
+
+  const discounts = await sql<Discount>`
+    SELECT
+      id, code, description, type, value, product_id, buy_quantity, get_quantity, min_spend,
+      starts_at, ends_at, max_uses, max_uses_per_user, times_used, active, created_at
+    FROM discounts
+    WHERE (${afterCreatedAt}::timestamp IS NULL OR (created_at, id) < (${afterCreatedAt}, ${afterId}))
+    ORDER BY created_at DESC, id DESC
+    LIMIT ${fetch} OFFSET ${offset}
+  `;
+
+  const page = takePage(discounts || [], pagination.limit);
+
+  return { discounts: page.rows, total, next_cursor: page.next_cursor };
+};
+
+/**
+ * Get discount by ID
+ * @param id - Discount ID
+ * @returns Promise<Discount | null> - Discount or null if not found
+ */
+export const getDiscountById = async (id: number): Promise<Discount | null> => {
+  const result = await sql<Discount>`
+    SELECT
+      id, code, description, type, value, product_id, buy_quantity, get_quantity, min_spend,
+      starts_at, ends_at, max_uses, max_uses_per_user, times_used, active, created_at
+    FROM discounts
+    WHERE id = ${id}
+  `;
+
+  return result && result.length > 0 ? result[0] : null;
+};
+
+/**
+ * Update the conditions, validity window, usage limits or status of a discount
+ * @param id - Discount ID
+ * @param updateData - Fields to update; null clears a condition, window bound or limit
+ * @returns Promise<Discount> - Updated discount
+ * @throws NotFoundError if discount not found
+ * @throws UnprocessableEntityError if max_uses is below the uses so far or the window is empty
+ */
+export const updateDiscount = async (
+  id: number,
+  updateData: UpdateDiscountRequest
+): Promise<Discount> => {
+  const discount = await getDiscountById(id);
+  if (!discount) {
+    throw new NotFoundError('Discount', id);
+  }
+
+  // Keep the stored value unless the field was sent (null clears it)
+  const pick = <K extends keyof UpdateDiscountRequest & keyof Discount>(key: K) =>
+    updateData[key] !== undefined ? updateData[key] : discount[key];
+
+  let result;
+  try {
+    result = await sql<Discount>`
+      UPDATE discounts
+      SET
+        description = ${pick('description')},
+        min_spend = ${pick('min_spend')},
+        starts_at = ${pick('starts_at')},
+        ends_at = ${pick('ends_at')},
+        max_uses = ${pick('max_uses')},
+        max_uses_per_user = ${pick('max_uses_per_user')},
+        active = ${pick('active')}
+      WHERE id = ${id}
+      RETURNING
+        id, code, description, type, value, product_id, buy_quantity, get_quantity, min_spend,
+        starts_at, ends_at, max_uses, max_uses_per_user, times_used, active, created_at
+    `;
+  } catch (error) {
+    const { code, constraint } = error as { code?: string; constraint?: string };
+    // A usage limit or validity window would be broken
+    if (code === PG_CHECK_VIOLATION) {
+      throw constraint === 'chk_discounts_within_max_uses'
+        ? new UnprocessableEntityError(
+            `max_uses cannot be below the ${discount.times_used} use(s) so far`,
+            ErrorCode.CHECK_VIOLATION,
+            { times_used: discount.times_used }
+          )
+        : new UnprocessableEntityError('ends_at must be later than starts_at');
+    }
+    throw error;
+  }
+
+  if (!result || result.length === 0) {
+    throw new Error('Failed to update discount');
+  }
+
+  return result[0];
+};
+
+/**
+ * Delete a discount; orders keep their discount lines (code and description are snapshots)
+ * @param id - Discount ID
+ * @returns Promise<boolean> - True if the discount was deleted
+ * @throws NotFoundError if discount not found
+ */
+export const deleteDiscount = async (id: number): Promise<boolean> => {
+  const result = await sql`
+    DELETE FROM discounts
+    WHERE id = ${id}
+    RETURNING id
+  `;
+
+  if (!result || result.length === 0) {
+    throw new NotFoundError('Discount', id);
+  }
+
+  return true;
+};
+
+/**
+ * Convert a base currency amount of a discount rule into cents of the order currency
+ * @param amount - Amount in the base currency
+ * @param exchangeRate - Units of the order currency per unit of the base currency
+ * @returns number - Amount in cents of the order currency
+ */
+const toOrderCents = (amount: number | string, exchangeRate: number | string): number => {
+  return convertCents(toCents(amount), 1, exchangeRate);
+};
+
+/**
+ * Explain why a discount cannot apply to an order
+ * @param discount - Candidate discount with the user's redemption count
+ * @param subtotalCents - Order subtotal in cents
+ * @param now - Time the order is placed
+ * @param exchangeRate - Rate of the order currency, to convert min_spend
+ * @returns string | null - Reason, or null if the discount applies
+ */
+const ineligibilityReason = (
+  discount: DiscountCandidate,
+  subtotalCents: number,
+  now: Date,
+  exchangeRate: number | string
+): string | null => {
+  if (!discount.active) {
+    return 'inactive';
+  }
+  if (discount.starts_at && new Date(discount.starts_at) > now) {
+    return 'not_started';
+  }
+  if (discount.ends_at && new Date(discount.ends_at) <= now) {
+    return 'expired';
+  }
+  if (discount.max_uses !== null && discount.times_used >= discount.max_uses) {
+    return 'usage_limit_reached';
+  }
+  if (discount.max_uses_per_user !== null && discount.user_uses >= discount.max_uses_per_user) {
+    return 'user_usage_limit_reached';
+  }
+  if (
+    discount.min_spend !== null &&
+    subtotalCents < toOrderCents(discount.min_spend, exchangeRate)
+  ) {
+    return 'min_spend_not_met';
+  }
+  return null;
+};
+
+/**
+ * Compute how much a buy X get Y rule takes off: of every buy + get units, the cheapest get
+ * units are free. Works per line rather than per unit, so large quantities cost nothing extra.
+ * @param lines - Qualifying order lines
+ * @param buyQuantity - Units to pay for in each group
+ * @param getQuantity - Units free in each group
+ * @returns number - Discount in cents
+ */
+export const buyXGetYCents = (
+  lines: PricedLine[],
+  buyQuantity: number,
+  getQuantity: number
+): number => {
+  const units = lines.reduce((sum, line) => sum + line.quantity, 0);
+  let freeUnits = Math.floor(units / (buyQuantity + getQuantity)) * getQuantity;
+  let cents = 0;
+
+  for (const line of [...lines].sort((a, b) => a.priceCents - b.priceCents)) {
+    if (freeUnits === 0) {
+      break;
+    }
+    const free = Math.min(line.quantity, freeUnits);
+    cents += free * line.priceCents;
+    freeUnits -= free;
+  }
+
+  return cents;
+};
+
+/**
+ * Compute how much a discount takes off the lines it applies to
+ * @param discount - Eligible discount
+ * @param lines - Priced order lines
+ * @param exchangeRate - Rate of the order currency, to convert fixed amounts
+ * @returns number - Discount in cents (0 if no line qualifies)
+ */
+const discountCents = (
+  discount: Discount,
+  lines: PricedLine[],
+  exchangeRate: number | string
+): number => {
+  const qualifying = lines.filter(
+    (line) => discount.product_id === null || line.product_id === discount.product_id
+  );
+  const baseCents = qualifying.reduce((sum, line) => sum + line.priceCents * line.quantity, 0);
+
+  switch (discount.type) {
+    case DiscountType.PERCENTAGE:
+      return percentOfCents(baseCents, discount.value as number);
+    case DiscountType.FIXED:
+      return Math.min(toOrderCents(discount.value as number, exchangeRate), baseCents);
+    case DiscountType.BUY_X_GET_Y:
+      return buyXGetYCents(
+        qualifying,
+        Number(discount.buy_quantity),
+        Number(discount.get_quantity)
+      );
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Apply an order's promotions and discount codes to its priced lines
+ *
+ * Automatic promotions apply when eligible and are skipped otherwise; a code that does not
+ * exist or cannot apply rejects the order. Each discount is computed on the undiscounted
+ * lines, in order (promotions first, then codes as given), and together they never exceed the
+ * subtotal. Usage limits are checked here for a clear error and enforced again by the order
+ * transaction. Fixed amounts and minimum spends are set in the base currency and converted
+ * into the order currency.
+ *
+ * @param userId - User placing the order
+ * @param lines - Order lines priced at current prices
+ * @param codes - Discount codes entered with the order
+ * @param exchangeRate - Units of the order currency per unit of the base currency
+ * @returns Promise<AppliedDiscount[]> - Discounts that apply, in the order they were applied
+ * @throws UnprocessableEntityError if a code does not exist or does not apply to the order
+ */
+export const applyDiscounts = async (
+  userId: number,
+  lines: PricedLine[],
+  codes: string[] = [],
+  exchangeRate: number | string = 1
+): Promise<AppliedDiscount[]> => {
+  const subtotalCents = lines.reduce((sum, line) => sum + line.priceCents * line.quantity, 0);
+
+  const normalizedCodes = [...new Set(codes.map((code) => code.toUpperCase()))];
+
+  const candidates = await sql<DiscountCandidate>`
+    SELECT
+      d.id, d.code, d.description, d.type, d.value, d.product_id, d.buy_quantity,
+      d.get_quantity, d.min_spend, d.starts_at, d.ends_at, d.max_uses, d.max_uses_per_user,
+      d.times_used, d.active, d.created_at, COALESCE(r.times_used, 0) AS user_uses
+    FROM discounts d
+    LEFT JOIN discount_redemptions r ON r.discount_id = d.id AND r.user_id = ${userId}
+    WHERE upper(d.code) = ANY(${normalizedCodes}::text[]) OR (d.code IS NULL AND d.active)
+    ORDER BY d.id
+  `;
+
+  const byCode = new Map(
+    candidates
+      .filter((discount) => discount.code !== null)
+      .map((discount) => [(discount.code as string).toUpperCase(), discount])
+  );
+
+  const missing = normalizedCodes.filter((code) => !byCode.has(code));
+  if (missing.length > 0) {
+    throw new UnprocessableEntityError(
+      `Discount code ${missing.join(', ')} does not exist`,
+      ErrorCode.DISCOUNT_NOT_APPLICABLE,
+      { codes: missing, reason: 'not_found' }
+    );
+  }
+
+  const now = new Date();
+  const ordered = [
+    ...candidates.filter((discount) => discount.code === null),
+    ...normalizedCodes.map((code) => byCode.get(code) as DiscountCandidate),
+  ];
+
+  const applied: AppliedDiscount[] = [];
+  let remainingCents = subtotalCents;
+
+  for (const discount of ordered) {
+    const automatic = discount.code === null;
+    let cents = 0;
+    let reason = ineligibilityReason(discount, subtotalCents, now, exchangeRate);
+    if (reason === null) {
+      cents = Math.min(discountCents(discount, lines, exchangeRate), remainingCents);
+      reason = cents > 0 ? null : 'no_discount';
+    }
+
+    if (reason !== null) {
+      if (automatic) {
+        continue;
+      }
+      throw new UnprocessableEntityError(
+        `Discount code ${discount.code} cannot be applied to this order`,
+        ErrorCode.DISCOUNT_NOT_APPLICABLE,
+        { code: discount.code, reason }
+      );
+    }
+
+    applied.push({
+      discount_id: discount.id,
+      code: discount.code,
+      description: discount.description,
+      amount: fromCents(cents),
+    });
+    remainingCents -= cents;
+  }
+
+  return applied;
+};
+
+/**
+ * Discount Service - Exported as functional module
+ */
+const discountService = {
+  createDiscount,
+  getAllDiscounts,
+  getDiscountById,
+  updateDiscount,
+  deleteDiscount,
+  applyDiscounts,
+};
+
+export default discountService;
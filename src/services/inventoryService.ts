@@ -0,0 +1,327 @@
+import sql from '../config/database';
+import {
+  ErrorCode,
+  NotFoundError,
+  PG_CHECK_VIOLATION,
+  UnprocessableEntityError,
+} from '../middleware/errorHandler';
+import {
+  DomainEventType,
+  InventoryMovement,
+  InventoryReconciliation,
+  LowStockProduct,
+  PaginationQuery,
+  StockAdjustmentRequest,
+  StockAdjustmentResult,
+  StockDiscrepancy,
+  StockMovementFilters,
+} from '../types/index';
+import { publish } from '../utils/domainEvents';
+import { pageWindow, takePage } from '../utils/helpers';
+import logger, { serializeError } from '../utils/logger';
+
+/**
+ * Read the stock available to sell (not reserved) of a product, or of one of its variants
+ * @param productId - Product ID
+ * @param variantId - Variant ID, or null for the product's own stock
+ * @returns Promise<number> - Available stock
+ * @throws NotFoundError if the product (or the product's variant) does not exist
+ */
+const getAvailableStock = async (productId: number, variantId: number | null): Promise<number> => {
+  const result =
+    variantId === null
+      ? await sql`SELECT stock - reserved AS available FROM products WHERE id = ${productId}`
+      : await sql`
+          SELECT stock - reserved AS available FROM product_variants
+          WHERE id = ${variantId} AND product_id = ${productId}
+        `;
+
+  if (!result || result.length === 0) {
+    throw variantId === null
+      ? new NotFoundError('Product', productId)
+      : new NotFoundError('Product variant', variantId);
+  }
+
+  return Number(result[0].available);
+};
+
+/**
+ * Apply a manual stock change to a product or one of its variants
+ *
+ * The stock update and its ledger entry are written in a single statement, so the movement
+ * is recorded if and only if the stock changed.
+ *
+ * @param productId - Product ID
+ * @param adjustment - Signed quantity, reason, optional variant, note and actor
+ * @returns Promise<StockAdjustmentResult> - New stock levels and the recorded movement
+ * @throws NotFoundError if the product (or the product's variant) does not exist
+ * @throws UnprocessableEntityError if the change would remove more than the available stock
+ */
+export const adjustStock = async (
+  productId: number,
+  adjustment: StockAdjustmentRequest
+): Promise<StockAdjustmentResult> => {
+  const variantId = adjustment.variant_id ?? null;
+  const available = await getAvailableStock(productId, variantId);
+
+  let result;
+  try {
+    result = await sql<InventoryMovement & { stock: number; available: number }>`
+      WITH updated_product AS (
+        UPDATE products
+        SET stock = stock + ${adjustment.quantity}
+        WHERE id = ${productId} AND ${variantId}::int IS NULL
+        RETURNING id AS product_id, NULL::int AS variant_id, stock, stock - reserved AS available
+      ),
+      updated_variant AS (
+        UPDATE product_variants
+        SET stock = stock + ${adjustment.quantity}
+        WHERE id = ${variantId}::int AND product_id = ${productId}
+        RETURNING product_id, id AS variant_id, stock, stock - reserved AS available
+      ),
+      updated AS (
+        SELECT * FROM updated_product
+        UNION ALL
+        SELECT * FROM updated_variant
+      ),
+      movement AS (
+        INSERT INTO inventory_movements (product_id, variant_id, quantity, reason, actor, note)
+        SELECT product_id, variant_id, ${adjustment.quantity}, ${adjustment.reason},
+          ${adjustment.actor ?? null}, ${adjustment.note ?? null}
+        FROM updated
+        RETURNING id, product_id, variant_id, quantity, reason, order_id, refund_id, actor, note, created_at
+      )
+      SELECT movement.*, updated.stock, updated.available
+      FROM movement, updated
+    `;
+  } catch (error) {
+    // Stock would drop below zero or below the reserved quantity
+    if ((error as { code?: string }).code === PG_CHECK_VIOLATION) {
+      throw new UnprocessableEntityError(
+        `Cannot remove ${-adjustment.quantity} from stock; only ${available} available`,
+        ErrorCode.INSUFFICIENT_STOCK,
+        { available }
+      );
+    }
+    throw error;
+  }
+
+  // The product or variant was deleted after it was read
+  if (!result || result.length === 0) {
+    throw variantId === null
+      ? new NotFoundError('Product', productId)
+      : new NotFoundError('Product variant', variantId);
+  }
+
+  const { stock, available: availableAfter, ...movement } = result[0];
+
+  if (variantId === null) {
+    await checkStockThresholds([productId]);
+  }
+
+  logger.info('stock adjusted', {
+    product_id: productId,
+    variant_id: variantId,
+    quantity: adjustment.quantity,
+    reason: adjustment.reason,
+    stock,
+  });
+
+  return {
+    stock: Number(stock),
+    available: Number(availableAfter),
+    movement,
+  };
+};
+
+/**
+ * Detect products whose available stock crossed their reorder threshold and publish the
+ * matching domain events
+ *
+ * low_stock_since is set when a product drops to its threshold and cleared when it climbs back
+ * above it; only rows whose flag flips are returned, so each crossing is published once even
+ * if several requests check the same product. Called after the stock change has been
+ * committed; a failed check is logged and never fails the change itself.
+ *
+ * @param productIds - Products whose stock or reservations changed
+ */
+export const checkStockThresholds = async (productIds: number[]): Promise<void> => {
+  if (productIds.length === 0) {
+    return;
+  }
+
+  try {
+    const crossed = await sql`
+      UPDATE products
+      SET low_stock_since = CASE WHEN stock - reserved <= reorder_threshold THEN NOW() END
+      WHERE id = ANY(${productIds}::int[])
+        AND COALESCE(stock - reserved <= reorder_threshold, false) <> (low_stock_since IS NOT NULL)
+      RETURNING id, name, stock, stock - reserved AS available, reorder_threshold, low_stock_since
+    `;
+
+    for (const row of crossed || []) {
+      // The flag is also cleared when the threshold is removed, which is not a replenishment
+      if (row.reorder_threshold === null) {
+        continue;
+      }
+
+      const event = {
+        type: row.low_stock_since ? DomainEventType.STOCK_LOW : DomainEventType.STOCK_REPLENISHED,
+        occurred_at: new Date(),
+        product_id: Number(row.id),
+        name: row.name as string,
+        stock: Number(row.stock),
+        available: Number(row.available),
+        reorder_threshold: Number(row.reorder_threshold),
+      };
+
+      logger.info('stock threshold crossed', { ...event });
+      publish(event);
+    }
+  } catch (error) {
+    logger.error('stock threshold check failed', {
+      product_ids: productIds,
+      error: serializeError(error),
+    });
+  }
+};
+
+/**
+ * Get the products at or below their reorder threshold, largest shortfall first
+ * @param pagination - Page, page size and whether to count the total
+ * @returns Promise<{products: LowStockProduct[], total: number | null}> - Products and total
+ *   count (null unless requested)
+ */
+export const getLowStockProducts = async (
+  pagination: PaginationQuery
+): Promise<{ products: LowStockProduct[]; total: number | null }> => {
+  const { offset } = pageWindow(pagination);
+
+  let total: number | null = null;
+  if (pagination.include_total) {
+    const countResult = await sql`
+      SELECT COUNT(*) as count
+      FROM products
+      WHERE stock - reserved <= reorder_threshold
+    `;
+
+    total = countResult && countResult[0] ? Number(countResult[0].count) : 0;
+  }
+
+  const products = await sql<LowStockProduct>`
+    SELECT
+      id, name, price, currency, stock, stock - reserved AS available, reorder_threshold,
+      weight_grams, created_at, reorder_threshold - (stock - reserved) AS shortfall,
+      low_stock_since
+    FROM products
+    WHERE stock - reserved <= reorder_threshold
+    ORDER BY shortfall DESC, id
+    LIMIT ${pagination.limit} OFFSET ${offset}
+  `;
+
+  return { products: products || [], total };
+};
+
+/**
+ * Get the stock movements of a product and its variants, newest first
+ * @param productId - Product ID
+ * @param pagination - Page or cursor, page size and whether to count the total
+ * @param filters - Optional variant and reason
+ * @returns Promise<{movements: InventoryMovement[], total: number | null, next_cursor: string | null}> -
+ *   Movements, total count (null unless requested) and the cursor of the next page
+ * @throws NotFoundError if product not found
+ */
+export const getStockMovements = async (
+  productId: number,
+  pagination: PaginationQuery,
+  filters: StockMovementFilters = {}
+): Promise<{
+  movements: InventoryMovement[];
+  total: number | null;
+  next_cursor: string | null;
+}> => {
+  await getAvailableStock(productId, null);
+
+  const { offset, fetch, afterCreatedAt, afterId } = pageWindow(pagination);
+  const variantId = filters.variant_id ?? null;
+  const reason = filters.reason ?? null;
+
+  let total: number | null = null;
+  if (pagination.include_total) {
+    const countResult = await sql`
+      SELECT COUNT(*) as count
+      FROM inventory_movements
+      WHERE product_id = ${productId}
+        AND (${variantId}::int IS NULL OR variant_id = ${variantId})
+        AND (${reason}::text IS NULL OR reason = ${reason})
+    `;
+
+    total = countResult && countResult[0] ? Number(countResult[0].count) : 0;
+  }
+
+  const movements = await sql<InventoryMovement>`
+    SELECT id, product_id, variant_id, quantity, reason, order_id, refund_id, actor, note, created_at
+    FROM inventory_movements
+    WHERE product_id = ${productId}
+      AND (${variantId}::int IS NULL OR variant_id = ${variantId})
+      AND (${reason}::text IS NULL OR reason = ${reason})
+      AND (${afterCreatedAt}::timestamp IS NULL
+        OR (created_at, id) < (${afterCreatedAt}, ${afterId}))
+    ORDER BY created_at DESC, id DESC
+    LIMIT ${fetch} OFFSET ${offset}
+  `;
+
+  const page = takePage(movements || [], pagination.limit);
+
+  return { movements: page.rows, total, next_cursor: page.next_cursor };
+};
+
+/**
+ * Check that every product's and variant's stock equals the sum of its movements
+ * @returns Promise<InventoryReconciliation> - Whether the ledger is consistent, and every mismatch
+ */
+export const reconcileInventory = async (): Promise<InventoryReconciliation> => {
+  const result = await sql`
+    WITH ledger AS (
+      SELECT product_id, variant_id, SUM(quantity) AS stock
+      FROM inventory_movements
+      GROUP BY product_id, variant_id
+    )
+    SELECT p.id AS product_id, NULL::int AS variant_id, p.stock, COALESCE(l.stock, 0) AS ledger_stock
+    FROM products p
+    LEFT JOIN ledger l ON l.product_id = p.id AND l.variant_id IS NULL
+    WHERE p.stock <> COALESCE(l.stock, 0)
+    UNION ALL
+    SELECT v.product_id, v.id, v.stock, COALESCE(l.stock, 0)
+    FROM product_variants v
+    LEFT JOIN ledger l ON l.variant_id = v.id
+    WHERE v.stock <> COALESCE(l.stock, 0)
+    ORDER BY product_id, variant_id NULLS FIRST
+  `;
+
+  const discrepancies: StockDiscrepancy[] = (result || []).map((row) => ({
+    product_id: Number(row.product_id),
+    variant_id: row.variant_id === null ? null : Number(row.variant_id),
+    stock: Number(row.stock),
+    ledger_stock: Number(row.ledger_stock),
+  }));
+
+  if (discrepancies.length > 0) {
+    logger.warn('inventory ledger out of balance', { discrepancies: discrepancies.length });
+  }
+
+  return { consistent: discrepancies.length === 0, checked_at: new Date(), discrepancies };
+};
+
+/**
+ * Inventory Service - Exported as functional module
+ */
+const inventoryService = {
+  adjustStock,
+  checkStockThresholds,
+  getLowStockProducts,
+  getStockMovements,
+  reconcileInventory,
+};
+
+export default inventoryService;
@@ -0,0 +1,100 @@
+import sql from '../config/database';
+import { DomainEvent, DomainEventType } from '../types/index';
+import { subscribe } from '../utils/domainEvents';
+import logger from '../utils/logger';
+
+// Webhook deliveries that take longer than this are abandoned
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+/**
+ * Contract every notification channel must fulfil
+ */
+export interface NotificationSink {
+  readonly name: string;
+  deliver(event: DomainEvent): Promise<void>;
+}
+
+/**
+ * Writes each event to the application log
+ */
+export class LogNotificationSink implements NotificationSink {
+  readonly name = 'log';
+
+  async deliver(event: DomainEvent): Promise<void> {
+    logger.warn('domain event', { ...event });
+  }
+}
+
+/**
+ * POSTs each event as JSON to a fixed URL; non-2xx responses are reported as failures
+ */
+export class WebhookNotificationSink implements NotificationSink {
+  readonly name = 'webhook';
+
+  constructor(private readonly url: string) {}
+
+  async deliver(event: DomainEvent): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(event),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Stores each event in the outbox_events table for an external relay to publish
+ */
+export class OutboxNotificationSink implements NotificationSink {
+  readonly name = 'outbox';
+
+  async deliver(event: DomainEvent): Promise<void> {
+    await sql`
+      INSERT INTO outbox_events (event_type, payload)
+      VALUES (${event.type}, ${JSON.stringify(event)}::jsonb)
+    `;
+  }
+}
+
+/**
+ * Build a sink from its configured name
+ * @param name - 'log', 'webhook' or 'outbox'
+ * @param webhookUrl - Target URL, required by the webhook sink
+ * @returns NotificationSink - Sink instance
+ * @throws Error if the name is unknown or the webhook sink has no URL
+ */
+export const createNotificationSink = (name: string, webhookUrl?: string): NotificationSink => {
+  switch (name) {
+    case 'log':
+      return new LogNotificationSink();
+    case 'webhook':
+      if (!webhookUrl) {
+        throw new Error('NOTIFICATION_WEBHOOK_URL is required by the webhook notification sink');
+      }
+      return new WebhookNotificationSink(webhookUrl);
+    case 'outbox':
+      return new OutboxNotificationSink();
+    default:
+      throw new Error(`Unknown notification sink: ${name}`);
+  }
+};
+
+/**
+ * Subscribe sinks to every domain event type
+ * @param sinks - Sinks to deliver events to
+ * @returns () => void - Unsubscribes all of them
+ */
+export const registerNotificationSinks = (sinks: NotificationSink[]): (() => void) => {
+  const unsubscribers = sinks.map((sink) =>
+    subscribe(Object.values(DomainEventType), (event) => sink.deliver(event))
+  );
+
+  logger.info('notification sinks registered', { sinks: sinks.map((sink) => sink.name) });
+
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+};
@@ -1,4 +1,788 @@
-// Order data access and business logic
-// TODO: Order creation with transactions
-// TODO: Order item management, payment processing
-// TODO: Stock reduction, order status management
+import sql from '../config/database';
+import {
+  ErrorCode,
+  InsufficientStockError,
+  InvalidStatusTransitionError,
+  NotFoundError,
+  PG_CHECK_VIOLATION,
+  UnprocessableEntityError,
+} from '../middleware/errorHandler';
+import { ORDER_STATUS_TRANSITIONS } from '../config/constants';
+import { config } from '../config/env';
+import {
+  AddressSnapshot,
+  CreateOrderRequest,
+  InventoryMovementReason,
+  Order,
+  OrderDiscount,
+  OrderFilters,
+  OrderItemFailure,
+  OrderItemInput,
+  OrderItemWithProduct,
+  OrderQuote,
+  OrderStatus,
+  OrderStatusChange,
+  OrderStatusHistory,
+  OrderWithDiscounts,
+  OrderWithItems,
+  PaginationQuery,
+  PaymentStatus,
+  ReservationStatus,
+  User,
+} from '../types/index';
+import { pageWindow, takePage } from '../utils/helpers';
+import logger from '../utils/logger';
+import { addressRegion, snapshotOrderAddresses } from './addressService';
+import { checkStockThresholds } from './inventoryService';
+import { priceOrder } from './pricingService';
+
+/**
+ * Merge duplicate product/variant lines and sort by product ID, then variant ID.
+ * Sorting gives every transaction the same row-lock order, which avoids deadlocks.
+ * @param items - Requested order items
+ * @returns OrderItemInput[] - One line per product and variant, in lock order
+ */
+const normalizeItems = (items: OrderItemInput[]): OrderItemInput[] => {
+  const lines = new Map<string, OrderItemInput>();
+
+  for (const item of items) {
+    const key = `${item.product_id}:${item.variant_id ?? ''}`;
+    const line = lines.get(key);
+    lines.set(key, {
+      product_id: item.product_id,
+      ...(item.variant_id !== undefined && { variant_id: item.variant_id }),
+      quantity: (line?.quantity ?? 0) + item.quantity,
+    });
+  }
+
+  return [...lines.values()].sort(
+    (a, b) => a.product_id - b.product_id || (a.variant_id ?? 0) - (b.variant_id ?? 0)
+  );
+};
+
+/**
+ * Compare requested quantities against the stock available to sell (stock not yet reserved).
+ * Lines with a variant are checked against the variant's stock, others against the product's.
+ * @param items - Normalized order items
+ * @returns Promise<OrderItemFailure[]> - Items that cannot be fulfilled (empty if all are in stock)
+ */
+const findStockFailures = async (items: OrderItemInput[]): Promise<OrderItemFailure[]> => {
+  const productIds = items.map((item) => item.product_id);
+  const variantIds = items.map((item) => item.variant_id ?? null);
+
+  const rows = await sql<{ product_id: number; variant_id: number | null; stock: string | null }>`
+    SELECT
+      r.product_id,
+      r.variant_id,
+      CASE WHEN r.variant_id IS NULL THEN p.stock - p.reserved ELSE v.stock - v.reserved END AS stock
+    FROM unnest(${productIds}::int[], ${variantIds}::int[]) AS r(product_id, variant_id)
+    JOIN products p ON p.id = r.product_id
+    LEFT JOIN product_variants v ON v.id = r.variant_id AND v.product_id = r.product_id
+  `;
+
+  const stockByLine = new Map<string, number | null>(
+    rows.map((row) => [
+      `${row.product_id}:${row.variant_id ?? ''}`,
+      row.stock === null ? null : Number(row.stock),
+    ])
+  );
+
+  const failures: OrderItemFailure[] = [];
+
+  for (const item of items) {
+    const available = stockByLine.get(`${item.product_id}:${item.variant_id ?? ''}`) ?? null;
+    const line = {
+      product_id: item.product_id,
+      ...(item.variant_id !== undefined && { variant_id: item.variant_id }),
+      requested: item.quantity,
+    };
+
+    if (available === null) {
+      failures.push({ ...line, available: 0, reason: 'not_found' });
+    } else if (available < item.quantity) {
+      failures.push({ ...line, available, reason: 'insufficient_stock' });
+    }
+  }
+
+  return failures;
+};
+
+/**
+ * Ensure the user an order is placed for exists
+ * @param userId - User ID
+ * @throws UnprocessableEntityError if user not found
+ */
+const assertOrderingUserExists = async (userId: number): Promise<void> => {
+  const user = await sql`
+    SELECT 1 FROM users WHERE id = ${userId}
+  `;
+
+  if (!user || user.length === 0) {
+    throw new UnprocessableEntityError(`User with ID ${userId} does not exist`);
+  }
+};
+
+/**
+ * Copy the order's addresses from the user's address book, falling back to the user's default
+ * shipping and billing addresses, and work out the region it is taxed for: the one given, else
+ * the shipping address's
+ * @param orderData - Order data (user_id, region, address IDs)
+ * @returns Promise<{shipping, billing, region}> - Address copies (null where no ID was given and
+ *   there is no default) and the tax region (null if there is neither a region nor a shipping
+ *   address)
+ * @throws UnprocessableEntityError if an address is not the user's, or the region given is not
+ *   the shipping address's
+ */
+const resolveDestination = async (
+  orderData: CreateOrderRequest
+): Promise<{
+  shipping: AddressSnapshot | null;
+  billing: AddressSnapshot | null;
+  region: string | null;
+}> => {
+  const { shipping, billing } = await snapshotOrderAddresses(
+    orderData.user_id,
+    orderData.shipping_address_id,
+    orderData.billing_address_id
+  );
+
+  const shippingRegion = shipping ? addressRegion(shipping) : null;
+  if (
+    orderData.region !== undefined &&
+    shippingRegion !== null &&
+    orderData.region !== shippingRegion
+  ) {
+    throw new UnprocessableEntityError(
+      `Region ${orderData.region} does not match the shipping address region ${shippingRegion}`
+    );
+  }
+
+  return { shipping, billing, region: orderData.region ?? shippingRegion };
+};
+
+/**
+ * Price an order without placing it: nothing is reserved, written or counted against
+ * discount usage limits, and stock is not checked
+ * @param orderData - Order data (user_id, items, discount codes, region, currency, addresses)
+ * @returns Promise<OrderQuote> - Lines with their tax, discounts and the order totals
+ * @throws UnprocessableEntityError if the user, a product or an address does not exist, the
+ *   currency is not supported or a discount code does not apply
+ */
+export const quoteOrder = async (orderData: CreateOrderRequest): Promise<OrderQuote> => {
+  await assertOrderingUserExists(orderData.user_id);
+
+  const { region } = await resolveDestination(orderData);
+
+  return priceOrder(
+    orderData.user_id,
+    normalizeItems(orderData.items),
+    orderData.discount_codes,
+    region,
+    orderData.currency
+  );
+};
+
+/**
+ * Create a new order
+ *
+ * The order is priced up front by the pricing pipeline: lines at the current prices (the
+ * variant's price override, if any, else the product's) converted into the order currency,
+ * then discounts, tax and shipping. Then, in a single transaction, every line reserves its
+ * quantity on the product or variant row, the order is inserted with the quoted totals and
+ * the exchange rate it was priced at, each line records its quoted price, discount share and
+ * tax, and the reservations are recorded with an expiry. Stock itself is only decremented once
+ * the order is confirmed. Discounts are stored as discount lines and their usage counters are
+ * incremented in the same transaction. If any reservation or discount use would exceed its
+ * limit, the CHECK constraint aborts the transaction and nothing is written. The shipping and
+ * billing addresses are copied onto the order, so later edits to the address book leave it
+ * unchanged.
+ *
+ * @param orderData - Order creation data (user_id, items, discount codes, region, currency,
+ *   addresses)
+ * @returns Promise<OrderWithDiscounts> - Created order with its discount lines
+ * @throws InsufficientStockError if any item is missing or short on stock
+ * @throws UnprocessableEntityError if the user or an address does not exist, the currency is not
+ *   supported or a discount code does not apply
+ */
+export const createOrder = async (orderData: CreateOrderRequest): Promise<OrderWithDiscounts> => {
+  await assertOrderingUserExists(orderData.user_id);
+
+  const items = normalizeItems(orderData.items);
+  const { shipping, billing, region } = await resolveDestination(orderData);
+
+  // Fail fast with a full report before opening the transaction
+  const failures = await findStockFailures(items);
+  if (failures.length > 0) {
+    throw new InsufficientStockError(failures);
+  }
+
+  const quote = await priceOrder(
+    orderData.user_id,
+    items,
+    orderData.discount_codes,
+    region,
+    orderData.currency
+  );
+  const discountIds = quote.discounts.map((discount) => discount.discount_id);
+
+  let results;
+  try {
+    results = await sql.transaction((txn) => [
+      // Reserve stock (row locks are held until commit)
+      ...items.map((item) =>
+        item.variant_id === undefined
+          ? txn`
+              UPDATE products
+              SET reserved = reserved + ${item.quantity}
+              WHERE id = ${item.product_id}
+            `
+          : txn`
+              UPDATE product_variants
+              SET reserved = reserved + ${item.quantity}
+              WHERE id = ${item.variant_id} AND product_id = ${item.product_id}
+            `
+      ),
+
+      // Insert order with its quoted totals and the exchange rate it was priced at
+      txn`
+        INSERT INTO orders (
+          user_id, region, currency, exchange_rate, subtotal, discount_total, tax_total,
+          shipping_total, total_amount, shipping_address, billing_address, status
+        )
+        VALUES (
+          ${orderData.user_id}, ${quote.region}, ${quote.currency}, ${quote.exchange_rate},
+          ${quote.subtotal}, ${quote.discount_total}, ${quote.tax_total}, ${quote.shipping_total},
+          ${quote.total}, ${shipping && JSON.stringify(shipping)}::jsonb,
+          ${billing && JSON.stringify(billing)}::jsonb, ${OrderStatus.PENDING}
+        )
+        RETURNING
+          id, user_id, region, currency, exchange_rate, subtotal, discount_total, tax_total,
+          shipping_total, total_amount, shipping_address, billing_address, status, created_at
+      `,
+
+      // Insert order items, snapshotting the quoted price, discount share and tax
+      txn`
+        INSERT INTO order_items (order_id, product_id, variant_id, quantity, price, discount, tax)
+        SELECT
+          currval(pg_get_serial_sequence('orders', 'id')),
+          r.product_id, r.variant_id, r.quantity, r.price, r.discount, r.tax
+        FROM unnest(
+          ${quote.items.map((line) => line.product_id)}::int[],
+          ${quote.items.map((line) => line.variant_id)}::int[],
+          ${quote.items.map((line) => line.quantity)}::int[],
+          ${quote.items.map((line) => line.price.toFixed(2))}::numeric[],
+          ${quote.items.map((line) => line.discount.toFixed(2))}::numeric[],
+          ${quote.items.map((line) => line.tax.toFixed(2))}::numeric[]
+        ) AS r(product_id, variant_id, quantity, price, discount, tax)
+      `,
+
+      // Hold each line until the order is paid or the reservation expires
+      txn`
+        INSERT INTO stock_reservations (order_id, product_id, variant_id, quantity, status, expires_at)
+        SELECT
+          order_id, product_id, variant_id, quantity, ${ReservationStatus.ACTIVE},
+          NOW() + ${config.inventory.reservationTtlMinutes} * INTERVAL '1 minute'
+        FROM order_items
+        WHERE order_id = currval(pg_get_serial_sequence('orders', 'id'))
+      `,
+
+      // Record the initial status
+      txn`
+        INSERT INTO order_status_history (order_id, from_status, to_status, reason)
+        VALUES (currval(pg_get_serial_sequence('orders', 'id')), NULL, ${OrderStatus.PENDING}, 'Order placed')
+      `,
+
+      ...(discountIds.length > 0
+        ? [
+            // Count the uses, overall and per user (the CHECK constraints enforce the limits)
+            txn`
+              UPDATE discounts
+              SET times_used = times_used + 1
+              WHERE id = ANY(${discountIds}::int[])
+            `,
+            txn`
+              INSERT INTO discount_redemptions (discount_id, user_id, times_used, max_uses)
+              SELECT id, ${orderData.user_id}, 1, max_uses_per_user
+              FROM discounts
+              WHERE id = ANY(${discountIds}::int[])
+              ON CONFLICT (discount_id, user_id) DO UPDATE
+              SET times_used = discount_redemptions.times_used + 1, max_uses = EXCLUDED.max_uses
+            `,
+
+            // Record each discount line, snapshotting its code and description
+            txn`
+              INSERT INTO order_discounts (order_id, discount_id, code, description, amount)
+              SELECT currval(pg_get_serial_sequence('orders', 'id')), d.id, d.code, d.description, r.amount
+              FROM unnest(
+                ${discountIds}::int[],
+                ${quote.discounts.map((discount) => discount.amount.toFixed(2))}::numeric[]
+              ) AS r(discount_id, amount)
+              JOIN discounts d ON d.id = r.discount_id
+              RETURNING id, order_id, discount_id, code, description, amount, created_at
+            `,
+          ]
+        : []),
+    ]);
+  } catch (error) {
+    const { code, constraint } = error as { code?: string; constraint?: string };
+
+    // A discount ran out of uses between pricing and the transaction
+    if (code === PG_CHECK_VIOLATION && constraint?.startsWith('chk_discount')) {
+      throw new UnprocessableEntityError(
+        'A discount reached its usage limit while the order was being placed',
+        ErrorCode.DISCOUNT_NOT_APPLICABLE,
+        { reason: 'usage_limit_reached' }
+      );
+    }
+
+    // Stock changed between the pre-check and the transaction (chk_*_reserved_within_stock)
+    if (code === PG_CHECK_VIOLATION) {
+      const racedFailures = await findStockFailures(items);
+      if (racedFailures.length > 0) {
+        throw new InsufficientStockError(racedFailures);
+      }
+    }
+    throw error;
+  }
+
+  const orderResult = results[items.length];
+
+  if (!orderResult || orderResult.length === 0) {
+    throw new Error('Failed to create order');
+  }
+
+  const order: OrderWithDiscounts = {
+    ...(orderResult[0] as unknown as Order),
+    discounts:
+      discountIds.length > 0 ? (results[results.length - 1] as unknown as OrderDiscount[]) : [],
+  };
+  logger.info('order created', {
+    order_id: order.id,
+    user_id: order.user_id,
+    currency: order.currency,
+    subtotal: order.subtotal,
+    discount_total: order.discount_total,
+    tax_total: order.tax_total,
+    shipping_total: order.shipping_total,
+    total_amount: order.total_amount,
+    items: items.length,
+  });
+
+  // Reserving stock lowers what is available to sell
+  await checkStockThresholds(
+    items.filter((item) => item.variant_id === undefined).map((item) => item.product_id)
+  );
+
+  return order;
+};
+
+/**
+ * Attach items (with product and variant), discount lines and owning user to a set of orders.
+ * Uses one query each for all items, discounts and users, regardless of how many orders are
+ * passed.
+ * @param orders - Orders to hydrate
+ * @returns Promise<OrderWithItems[]> - Hydrated orders in the same order as the input
+ */
+const hydrateOrders = async (orders: Order[]): Promise<OrderWithItems[]> => {
+  if (orders.length === 0) {
+    return [];
+  }
+
+  const orderIds = orders.map((order) => order.id);
+  const userIds = [...new Set(orders.map((order) => order.user_id))];
+
+  const [itemRows, discountRows, userRows] = await Promise.all([
+    sql<OrderItemWithProduct>`
+      SELECT
+        oi.id, oi.order_id, oi.product_id, oi.variant_id, oi.quantity, oi.price, oi.discount,
+        oi.tax,
+        json_build_object(
+          'id', p.id,
+          'name', p.name,
+          'price', p.price,
+          'stock', p.stock,
+          'available', p.stock - p.reserved,
+          'reorder_threshold', p.reorder_threshold,
+          'weight_grams', p.weight_grams,
+          'currency', p.currency,
+          'created_at', p.created_at
+        ) AS product,
+        CASE WHEN v.id IS NOT NULL THEN json_build_object(
+          'id', v.id,
+          'product_id', v.product_id,
+          'sku', v.sku,
+          'attributes', v.attributes,
+          'price', v.price,
+          'stock', v.stock,
+          'available', v.stock - v.reserved,
+          'created_at', v.created_at
+        ) END AS variant
+      FROM order_items oi
+      JOIN products p ON p.id = oi.product_id
+      LEFT JOIN product_variants v ON v.id = oi.variant_id
+      WHERE oi.order_id = ANY(${orderIds}::int[])
+      ORDER BY oi.order_id, oi.id
+    `,
+    sql<OrderDiscount>`
+      SELECT id, order_id, discount_id, code, description, amount, created_at
+      FROM order_discounts
+      WHERE order_id = ANY(${orderIds}::int[])
+      ORDER BY order_id, id
+    `,
+    sql<User>`
+      SELECT id, name, email, role, created_at
+      FROM users
+      WHERE id = ANY(${userIds}::int[])
+    `,
+  ]);
+
+  const itemsByOrderId = new Map<number, OrderItemWithProduct[]>();
+  for (const row of itemRows) {
+    const items = itemsByOrderId.get(row.order_id) ?? [];
+    items.push(row);
+    itemsByOrderId.set(row.order_id, items);
+  }
+
+  const discountsByOrderId = new Map<number, OrderDiscount[]>();
+  for (const row of discountRows) {
+    const discounts = discountsByOrderId.get(row.order_id) ?? [];
+    discounts.push(row);
+    discountsByOrderId.set(row.order_id, discounts);
+  }
+
+  const usersById = new Map<number, User>(userRows.map((user) => [user.id, user]));
+
+  return orders.map((order) => ({
+    ...order,
+    items: itemsByOrderId.get(order.id) ?? [],
+    discounts: discountsByOrderId.get(order.id) ?? [],
+    user: usersById.get(order.user_id) as User,
+  }));
+};
+
+/**
+ * Get order by ID with items, products and user
+ * @param id - Order ID
+ * @returns Promise<OrderWithItems | null> - Order object or null if not found
+ */
+export const getOrderById = async (id: number): Promise<OrderWithItems | null> => {
+  const result = await sql<Order>`
+    SELECT
+      id, user_id, region, currency, exchange_rate, subtotal, discount_total, tax_total,
+      shipping_total, total_amount, shipping_address, billing_address, status, created_at
+    FROM orders
+    WHERE id = ${id}
+  `;
+
+  if (!result || result.length === 0) {
+    return null;
+  }
+
+  const [order] = await hydrateOrders(result);
+  return order;
+};
+
+/**
+ * Get the ID of the user who placed an order
+ * @param id - Order ID
+ * @returns Promise<number | null> - Owner user ID or null if the order does not exist
+ */
+export const getOrderOwnerId = async (id: number): Promise<number | null> => {
+  const result = await sql`
+    SELECT user_id FROM orders WHERE id = ${id}
+  `;
+
+  return result && result.length > 0 ? Number(result[0].user_id) : null;
+};
+
+/**
+ * Get all orders with pagination and optional filters, newest first
+ * @param pagination - Page or cursor, page size and whether to count the total
+ * @param filters - Optional status, user_id and created_at range (from inclusive, to exclusive)
+ * @returns Promise<{orders: OrderWithItems[], total: number | null, next_cursor: string | null}> -
+ *   Hydrated orders, total count (null unless requested) and the cursor of the next page
+ */
+export const getAllOrders = async (
+  pagination: PaginationQuery,
+  filters: OrderFilters = {}
+): Promise<{ orders: OrderWithItems[]; total: number | null; next_cursor: string | null }> => {
+  const { offset, fetch, afterCreatedAt, afterId } = pageWindow(pagination);
+  const status = filters.status ?? null;
+  const userId = filters.user_id ?? null;
+  const from = filters.from ?? null;
+  const to = filters.to ?? null;
+
+  // Get total count
+  let total: number | null = null;
+  if (pagination.include_total) {
+    const countResult = await sql`
+      SELECT COUNT(*) as count
+      FROM orders
+      WHERE (${status}::text IS NULL OR status = ${status})
+        AND (${userId}::int IS NULL OR user_id = ${userId})
+        AND (${from}::timestamp IS NULL OR created_at >= ${from})
+        AND (${to}::timestamp IS NULL OR created_at < ${to})
+    `;
+
+    total = countResult && countResult[0] ? Number(countResult[0].count) : 0;
+  }
+
+  // Get paginated orders
+  const orders = await sql<Order>`
+    SELECT
+      id, user_id, region, currency, exchange_rate, subtotal, discount_total, tax_total,
+      shipping_total, total_amount, shipping_address, billing_address, status, created_at
+    FROM orders
+    WHERE (${status}::text IS NULL OR status = ${status})
+      AND (${userId}::int IS NULL OR user_id = ${userId})
+      AND (${from}::timestamp IS NULL OR created_at >= ${from})
+      AND (${to}::timestamp IS NULL OR created_at < ${to})
+      AND (${afterCreatedAt}::timestamp IS NULL
+        OR (created_at, id) < (${afterCreatedAt}, ${afterId}))
+    ORDER BY created_at DESC, id DESC
+    LIMIT ${fetch} OFFSET ${offset}
+  `;
+
+  const page = takePage(orders || [], pagination.limit);
+
+  return {
+    orders: await hydrateOrders(page.rows),
+    total,
+    next_cursor: page.next_cursor,
+  };
+};
+
+/**
+ * Get all orders placed by a user, with pagination
+ * @param userId - User ID
+ * @param pagination - Page or cursor, page size and whether to count the total
+ * @returns Promise<{orders: OrderWithItems[], total: number | null, next_cursor: string | null}> -
+ *   Hydrated orders, total count (null unless requested) and the cursor of the next page
+ */
+export const getOrdersByUserId = async (
+  userId: number,
+  pagination: PaginationQuery
+): Promise<{ orders: OrderWithItems[]; total: number | null; next_cursor: string | null }> => {
+  return getAllOrders(pagination, { user_id: userId });
+};
+
+/**
+ * Check whether an order may move from one status to another
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns boolean - True if the transition is allowed
+ */
+export const canTransition = (from: OrderStatus, to: OrderStatus): boolean => {
+  return (ORDER_STATUS_TRANSITIONS[from] ?? []).includes(to);
+};
+
+/**
+ * Move an order to a new status
+ *
+ * The status update, history record and stock reservation changes run in a single
+ * statement. Confirming a pending order commits its active reservations: the reserved
+ * quantities are decremented from stock and recorded as sales in the inventory ledger.
+ * Cancelling an order releases its active reservations and puts committed stock back (as
+ * cancellation movements), and gives the uses of its discounts back. The order row is locked
+ * while the transition is validated and applied, so a concurrent change or payment cannot be
+ * overwritten.
+ *
+ * @param id - Order ID
+ * @param statusData - Target status, actor and reason
+ * @param options - unpaidOnly: refuse the change if the order has pending or completed payments
+ * @returns Promise<Order> - Updated order object
+ * @throws InvalidStatusTransitionError if the transition is not allowed
+ * @throws NotFoundError if order not found
+ * @throws UnprocessableEntityError if unpaidOnly is set and the order has payments
+ */
+export const updateOrderStatus = async (
+  id: number,
+  statusData: OrderStatusChange,
+  options: { unpaidOnly?: boolean } = {}
+): Promise<Order> => {
+  const to = statusData.status;
+  const cancel = to === OrderStatus.CANCELLED;
+
+  const { from, result } = await sql.begin(async (tx) => {
+    // Lock the order: a payment being recorded either finishes first and is seen here, or
+    // waits and then sees the new status
+    const existing = await tx`
+      SELECT o.status, EXISTS (
+        SELECT 1 FROM payments p
+        WHERE p.order_id = o.id AND p.status IN (${PaymentStatus.PENDING}, ${PaymentStatus.COMPLETED})
+      ) AS has_payments
+      FROM orders o
+      WHERE o.id = ${id}
+      FOR UPDATE
+    `;
+
+    if (!existing || existing.length === 0) {
+      throw new NotFoundError('Order', id);
+    }
+
+    const from = existing[0].status as OrderStatus;
+
+    if (!canTransition(from, to)) {
+      throw new InvalidStatusTransitionError(from, to);
+    }
+
+    if (options.unpaidOnly && existing[0].has_payments) {
+      throw new UnprocessableEntityError(
+        `Order with ID ${id} has pending or completed payments`,
+        ErrorCode.ORDER_HAS_PAYMENTS
+      );
+    }
+
+    const commit = from === OrderStatus.PENDING && to === OrderStatus.CONFIRMED;
+
+    const result = await tx<Order>`
+      WITH updated AS (
+        UPDATE orders
+        SET status = ${to}
+        WHERE id = ${id} AND status = ${from}
+        RETURNING
+          id, user_id, region, currency, exchange_rate, subtotal, discount_total, tax_total,
+          shipping_total, total_amount, shipping_address, billing_address, status, created_at
+      ),
+      history AS (
+        INSERT INTO order_status_history (order_id, from_status, to_status, actor, reason)
+        SELECT id, ${from}, ${to}, ${statusData.actor ?? null}, ${statusData.reason ?? null}
+        FROM updated
+      ),
+      held AS (
+        SELECT id, order_id, product_id, variant_id, quantity, status
+        FROM stock_reservations
+        WHERE order_id IN (SELECT id FROM updated)
+          AND (
+            (${commit}::boolean AND status = ${ReservationStatus.ACTIVE})
+            OR (${cancel}::boolean AND status IN (${ReservationStatus.ACTIVE}, ${ReservationStatus.COMMITTED}))
+          )
+        FOR UPDATE
+      ),
+      moved AS (
+        UPDATE stock_reservations r
+        SET
+          status = CASE WHEN ${commit}::boolean THEN ${ReservationStatus.COMMITTED} ELSE ${ReservationStatus.RELEASED} END,
+          updated_at = NOW()
+        FROM held h
+        WHERE r.id = h.id
+        RETURNING
+          h.order_id, h.product_id, h.variant_id,
+          CASE WHEN h.status = ${ReservationStatus.ACTIVE} THEN h.quantity ELSE 0 END AS unreserved,
+          CASE
+            WHEN ${commit}::boolean THEN -h.quantity
+            WHEN h.status = ${ReservationStatus.COMMITTED} THEN h.quantity
+            ELSE 0
+          END AS stock_change
+      ),
+      products_moved AS (
+        UPDATE products p
+        SET stock = p.stock + m.stock_change, reserved = p.reserved - m.unreserved
+        FROM (
+          SELECT product_id, SUM(stock_change) AS stock_change, SUM(unreserved) AS unreserved
+          FROM moved
+          WHERE variant_id IS NULL
+          GROUP BY product_id
+        ) m
+        WHERE p.id = m.product_id
+      ),
+      variants_moved AS (
+        UPDATE product_variants v
+        SET stock = v.stock + m.stock_change, reserved = v.reserved - m.unreserved
+        FROM (
+          SELECT variant_id, SUM(stock_change) AS stock_change, SUM(unreserved) AS unreserved
+          FROM moved
+          WHERE variant_id IS NOT NULL
+          GROUP BY variant_id
+        ) m
+        WHERE v.id = m.variant_id
+      ),
+      movements AS (
+        INSERT INTO inventory_movements (product_id, variant_id, quantity, reason, order_id, actor)
+        SELECT
+          product_id, variant_id, SUM(stock_change),
+          CASE WHEN ${commit}::boolean THEN ${InventoryMovementReason.SALE} ELSE ${InventoryMovementReason.CANCELLATION} END,
+          order_id, ${statusData.actor ?? null}
+        FROM moved
+        GROUP BY order_id, product_id, variant_id
+        HAVING SUM(stock_change) <> 0
+      ),
+      discounts_released AS (
+        UPDATE discounts d
+        SET times_used = d.times_used - 1
+        FROM order_discounts od
+        WHERE ${cancel}::boolean AND od.order_id IN (SELECT id FROM updated) AND d.id = od.discount_id
+      ),
+      redemptions_released AS (
+        UPDATE discount_redemptions r
+        SET times_used = r.times_used - 1
+        FROM order_discounts od
+        JOIN updated u ON u.id = od.order_id
+        WHERE ${cancel}::boolean AND r.discount_id = od.discount_id AND r.user_id = u.user_id
+      )
+      SELECT * FROM updated
+    `;
+
+    return { from, result };
+  });
+
+  // Another request changed the status after it was read
+  if (!result || result.length === 0) {
+    throw new InvalidStatusTransitionError(from, to);
+  }
+
+  logger.info('order status changed', { order_id: id, from, to, actor: statusData.actor });
+
+  // Released and returned stock can lift products back above their reorder threshold
+  if (cancel) {
+    const lines = await sql`
+      SELECT DISTINCT product_id FROM order_items
+      WHERE order_id = ${id} AND variant_id IS NULL
+    `;
+    await checkStockThresholds((lines || []).map((line) => Number(line.product_id)));
+  }
+
+  return result[0];
+};
+
+/**
+ * Get the status history of an order, oldest first
+ * @param id - Order ID
+ * @returns Promise<OrderStatusHistory[]> - Status transitions
+ * @throws NotFoundError if order not found
+ */
+export const getOrderStatusHistory = async (id: number): Promise<OrderStatusHistory[]> => {
+  const order = await sql`
+    SELECT 1 FROM orders WHERE id = ${id}
+  `;
+
+  if (!order || order.length === 0) {
+    throw new NotFoundError('Order', id);
+  }
+
+  const result = await sql<OrderStatusHistory>`
+    SELECT id, order_id, from_status, to_status, actor, reason, created_at
+    FROM order_status_history
+    WHERE order_id = ${id}
+    ORDER BY created_at, id
+  `;
+
+  return result || [];
+};
+
+/**
+ * Order Service - Exported as functional module
+ */
+const orderService = {
+  quoteOrder,
+  createOrder,
+  getOrderById,
+  getOrderOwnerId,
+  getAllOrders,
+  getOrdersByUserId,
+  canTransition,
+  updateOrderStatus,
+  getOrderStatusHistory,
+};
+
+export default orderService;
@@ -0,0 +1,102 @@
+import { randomUUID } from 'crypto';
+import { PaymentStatus, RefundStatus } from '../types/index';
+
+/**
+ * Charge request sent to a payment provider
+ */
+export interface ChargeRequest {
+  order_id: number;
+  amount: number;
+  currency: string;
+  payment_method: string;
+}
+
+/**
+ * Outcome of a charge as reported by the provider
+ */
+export interface ChargeResult {
+  status: PaymentStatus.COMPLETED | PaymentStatus.FAILED;
+  transaction_id: string;
+  failure_reason?: string;
+}
+
+/**
+ * Refund request sent to a payment provider, referencing the original charge
+ */
+export interface ProviderRefundRequest {
+  transaction_id: string;
+  amount: number;
+  currency: string;
+}
+
+/**
+ * Outcome of a refund as reported by the provider
+ */
+export interface ProviderRefundResult {
+  status: RefundStatus.COMPLETED | RefundStatus.FAILED;
+  transaction_id: string;
+  failure_reason?: string;
+}
+
+/**
+ * Contract every payment gateway integration must fulfil
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  charge(request: ChargeRequest): Promise<ChargeResult>;
+  refund(request: ProviderRefundRequest): Promise<ProviderRefundResult>;
+}
+
+/**
+ * In-process provider for development.
+ * Approves every charge unless the payment method is listed in `declinedMethods`.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+  private readonly declinedMethods: Set<string>;
+
+  constructor(declinedMethods: string[] = ['declined_card']) {
+    this.declinedMethods = new Set(declinedMethods);
+  }
+
+  async charge(request: ChargeRequest): Promise<ChargeResult> {
+    if (this.declinedMethods.has(request.payment_method)) {
+      return {
+        status: PaymentStatus.FAILED,
+        transaction_id: `fake_${randomUUID()}`,
+        failure_reason: 'Card declined',
+      };
+    }
+
+    return {
+      status: PaymentStatus.COMPLETED,
+      transaction_id: `fake_${randomUUID()}`,
+    };
+  }
+
+  async refund(_request: ProviderRefundRequest): Promise<ProviderRefundResult> {
+    return {
+      status: RefundStatus.COMPLETED,
+      transaction_id: `fake_refund_${randomUUID()}`,
+    };
+  }
+}
+
+/**
+ * Build the payment provider named in the configuration
+ * @param name - Provider name
+ * @param nodeEnv - Runtime environment; the fake provider is refused in production
+ * @returns PaymentProvider - Provider instance
+ * @throws Error if the provider is unknown or not allowed in this environment
+ */
+export const createPaymentProvider = (name: string, nodeEnv: string): PaymentProvider => {
+  switch (name) {
+    case 'fake':
+      if (nodeEnv === 'production') {
+        throw new Error('The fake payment provider approves every charge; configure a real one');
+      }
+      return new FakePaymentProvider();
+    default:
+      throw new Error(`Unknown payment provider: ${name}`);
+  }
+};
@@ -0,0 +1,271 @@
+import sql from '../config/database';
+import {
+  ErrorCode,
+  InvalidStatusTransitionError,
+  NotFoundError,
+  UnprocessableEntityError,
+} from '../middleware/errorHandler';
+import { CreatePaymentRequest, Order, OrderStatus, Payment, PaymentStatus } from '../types/index';
+import { fromCents, toCents } from '../utils/helpers';
+import logger, { serializeError } from '../utils/logger';
+import orderService from './orderService';
+import { PaymentProvider } from './paymentProvider';
+
+// Set on startup from the configuration (see createPaymentProvider)
+let provider: PaymentProvider | null = null;
+
+/**
+ * Replace the payment provider used for new charges
+ * @param paymentProvider - Provider implementation
+ */
+export const setPaymentProvider = (paymentProvider: PaymentProvider): void => {
+  provider = paymentProvider;
+};
+
+/**
+ * Get the payment provider currently in use
+ * @returns PaymentProvider - Active provider
+ * @throws Error if no provider has been set
+ */
+export const getPaymentProvider = (): PaymentProvider => {
+  if (!provider) {
+    throw new Error('No payment provider configured');
+  }
+  return provider;
+};
+
+/**
+ * Confirm a pending order once its completed payments cover the total amount
+ * @param orderId - Order ID
+ * @param paymentId - Payment that triggered the check (recorded in the status history)
+ */
+const confirmOrderIfPaid = async (orderId: number, paymentId: number): Promise<void> => {
+  const result = await sql<Pick<Order, 'status' | 'total_amount'> & { paid: string }>`
+    SELECT o.status, o.total_amount,
+      COALESCE(SUM(p.amount) FILTER (WHERE p.status = ${PaymentStatus.COMPLETED}), 0) AS paid
+    FROM orders o
+    LEFT JOIN payments p ON p.order_id = o.id
+    WHERE o.id = ${orderId}
+    GROUP BY o.id
+  `;
+
+  if (!result || result.length === 0) {
+    return;
+  }
+
+  const { status, total_amount, paid } = result[0];
+
+  if (status !== OrderStatus.PENDING || toCents(paid) < toCents(total_amount)) {
+    return;
+  }
+
+  try {
+    await orderService.updateOrderStatus(orderId, {
+      status: OrderStatus.CONFIRMED,
+      actor: 'system:payments',
+      reason: `Payment ${paymentId} completed`,
+    });
+  } catch (error) {
+    // The order was moved on concurrently; nothing left to confirm
+    if (!(error instanceof InvalidStatusTransitionError)) {
+      throw error;
+    }
+  }
+};
+
+/**
+ * Create and process a payment for an order
+ *
+ * The payment is recorded as pending before the provider is called, then updated with the
+ * provider's outcome and transaction ID. The balance check counts pending attempts and runs
+ * with the order locked, so concurrent payments cannot overcharge it. A completed payment that
+ * brings the paid total up to the order's total_amount confirms the order.
+ *
+ * @param paymentData - Payment data (order_id, amount, optional currency, payment_method)
+ * @returns Promise<Payment> - Payment object with its final status, in the order's currency
+ * @throws NotFoundError if order not found
+ * @throws UnprocessableEntityError if the order is not payable, the currency is not the order's
+ *   or amount exceeds the outstanding balance
+ */
+export const createPayment = async (paymentData: CreatePaymentRequest): Promise<Payment> => {
+  // The order row stays locked until the attempt is recorded, so concurrent payments see each
+  // other and a concurrent cancellation either comes first or sees this payment
+  const { paymentId, currency } = await sql.begin(async (tx) => {
+    const orderResult = await tx<Pick<Order, 'status' | 'total_amount' | 'currency'>>`
+      SELECT status, total_amount, currency
+      FROM orders
+      WHERE id = ${paymentData.order_id}
+      FOR UPDATE
+    `;
+
+    if (!orderResult || orderResult.length === 0) {
+      throw new NotFoundError('Order', paymentData.order_id);
+    }
+
+    const { status, total_amount, currency } = orderResult[0];
+
+    if (status === OrderStatus.CANCELLED) {
+      throw new UnprocessableEntityError(
+        `Order with ID ${paymentData.order_id} is cancelled`,
+        ErrorCode.ORDER_NOT_PAYABLE
+      );
+    }
+
+    if (paymentData.currency !== undefined && paymentData.currency !== currency) {
+      throw new UnprocessableEntityError(
+        `Order with ID ${paymentData.order_id} is payable in ${currency}`,
+        ErrorCode.CURRENCY_MISMATCH,
+        { currency }
+      );
+    }
+
+    // Attempts still with the provider count against the balance until they fail
+    const paidResult = await tx<{ paid: string }>`
+      SELECT COALESCE(SUM(amount), 0) AS paid
+      FROM payments
+      WHERE order_id = ${paymentData.order_id}
+        AND status IN (${PaymentStatus.PENDING}, ${PaymentStatus.COMPLETED})
+    `;
+
+    const outstanding = toCents(total_amount) - toCents(paidResult[0].paid);
+    if (toCents(paymentData.amount) > outstanding) {
+      throw new UnprocessableEntityError(
+        `Payment amount exceeds outstanding balance of ${fromCents(outstanding).toFixed(2)}`,
+        ErrorCode.PAYMENT_EXCEEDS_BALANCE
+      );
+    }
+
+    // Record the attempt before charging
+    const pending = await tx`
+      INSERT INTO payments (order_id, amount, currency, status, payment_method)
+      VALUES (
+        ${paymentData.order_id},
+        ${paymentData.amount},
+        ${currency},
+        ${PaymentStatus.PENDING},
+        ${paymentData.payment_method}
+      )
+      RETURNING id
+    `;
+
+    if (!pending || pending.length === 0) {
+      throw new Error('Failed to create payment');
+    }
+
+    return { paymentId: Number(pending[0].id), currency };
+  });
+
+  let outcome: { status: PaymentStatus; transaction_id: string | null };
+  try {
+    outcome = await getPaymentProvider().charge({
+      order_id: paymentData.order_id,
+      amount: paymentData.amount,
+      currency,
+      payment_method: paymentData.payment_method,
+    });
+  } catch (error) {
+    logger.error('payment provider charge failed', {
+      payment_id: paymentId,
+      error: serializeError(error),
+    });
+    outcome = { status: PaymentStatus.FAILED, transaction_id: null };
+  }
+
+  logger.info('payment processed', {
+    payment_id: paymentId,
+    order_id: paymentData.order_id,
+    amount: paymentData.amount,
+    currency,
+    status: outcome.status,
+  });
+
+  const result = await sql<Payment>`
+    UPDATE payments
+    SET status = ${outcome.status}, transaction_id = ${outcome.transaction_id}, updated_at = NOW()
+    WHERE id = ${paymentId}
+    RETURNING id, order_id, amount, currency, status, payment_method, transaction_id, created_at,
+      updated_at
+  `;
+
+  if (!result || result.length === 0) {
+    throw new Error('Failed to update payment');
+  }
+
+  if (outcome.status === PaymentStatus.COMPLETED) {
+    await confirmOrderIfPaid(paymentData.order_id, paymentId);
+  }
+
+  return result[0];
+};
+
+/**
+ * Get payment by ID
+ * @param id - Payment ID
+ * @returns Promise<Payment | null> - Payment object or null if not found
+ */
+export const getPaymentById = async (id: number): Promise<Payment | null> => {
+  const result = await sql<Payment>`
+    SELECT id, order_id, amount, currency, status, payment_method, transaction_id, created_at,
+      updated_at
+    FROM payments
+    WHERE id = ${id}
+  `;
+
+  return result && result.length > 0 ? result[0] : null;
+};
+
+/**
+ * Get the ID of the user who owns the order a payment belongs to
+ * @param id - Payment ID
+ * @returns Promise<number | null> - Owner user ID or null if the payment does not exist
+ */
+export const getPaymentOwnerId = async (id: number): Promise<number | null> => {
+  const result = await sql`
+    SELECT o.user_id
+    FROM payments p
+    JOIN orders o ON o.id = p.order_id
+    WHERE p.id = ${id}
+  `;
+
+  return result && result.length > 0 ? Number(result[0].user_id) : null;
+};
+
+/**
+ * Get all payments for an order, oldest first
+ * @param orderId - Order ID
+ * @returns Promise<Payment[]> - Payments for the order
+ * @throws NotFoundError if order not found
+ */
+export const getPaymentsByOrderId = async (orderId: number): Promise<Payment[]> => {
+  const order = await sql`
+    SELECT 1 FROM orders WHERE id = ${orderId}
+  `;
+
+  if (!order || order.length === 0) {
+    throw new NotFoundError('Order', orderId);
+  }
+
+  const result = await sql<Payment>`
+    SELECT id, order_id, amount, currency, status, payment_method, transaction_id, created_at,
+      updated_at
+    FROM payments
+    WHERE order_id = ${orderId}
+    ORDER BY created_at, id
+  `;
+
+  return result || [];
+};
+
+/**
+ * Payment Service - Exported as functional module
+ */
+const paymentService = {
+  setPaymentProvider,
+  getPaymentProvider,
+  createPayment,
+  getPaymentById,
+  getPaymentOwnerId,
+  getPaymentsByOrderId,
+};
+
+export default paymentService;
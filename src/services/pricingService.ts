@@ -0,0 +1,222 @@
+// Order pricing pipeline: lines at current prices -> discounts -> tax -> shipping -> total
+// Tax rules and shipping rate strategies are pluggable; see taxRules.ts and shippingRates.ts
+// Prices are converted into the order currency at the current exchange rates up front, so every
+// later step works in order currency cents
+
+import sql from '../config/database';
+import { ErrorCode, UnprocessableEntityError } from '../middleware/errorHandler';
+import { OrderItemInput, OrderQuote, OrderQuoteLine } from '../types/index';
+import { convertCents, divideRounded, fromCents, percentOfCents, toCents } from '../utils/helpers';
+import logger from '../utils/logger';
+import { getBaseCurrency, getRates } from './currencyService';
+import { applyDiscounts, PricedLine } from './discountService';
+import { FlatRateShipping, ShippingRateStrategy } from './shippingRates';
+import { RegionCategoryTaxRule, TaxRule } from './taxRules';
+
+// Order amounts are stored as NUMERIC(14,2)
+const MAX_ORDER_CENTS = 99_999_999_999_999;
+
+let taxRule: TaxRule = new RegionCategoryTaxRule();
+let shippingStrategy: ShippingRateStrategy = new FlatRateShipping(0);
+
+// Priced line with the variant it draws on and its total shipping weight
+interface QuotedLine extends PricedLine {
+  variant_id: number | null;
+  weightGrams: number;
+}
+
+/**
+ * Replace the tax rule used to price orders
+ * @param rule - Tax rule implementation
+ */
+export const setTaxRule = (rule: TaxRule): void => {
+  taxRule = rule;
+};
+
+/**
+ * Replace the shipping rate strategy used to price orders
+ * @param strategy - Shipping rate strategy implementation
+ */
+export const setShippingStrategy = (strategy: ShippingRateStrategy): void => {
+  shippingStrategy = strategy;
+  logger.info('shipping strategy set', { strategy: strategy.name });
+};
+
+/**
+ * Price each line at the current product price, or its variant's price override, converted
+ * from the product currency into the order currency
+ * @param items - Normalized order items
+ * @param currency - Order currency
+ * @returns Promise<{lines: QuotedLine[], exchangeRate: string}> - Lines in the order given and
+ *   the rate of the order currency
+ * @throws UnprocessableEntityError if a product (or the product's variant) does not exist, or
+ *   a currency has no rate in effect
+ */
+const loadLines = async (
+  items: OrderItemInput[],
+  currency: string
+): Promise<{ lines: QuotedLine[]; exchangeRate: string }> => {
+  const rows = await sql`
+    SELECT
+      r.ordinality, r.product_id, v.id AS variant_id, r.quantity,
+      COALESCE(v.price, p.price) AS price, p.currency, p.weight_grams
+    FROM unnest(
+      ${items.map((item) => item.product_id)}::int[],
+      ${items.map((item) => item.variant_id ?? null)}::int[],
+      ${items.map((item) => item.quantity)}::int[]
+    ) WITH ORDINALITY AS r(product_id, variant_id, quantity, ordinality)
+    JOIN products p ON p.id = r.product_id
+    LEFT JOIN product_variants v ON v.id = r.variant_id AND v.product_id = r.product_id
+    WHERE r.variant_id IS NULL OR v.id IS NOT NULL
+    ORDER BY r.ordinality
+  `;
+
+  const found = new Set((rows || []).map((row) => Number(row.ordinality) - 1));
+  const missing = items.find((_item, index) => !found.has(index));
+  if (missing) {
+    throw new UnprocessableEntityError(
+      missing.variant_id === undefined
+        ? `Product with ID ${missing.product_id} does not exist`
+        : `Product with ID ${missing.product_id} has no variant with ID ${missing.variant_id}`
+    );
+  }
+
+  const rates = await getRates([currency, ...rows.map((row) => row.currency as string)]);
+  const exchangeRate = rates.get(currency) as string;
+
+  const lines = rows.map((row) => {
+    const fromRate = rates.get(row.currency as string) as string;
+
+    return {
+      product_id: Number(row.product_id),
+      variant_id: row.variant_id === null ? null : Number(row.variant_id),
+      quantity: Number(row.quantity),
+      priceCents: convertCents(toCents(row.price as string), fromRate, exchangeRate),
+      weightGrams: Number(row.weight_grams) * Number(row.quantity),
+    };
+  });
+
+  return { lines, exchangeRate };
+};
+
+/**
+ * Split an order-level amount across lines in proportion to their amounts.
+ * Shares are rounded on the running total, so they always add up to the amount.
+ * @param amountCents - Amount to split
+ * @param lineCents - Line amounts
+ * @returns number[] - Share of each line, in cents
+ */
+export const allocate = (amountCents: number, lineCents: number[]): number[] => {
+  const totalCents = lineCents.reduce((sum, cents) => sum + cents, 0);
+  if (totalCents === 0) {
+    return lineCents.map(() => 0);
+  }
+
+  let runningCents = 0;
+  let allocatedCents = 0;
+
+  return lineCents.map((cents) => {
+    runningCents += cents;
+    const share =
+      Number(divideRounded(BigInt(runningCents) * BigInt(amountCents), BigInt(totalCents))) -
+      allocatedCents;
+    allocatedCents += share;
+    return share;
+  });
+};
+
+/**
+ * Price an order without placing it
+ *
+ * Lines are priced at current prices in the order currency, then promotions and discount codes
+ * are applied. Each line is taxed at its rate for the region on its amount less its share of
+ * the discounts, rounded per line. Shipping is charged on the discounted subtotal and total
+ * weight; shipping rates are set in the base currency and converted.
+ *
+ * @param userId - User placing the order (per-user discount limits)
+ * @param items - Normalized order items
+ * @param discountCodes - Discount codes entered with the order
+ * @param region - ISO 3166 code to tax the order for; null leaves it untaxed
+ * @param currency - ISO 4217 code to price the order in (default: the base currency)
+ * @returns Promise<OrderQuote> - Lines with their tax, discounts and the order totals, and the
+ *   exchange rate the order currency was priced at
+ * @throws UnprocessableEntityError if a product is missing, a currency is not supported, a
+ *   discount code does not apply or the total is too large to store
+ */
+export const priceOrder = async (
+  userId: number,
+  items: OrderItemInput[],
+  discountCodes: string[] = [],
+  region: string | null = null,
+  currency: string = getBaseCurrency()
+): Promise<OrderQuote> => {
+  const { lines, exchangeRate } = await loadLines(items, currency);
+  const lineCents = lines.map((line) => line.priceCents * line.quantity);
+  const subtotalCents = lineCents.reduce((sum, cents) => sum + cents, 0);
+
+  const discounts = await applyDiscounts(userId, lines, discountCodes, exchangeRate);
+  const discountCents = discounts.reduce((sum, discount) => sum + toCents(discount.amount), 0);
+  const discountShares = allocate(discountCents, lineCents);
+
+  const rates = await taxRule.rates(
+    lines.map((line) => line.product_id),
+    region
+  );
+
+  const taxCents = lines.map((_line, index) =>
+    percentOfCents(lineCents[index] - discountShares[index], rates[index])
+  );
+  const taxTotalCents = taxCents.reduce((sum, cents) => sum + cents, 0);
+
+  const baseShippingCents = await shippingStrategy.rate({
+    region,
+    merchandise_cents: convertCents(subtotalCents - discountCents, exchangeRate, 1),
+    weight_grams: lines.reduce((sum, line) => sum + line.weightGrams, 0),
+  });
+  const shippingCents = convertCents(baseShippingCents, 1, exchangeRate);
+
+  // Bounds every stored amount: no line, total or discount exceeds this sum
+  const grossCents = subtotalCents + taxTotalCents + shippingCents;
+  if (grossCents > MAX_ORDER_CENTS) {
+    throw new UnprocessableEntityError(
+      `Order total exceeds ${fromCents(MAX_ORDER_CENTS).toFixed(2)} ${currency}`,
+      ErrorCode.ORDER_TOTAL_TOO_LARGE,
+      { max_total: fromCents(MAX_ORDER_CENTS).toFixed(2), currency }
+    );
+  }
+
+  const quoteLines: OrderQuoteLine[] = lines.map((line, index) => ({
+    product_id: line.product_id,
+    variant_id: line.variant_id,
+    quantity: line.quantity,
+    price: fromCents(line.priceCents),
+    line_total: fromCents(lineCents[index]),
+    discount: fromCents(discountShares[index]),
+    tax_rate: rates[index],
+    tax: fromCents(taxCents[index]),
+  }));
+
+  return {
+    currency,
+    exchange_rate: exchangeRate,
+    region,
+    items: quoteLines,
+    subtotal: fromCents(subtotalCents),
+    discounts,
+    discount_total: fromCents(discountCents),
+    tax_total: fromCents(taxTotalCents),
+    shipping_total: fromCents(shippingCents),
+    total: fromCents(subtotalCents - discountCents + taxTotalCents + shippingCents),
+  };
+};
+
+/**
+ * Pricing Service - Exported as functional module
+ */
+const pricingService = {
+  setTaxRule,
+  setShippingStrategy,
+  priceOrder,
+};
+
+export default pricingService;
@@ -1,187 +1,486 @@
 import sql from '../config/database';
-import { CreateProductRequest, Product, UpdateProductRequest } from '../types';
+import {
+  ConflictError,
+  ErrorCode,
+  NotFoundError,
+  UnprocessableEntityError,
+} from '../middleware/errorHandler';
+import {
+  Category,
+  CreateProductRequest,
+  InventoryMovementReason,
+  Product,
+  ProductFacets,
+  ProductFilters,
+  ProductSort,
+  PaginationQuery,
+  ProductSortField,
+  ProductWithCategories,
+  UpdateProductRequest,
+} from '../types';
+import { pageWindow, takePage } from '../utils/helpers';
+import { getCategorySubtreeIds } from './categoryService';
+import {
+  assertSupportedCurrency,
+  getBaseCurrency,
+  getCurrentExchangeRates,
+  getRates,
+} from './currencyService';
+import { checkStockThresholds } from './inventoryService';
 
 /**
  * Create a new product
  * @param prouductData - Product creation data (name, email)
  * @returns Promise<Product> - Created product object
- * @throws Error if email is already taken or database error occurs
+ * @throws ConflictError if name is already taken
+ * @throws UnprocessableEntityError if the currency has no exchange rate in effect
  */
 export const createProduct = async (productData: CreateProductRequest): Promise<Product> => {
-  try {
-    // Check if product already exists
-    const existingProduct = await sql`
-      SELECT id FROM products WHERE name = ${productData.name}
-    `;
+  if (productData.currency !== undefined) {
+    await assertSupportedCurrency(productData.currency);
+  }
 
-    console.log(existingProduct, 'existingProduct');
+  // Check if product already exists
+  const existingProduct = await sql`
+    SELECT id FROM products WHERE name = ${productData.name}
+  `;
 
-    if (existingProduct && existingProduct.length > 0) {
-      throw new Error(`Name ${productData.name} is already in use`);
-    }
+  if (existingProduct && existingProduct.length > 0) {
+    throw new ConflictError(`Name ${productData.name} is already in use`);
+  }
 
-    // // Insert new product
-    const result = await sql`
-      INSERT INTO products (name, price, stock)
-      VALUES (${productData.name}, ${productData.price}, ${productData.stock})
-      RETURNING id, name, price, stock, created_at
-    `;
+  // // Insert new product, recording its initial stock in the inventory ledger
+  const result = await sql<Product>`
+    WITH inserted AS (
+      INSERT INTO products (name, price, currency, stock, reorder_threshold, weight_grams)
+      VALUES (
+        ${productData.name},
+        ${productData.price},
+        ${productData.currency ?? getBaseCurrency()},
+        ${productData.stock},
+        ${productData.reorder_threshold ?? null},
+        ${productData.weight_grams ?? 0}
+      )
+      RETURNING
+        id, name, price, currency, stock, stock - reserved AS available, reorder_threshold,
+        weight_grams, created_at
+    ),
+    movement AS (
+      INSERT INTO inventory_movements (product_id, quantity, reason, note)
+      SELECT id, stock, ${InventoryMovementReason.RESTOCK}, 'Initial stock'
+      FROM inserted
+      WHERE stock > 0
+    )
+    SELECT * FROM inserted
+  `;
 
-    if (!result || result.length === 0) {
-      throw new Error('Failed to create product');
-    }
+  if (!result || result.length === 0) {
+    throw new Error('Failed to create product');
+  }
 
-    return result[0] as Product;
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to create product: ${error.message}`);
-    }
-    throw error;
+  const product = result[0];
+
+  // A product can start out at or below its threshold
+  if (product.reorder_threshold !== null) {
+    await checkStockThresholds([product.id]);
   }
+
+  return product;
+};
+
+// Upper bounds of the price facet buckets; the last bucket is open-ended
+const PRICE_BUCKET_BOUNDS = [25, 50, 100, 250, 500];
+
+// Whitelisted ORDER BY expressions; $1 is the search query
+const SORT_EXPRESSIONS: Record<ProductSortField, string> = {
+  name: 'name',
+  price: 'listing_price',
+  stock: 'stock',
+  created_at: 'created_at',
+  relevance: "ts_rank(search_vector, to_tsquery('english', $1))",
 };
 
+const NEWEST_FIRST: ProductSort = { field: 'created_at', direction: 'desc' };
+const BY_RELEVANCE: ProductSort = { field: 'relevance', direction: 'desc' };
+
 /**
- * Get all products with pagination
- * @param page - Page number (default: 1)
- * @param limit - Items per page (default: 10)
- * @returns Promise<{products: Product[], total: number}> - Products and total count
+ * Turn free text into a prefix-matching tsquery, so "wire mou" finds "Wireless Mouse"
+ * @param text - Search text as typed
+ * @returns string | null - tsquery source, or null if the text has no words
+ */
+const toSearchQuery = (text: string): string | null => {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  return words ? words.map((word) => `${word}:*`).join(' & ') : null;
+};
+
+// Exchange rates for pricing products in a listing currency
+interface ListingRates {
+  rate: string; // listing currency, per unit of the base currency
+  currencies: string[];
+  rates: string[]; // of each currency in currencies
+}
+
+/**
+ * Get the current exchange rates for pricing products in a listing currency, so price filters,
+ * sorting and facets compare converted prices rather than prices in different currencies
+ * @param currency - Listing currency (default: the base currency)
+ * @returns Promise<ListingRates> - Rate of the listing currency and of every supported currency
+ * @throws UnprocessableEntityError if the listing currency has no rate in effect
+ */
+const getListingRates = async (currency: string = getBaseCurrency()): Promise<ListingRates> => {
+  const base = getBaseCurrency();
+  const rate = (await getRates([currency])).get(currency) as string;
+  const current = (await getCurrentExchangeRates()).filter(
+    (exchangeRate) => exchangeRate.currency !== base
+  );
+
+  return {
+    rate,
+    currencies: [base, ...current.map((exchangeRate) => exchangeRate.currency)],
+    rates: ['1', ...current.map((exchangeRate) => String(exchangeRate.rate))],
+  };
+};
+
+/**
+ * Count matching products and their facets
+ *
+ * Matches are grouped per price bucket, availability and price-range match; the total and every
+ * facet are sums over those few rows.
+ *
+ * @param search - tsquery source, or null for no text search
+ * @param categoryIds - Category subtree to match, or null for any category
+ * @param filters - Price range and in-stock flag
+ * @param rates - Exchange rates into the listing currency the price range and buckets are in
+ * @returns Promise<{total: number, facets: ProductFacets}> - Total count and facet counts
+ */
+const countProducts = async (
+  search: string | null,
+  categoryIds: number[] | null,
+  filters: ProductFilters,
+  rates: ListingRates
+): Promise<{ total: number; facets: ProductFacets }> => {
+  const minPrice = filters.min_price ?? null;
+  const maxPrice = filters.max_price ?? null;
+  const inStock = filters.in_stock ?? false;
+
+  const facetRows = await sql`
+    WITH priced AS (
+      SELECT p.*, ROUND(p.price * ${rates.rate}::numeric / r.rate, 2) AS listing_price
+      FROM products p
+      LEFT JOIN unnest(${rates.currencies}::text[], ${rates.rates}::numeric[]) AS r(currency, rate)
+        ON r.currency = p.currency
+    )
+    SELECT
+      width_bucket(listing_price, ${PRICE_BUCKET_BOUNDS}::numeric[]) AS bucket,
+      stock - reserved > 0 AS in_stock,
+      (${minPrice}::numeric IS NULL OR listing_price >= ${minPrice})
+        AND (${maxPrice}::numeric IS NULL OR listing_price <= ${maxPrice}) AS price_match,
+      COUNT(*) AS count
+    FROM priced
+    WHERE (${search}::text IS NULL OR search_vector @@ to_tsquery('english', ${search}))
+      AND (${categoryIds}::int[] IS NULL OR id IN (
+        SELECT product_id FROM product_categories WHERE category_id = ANY(${categoryIds}::int[])
+      ))
+    GROUP BY 1, 2, 3
+  `;
+
+  const counts = (facetRows || []).map((row) => ({
+    // Products in a currency without a rate have no listing price and fall in no bucket
+    bucket: row.bucket === null ? null : Number(row.bucket),
+    inStock: Boolean(row.in_stock),
+    priceMatch: Boolean(row.price_match),
+    count: Number(row.count),
+  }));
+  const sum = (rows: typeof counts) => rows.reduce((total, row) => total + row.count, 0);
+  const stockMatches = (row: (typeof counts)[number]) => row.inStock || !inStock;
+
+  return {
+    total: sum(counts.filter((row) => row.priceMatch && stockMatches(row))),
+    facets: {
+      price: [0, ...PRICE_BUCKET_BOUNDS].map((min, bucket) => ({
+        min,
+        max: PRICE_BUCKET_BOUNDS[bucket] ?? null,
+        count: sum(counts.filter((row) => row.bucket === bucket && stockMatches(row))),
+      })),
+      availability: {
+        in_stock: sum(counts.filter((row) => row.priceMatch && row.inStock)),
+        out_of_stock: sum(counts.filter((row) => row.priceMatch && !row.inStock)),
+      },
+    },
+  };
+};
+
+/**
+ * Search products with filters, sorting, facet counts and pagination
+ *
+ * Cursor pages are always newest first; other sort orders only support page mode, so they
+ * return no next_cursor. Prices are compared in the listing currency at the current exchange
+ * rates; the products themselves are returned in their own currency.
+ *
+ * @param pagination - Page or cursor, page size and whether to count the total and facets
+ * @param filters - Optional category subtree, search text, price range, in-stock flag and the
+ *   listing currency the price range is in
+ * @param sort - Sort keys in priority order (default: relevance when searching, then newest)
+ * @returns Promise<{products, total, facets, next_cursor}> - Products, total count and facet
+ *   counts (null unless requested) and the cursor of the next page
  */
 export const getAllProducts = async (
-  page: number = 1,
-  limit: number = 10
-): Promise<{ products: Product[]; total: number }> => {
-  try {
-    const offset = (page - 1) * limit;
-
-    // Get total count
-    const countResult = await sql`
-      SELECT COUNT(*) as count FROM products
-    `;
+  pagination: PaginationQuery,
+  filters: ProductFilters = {},
+  sort: ProductSort[] = []
+): Promise<{
+  products: Product[];
+  total: number | null;
+  facets: ProductFacets | null;
+  next_cursor: string | null;
+}> => {
+  const { offset, fetch, afterCreatedAt, afterId } = pageWindow(pagination);
+  const search = filters.q ? toSearchQuery(filters.q) : null;
+  const categoryIds =
+    filters.category_id !== undefined ? await getCategorySubtreeIds(filters.category_id) : null;
 
-    const total = countResult && countResult[0] ? Number((countResult[0] as any).count) : 0;
+  const rates = await getListingRates(filters.currency);
 
-    // Get paginated products
-    const products = await sql`
-      SELECT id, name, price, stock, created_at
-      FROM products
-      ORDER BY created_at DESC
-      LIMIT ${limit} OFFSET ${offset}
-    `;
+  const counted = pagination.include_total
+    ? await countProducts(search, categoryIds, filters, rates)
+    : null;
 
-    return {
-      products: (products || []) as Product[],
-      total,
-    };
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to fetch products: ${error.message}`);
-    }
-    throw error;
+  // Cursor pages always continue newest first, so relevance only leads in page mode
+  const defaultOrder: ProductSort[] =
+    search && !pagination.cursor ? [BY_RELEVANCE, NEWEST_FIRST] : [NEWEST_FIRST];
+  const order = sort.length > 0 ? sort : defaultOrder;
+  const keyset =
+    order.length === 1 && order[0].field === 'created_at' && order[0].direction === 'desc';
+
+  const orderBy = order
+    .map(({ field, direction }) => `${SORT_EXPRESSIONS[field]} ${direction.toUpperCase()}`)
+    .concat('id DESC')
+    .join(', ');
+
+  // Get paginated products
+  const products = await sql.query<Product>(
+    `
+    WITH priced AS (
+      SELECT p.*, ROUND(p.price * $10::numeric / r.rate, 2) AS listing_price
+      FROM products p
+      LEFT JOIN unnest($11::text[], $12::numeric[]) AS r(currency, rate) ON r.currency = p.currency
+    )
+    SELECT
+      id, name, price, currency, stock, stock - reserved AS available, reorder_threshold,
+      weight_grams, created_at
+    FROM priced
+    WHERE ($1::text IS NULL OR search_vector @@ to_tsquery('english', $1))
+      AND ($2::int[] IS NULL OR id IN (
+        SELECT product_id FROM product_categories WHERE category_id = ANY($2)
+      ))
+      AND ($3::numeric IS NULL OR listing_price >= $3)
+      AND ($4::numeric IS NULL OR listing_price <= $4)
+      AND (NOT $5::boolean OR stock - reserved > 0)
+      AND ($6::timestamp IS NULL OR (created_at, id) < ($6, $7))
+    ORDER BY ${orderBy}
+    LIMIT $8 OFFSET $9
+    `,
+    [
+      search,
+      categoryIds,
+      filters.min_price ?? null,
+      filters.max_price ?? null,
+      filters.in_stock ?? false,
+      afterCreatedAt,
+      afterId,
+      fetch,
+      offset,
+      rates.rate,
+      rates.currencies,
+      rates.rates,
+    ]
+  );
+
+  const page = takePage(products || [], pagination.limit, keyset);
+
+  return {
+    products: page.rows,
+    total: counted?.total ?? null,
+    facets: counted?.facets ?? null,
+    next_cursor: page.next_cursor,
+  };
+};
+
+/**
+ * Get product by ID, with the categories it is listed in
+ * @param id - Product ID
+ * @returns Promise<ProductWithCategories | null> - Product object or null if not found
+ */
+export const getProductById = async (id: number): Promise<ProductWithCategories | null> => {
+  const result = await sql<Product>`
+    SELECT
+      id, name, price, currency, stock, stock - reserved AS available, reorder_threshold,
+      weight_grams, created_at
+    FROM products
+    WHERE id = ${id}
+  `;
+
+  if (!result || result.length === 0) {
+    return null;
   }
+
+  const categories = await sql<Category>`
+    SELECT c.id, c.name, c.parent_id, c.created_at
+    FROM product_categories pc
+    JOIN categories c ON c.id = pc.category_id
+    WHERE pc.product_id = ${id}
+    ORDER BY lower(c.name), c.id
+  `;
+
+  return { ...result[0], categories: categories || [] };
 };
 
 /**
- * Get product by ID
+ * Replace the set of categories a product is listed in
  * @param id - Product ID
- * @returns Promise<Product | null> - Product object or null if not found
+ * @param categoryIds - Categories to list the product in (empty removes every link)
+ * @returns Promise<ProductWithCategories> - Product with its new categories
+ * @throws NotFoundError if product not found
+ * @throws UnprocessableEntityError if any category does not exist
  */
-export const getProductById = async (id: number): Promise<Product | null> => {
-  try {
-    const result = await sql`
-      SELECT id, name, price, stock, created_at
-      FROM products
-      WHERE id = ${id}
-    `;
+export const setProductCategories = async (
+  id: number,
+  categoryIds: number[]
+): Promise<ProductWithCategories> => {
+  const product = await getProductById(id);
+  if (!product) {
+    throw new NotFoundError('Product', id);
+  }
 
-    return result && result.length > 0 ? (result[0] as Product) : null;
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to fetch product: ${error.message}`);
-    }
-    throw error;
+  const existing = await sql`
+    SELECT id FROM categories WHERE id = ANY(${categoryIds}::int[])
+  `;
+
+  const found = new Set(existing.map((row) => Number(row.id)));
+  const missing = categoryIds.filter((categoryId) => !found.has(categoryId));
+
+  if (missing.length > 0) {
+    throw new UnprocessableEntityError(
+      `Category with ID ${missing.join(', ')} does not exist`,
+      ErrorCode.UNPROCESSABLE_ENTITY,
+      { category_ids: missing }
+    );
   }
+
+  await sql.transaction((txn) => [
+    txn`
+      DELETE FROM product_categories WHERE product_id = ${id}
+    `,
+    txn`
+      INSERT INTO product_categories (product_id, category_id)
+      SELECT ${id}, unnest(${categoryIds}::int[])
+    `,
+  ]);
+
+  return (await getProductById(id)) as ProductWithCategories;
 };
 
 /**
  * Update product information
  * @param id - Product ID
- * @param updateData - Data to update (name and/or email)
+ * @param updateData - Data to update; reorder_threshold null disables low-stock alerts
  * @returns Promise<Product> - Updated product object
- * @throws Error if product not found or name is already taken by another product
+ * @throws NotFoundError if product not found
+ * @throws ConflictError if name is already taken by another product
+ * @throws UnprocessableEntityError if the currency has no exchange rate in effect
  */
 export const updateProduct = async (
   id: number,
   updateData: UpdateProductRequest
 ): Promise<Product> => {
-  try {
-    // Check if product exists
-    const product = await getProductById(id);
-    if (!product) {
-      throw new Error(`Product with ID ${id} not found`);
-    }
+  // Check if product exists
+  const product = await getProductById(id);
+  if (!product) {
+    throw new NotFoundError('Product', id);
+  }
 
-    // If name is being updated, check for duplicates (excluding current product)
-    if (updateData.name && updateData.name !== product.name) {
-      const existingProduct = await sql`
-        SELECT id FROM products WHERE name = ${updateData.name} AND id != ${id}
-      `;
+  if (updateData.currency !== undefined && updateData.currency !== product.currency) {
+    await assertSupportedCurrency(updateData.currency);
+  }
 
-      if (existingProduct && existingProduct.length > 0) {
-        throw new Error(`Name ${updateData.name} is already in use`);
-      }
+  // If name is being updated, check for duplicates (excluding current product)
+  if (updateData.name && updateData.name !== product.name) {
+    const existingProduct = await sql`
+      SELECT id FROM products WHERE name = ${updateData.name} AND id != ${id}
+    `;
+
+    if (existingProduct && existingProduct.length > 0) {
+      throw new ConflictError(`Name ${updateData.name} is already in use`);
     }
+  }
 
-    // Execute update
-    const result = await sql`
-      UPDATE products
+  // Execute update; a new stock level is recorded in the inventory ledger as an adjustment
+  // from the locked current level, so concurrent sales still add up
+  const result = await sql<Product>`
+    WITH previous AS (
+      SELECT id, stock FROM products WHERE id = ${id} FOR UPDATE
+    ),
+    updated AS (
+      UPDATE products p
       SET
         name = ${updateData.name ?? product.name},
         price = ${updateData.price ?? product.price},
-        stock = ${updateData.stock ?? product.stock}
-      WHERE id = ${id}
-      RETURNING id, name, price, stock, created_at
-    `;
+        currency = ${updateData.currency ?? product.currency},
+        stock = COALESCE(${updateData.stock ?? null}::int, p.stock),
+        reorder_threshold = ${
+          updateData.reorder_threshold !== undefined
+            ? updateData.reorder_threshold
+            : product.reorder_threshold
+        },
+        weight_grams = ${updateData.weight_grams ?? product.weight_grams}
+      FROM previous
+      WHERE p.id = previous.id
+      RETURNING
+        p.id, p.name, p.price, p.currency, p.stock, p.stock - p.reserved AS available,
+        p.reorder_threshold, p.weight_grams, p.created_at, previous.stock AS previous_stock
+    ),
+    movement AS (
+      INSERT INTO inventory_movements (product_id, quantity, reason, note)
+      SELECT id, stock - previous_stock, ${InventoryMovementReason.ADJUSTMENT}, 'Stock set by product update'
+      FROM updated
+      WHERE stock <> previous_stock
+    )
+    SELECT
+      id, name, price, currency, stock, available, reorder_threshold, weight_grams, created_at
+    FROM updated
+  `;
 
-    if (!result || result.length === 0) {
-      throw new Error('Failed to update product');
-    }
+  if (!result || result.length === 0) {
+    throw new Error('Failed to update product');
+  }
 
-    return result[0] as Product;
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to update product: ${error.message}`);
-    }
-    throw error;
+  if (updateData.stock !== undefined || updateData.reorder_threshold !== undefined) {
+    await checkStockThresholds([id]);
   }
+
+  return result[0];
 };
 
 /**
  * Delete product by ID
  * @param id - Product ID
  * @returns Promise<boolean> - True if product was deleted
- * @throws Error if product not found
+ * @throws NotFoundError if product not found
  */
 export const deleteProduct = async (id: number): Promise<boolean> => {
-  try {
-    // Check if product exists
-    const product = await getProductById(id);
-    if (!product) {
-      throw new Error(`Product with ID ${id} not found`);
-    }
+  // Check if product exists
+  const product = await getProductById(id);
+  if (!product) {
+    throw new NotFoundError('Product', id);
+  }
 
-    // Delete product (ON DELETE CASCADE will handle orders, order_items, payments)
-    await sql`
-      DELETE FROM products
-      WHERE id = ${id}
-    `;
+  // Delete product (ON DELETE CASCADE will handle orders, order_items, payments)
+  await sql`
+    DELETE FROM products
+    WHERE id = ${id}
+  `;
 
-    return true;
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to delete product: ${error.message}`);
-    }
-    throw error;
-  }
+  return true;
 };
 
 /**
@@ -191,6 +490,7 @@ const productService = {
   createProduct,
   getAllProducts,
   getProductById,
+  setProductCategories,
   updateProduct,
   deleteProduct,
 };
@@ -0,0 +1,458 @@
+import sql from '../config/database';
+import { Row } from '../database/client';
+import {
+  ErrorCode,
+  NotFoundError,
+  PG_SERIALIZATION_FAILURE,
+  UnprocessableEntityError,
+} from '../middleware/errorHandler';
+import {
+  CreateRefundRequest,
+  InventoryMovementReason,
+  PaymentStatus,
+  Refund,
+  RefundItem,
+  RefundItemInput,
+  RefundStatus,
+  RefundWithItems,
+  ReservationStatus,
+} from '../types/index';
+import { divideRounded, fromCents, toCents } from '../utils/helpers';
+import logger, { serializeError } from '../utils/logger';
+import { checkStockThresholds } from './inventoryService';
+import { getPaymentById, getPaymentProvider } from './paymentService';
+import { allocate } from './pricingService';
+
+// Attempts at the serializable refund reservation before the conflict is returned as a 409
+const RESERVATION_ATTEMPTS = 3;
+
+interface PricedRefundLine {
+  order_item_id: number;
+  quantity: number;
+  amountCents: number;
+}
+
+/**
+ * Validate refund lines against the order and price them at what was paid for the units: the
+ * line's sale price less its share of the order discounts, plus its tax. Each refund takes the
+ * difference between the running shares before and after its units, so refunding a line unit by
+ * unit adds up to exactly what the line cost. Orders placed before lines recorded their discount
+ * and tax split the order totals in proportion to the line amounts.
+ * @param orderId - Order the refunded payment belongs to
+ * @param items - Requested refund lines
+ * @returns Promise<PricedRefundLine[]> - One priced line per order item
+ * @throws UnprocessableEntityError if an item does not belong to the order or exceeds its refundable quantity
+ */
+const priceRefundItems = async (
+  orderId: number,
+  items: RefundItemInput[]
+): Promise<PricedRefundLine[]> => {
+  const quantities = new Map<number, number>();
+  for (const item of items) {
+    quantities.set(item.order_item_id, (quantities.get(item.order_item_id) ?? 0) + item.quantity);
+  }
+
+  const rows = await sql<{
+    id: number;
+    quantity: number;
+    price: string;
+    discount: string | null;
+    tax: string | null;
+    refunded: string;
+    discount_total: string;
+    tax_total: string;
+  }>`
+    SELECT oi.id, oi.quantity, oi.price, oi.discount, oi.tax, o.discount_total, o.tax_total,
+      COALESCE(SUM(ri.quantity) FILTER (WHERE r.status <> ${RefundStatus.FAILED}), 0) AS refunded
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    LEFT JOIN refund_items ri ON ri.order_item_id = oi.id
+    LEFT JOIN refunds r ON r.id = ri.refund_id
+    WHERE oi.order_id = ${orderId}
+    GROUP BY oi.id, o.id
+    ORDER BY oi.id
+  `;
+
+  const lineCents = rows.map((row) => toCents(row.price) * Number(row.quantity));
+  const discountShares = allocate(rows.length > 0 ? toCents(rows[0].discount_total) : 0, lineCents);
+  const taxShares = allocate(rows.length > 0 ? toCents(rows[0].tax_total) : 0, lineCents);
+
+  const paidCentsById = new Map(
+    rows.map((row, index) => [
+      Number(row.id),
+      lineCents[index] -
+        (row.discount === null ? discountShares[index] : toCents(row.discount)) +
+        (row.tax === null ? taxShares[index] : toCents(row.tax)),
+    ])
+  );
+  const rowsById = new Map(rows.map((row) => [Number(row.id), row]));
+
+  return [...quantities.keys()].map((orderItemId) => {
+    const row = rowsById.get(orderItemId);
+    const quantity = quantities.get(orderItemId) as number;
+
+    if (!row) {
+      throw new UnprocessableEntityError(
+        `Order item with ID ${orderItemId} does not belong to order ${orderId}`
+      );
+    }
+
+    const ordered = Number(row.quantity);
+    const refunded = Number(row.refunded);
+    const refundable = ordered - refunded;
+    if (quantity > refundable) {
+      throw new UnprocessableEntityError(
+        `Order item ${orderItemId} has only ${refundable} unit(s) left to refund, requested ${quantity}`,
+        ErrorCode.REFUND_EXCEEDS_BALANCE
+      );
+    }
+
+    const paidCents = BigInt(paidCentsById.get(orderItemId) as number);
+    const shareOf = (units: number) =>
+      Number(divideRounded(paidCents * BigInt(units), BigInt(ordered)));
+
+    return {
+      order_item_id: orderItemId,
+      quantity,
+      amountCents: shareOf(refunded + quantity) - shareOf(refunded),
+    };
+  });
+};
+
+/**
+ * Attach refund lines to a set of refunds using a single query
+ * @param refunds - Refunds to hydrate
+ * @returns Promise<RefundWithItems[]> - Refunds with their items, in input order
+ */
+const attachRefundItems = async (refunds: Refund[]): Promise<RefundWithItems[]> => {
+  if (refunds.length === 0) {
+    return [];
+  }
+
+  const refundIds = refunds.map((refund) => refund.id);
+
+  const rows = await sql<RefundItem>`
+    SELECT id, refund_id, order_item_id, quantity, amount, restock
+    FROM refund_items
+    WHERE refund_id = ANY(${refundIds}::int[])
+    ORDER BY refund_id, id
+  `;
+
+  const itemsByRefundId = new Map<number, RefundItem[]>();
+  for (const row of rows) {
+    const items = itemsByRefundId.get(row.refund_id) ?? [];
+    items.push(row);
+    itemsByRefundId.set(row.refund_id, items);
+  }
+
+  return refunds.map((refund) => ({ ...refund, items: itemsByRefundId.get(refund.id) ?? [] }));
+};
+
+/**
+ * Issue a full, partial or line-item refund against a completed payment
+ *
+ * The refund is first reserved as pending in a serializable transaction that checks the
+ * running refund total, so concurrent requests can never refund more than was captured. A
+ * reservation that loses a serialization race is retried a few times before it fails.
+ * The provider is then called, and the outcome is applied in a single statement: the refund
+ * is completed or failed, refunded lines flagged for restock go back to inventory (as return
+ * movements in the inventory ledger), and the payment becomes REFUNDED once completed refunds
+ * cover its full amount. Restocked units are taken off the order's reservations: units of a
+ * pending order stop being reserved, units of a confirmed order go back to stock. Either way
+ * a later confirmation or cancellation only moves the units that were not refunded.
+ *
+ * @param paymentId - Payment ID
+ * @param refundData - Amount or line items, restock flag and reason
+ * @returns Promise<RefundWithItems> - Refund with its final status and line items
+ * @throws NotFoundError if payment not found
+ * @throws UnprocessableEntityError if not refundable or the amount exceeds the refundable balance
+ * @throws ConflictError (via the 40001 mapping) if every reservation attempt conflicts
+ */
+export const createRefund = async (
+  paymentId: number,
+  refundData: CreateRefundRequest
+): Promise<RefundWithItems> => {
+  const payment = await getPaymentById(paymentId);
+
+  if (!payment) {
+    throw new NotFoundError('Payment', paymentId);
+  }
+
+  if (payment.status !== PaymentStatus.COMPLETED || !payment.transaction_id) {
+    throw new UnprocessableEntityError(
+      `Payment with ID ${paymentId} is not refundable (status: ${payment.status})`,
+      ErrorCode.PAYMENT_NOT_REFUNDABLE
+    );
+  }
+
+  const refundedResult = await sql`
+    SELECT COALESCE(SUM(amount), 0) AS refunded
+    FROM refunds
+    WHERE payment_id = ${paymentId} AND status <> ${RefundStatus.FAILED}
+  `;
+
+  const remainingCents = toCents(payment.amount) - toCents(refundedResult[0].refunded as string);
+
+  let lines: PricedRefundLine[] = [];
+  let amountCents: number;
+
+  if (refundData.items && refundData.items.length > 0) {
+    lines = await priceRefundItems(payment.order_id, refundData.items);
+    amountCents = lines.reduce((sum, line) => sum + line.amountCents, 0);
+  } else if (refundData.amount !== undefined) {
+    amountCents = toCents(refundData.amount);
+  } else {
+    amountCents = remainingCents;
+  }
+
+  if (amountCents <= 0) {
+    throw new UnprocessableEntityError(
+      `Payment with ID ${paymentId} has nothing left to refund`,
+      ErrorCode.REFUND_EXCEEDS_BALANCE
+    );
+  }
+
+  if (amountCents > remainingCents) {
+    throw new UnprocessableEntityError(
+      `Refund amount exceeds refundable balance of ${fromCents(remainingCents).toFixed(2)}`,
+      ErrorCode.REFUND_EXCEEDS_BALANCE
+    );
+  }
+
+  const amount = fromCents(amountCents).toFixed(2);
+  const restock = Boolean(refundData.restock) && lines.length > 0;
+
+  // Reserve the refund; serializable isolation makes the balance check race-free
+  const reserve = () =>
+    sql.transaction(
+      (txn) => [
+        txn`
+          WITH payment AS (
+            SELECT id, amount FROM payments
+            WHERE id = ${paymentId} AND status = ${PaymentStatus.COMPLETED}
+          ),
+          refunded AS (
+            SELECT COALESCE(SUM(amount), 0) AS total FROM refunds
+            WHERE payment_id = ${paymentId} AND status <> ${RefundStatus.FAILED}
+          ),
+          inserted AS (
+            INSERT INTO refunds (payment_id, amount, status, reason)
+            SELECT payment.id, ${amount}, ${RefundStatus.PENDING}, ${refundData.reason ?? null}
+            FROM payment, refunded
+            WHERE refunded.total + ${amount}::numeric <= payment.amount
+            RETURNING id
+          ),
+          items AS (
+            INSERT INTO refund_items (refund_id, order_item_id, quantity, amount, restock)
+            SELECT inserted.id, r.order_item_id, r.quantity, r.amount, ${restock}
+            FROM inserted,
+              unnest(
+                ${lines.map((line) => line.order_item_id)}::int[],
+                ${lines.map((line) => line.quantity)}::int[],
+                ${lines.map((line) => fromCents(line.amountCents).toFixed(2))}::numeric[]
+              ) AS r(order_item_id, quantity, amount)
+          )
+          SELECT id FROM inserted
+        `,
+      ],
+      { isolationLevel: 'Serializable' }
+    );
+
+  let reserved: Row[] | undefined;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      [reserved] = await reserve();
+      break;
+    } catch (error) {
+      // Lost a serialization race with another refund; the retry sees its committed balance
+      const { code } = error as { code?: string };
+      if (code !== PG_SERIALIZATION_FAILURE || attempt >= RESERVATION_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+
+  // A concurrent refund consumed the balance after it was read
+  if (!reserved || reserved.length === 0) {
+    throw new UnprocessableEntityError(
+      'Refund amount exceeds refundable balance',
+      ErrorCode.REFUND_EXCEEDS_BALANCE
+    );
+  }
+
+  const refundId = Number(reserved[0].id);
+
+  let outcome: { status: RefundStatus; transaction_id: string | null };
+  try {
+    outcome = await getPaymentProvider().refund({
+      transaction_id: payment.transaction_id,
+      amount: Number(amount),
+      currency: payment.currency,
+    });
+  } catch (error) {
+    logger.error('payment provider refund failed', {
+      refund_id: refundId,
+      error: serializeError(error),
+    });
+    outcome = { status: RefundStatus.FAILED, transaction_id: null };
+  }
+
+  logger.info('refund processed', {
+    refund_id: refundId,
+    payment_id: paymentId,
+    amount,
+    restock,
+    status: outcome.status,
+  });
+
+  const completed = outcome.status === RefundStatus.COMPLETED;
+
+  const result = await sql<Refund>`
+    WITH updated AS (
+      UPDATE refunds
+      SET status = ${outcome.status}, transaction_id = ${outcome.transaction_id}, updated_at = NOW()
+      WHERE id = ${refundId}
+      RETURNING id, payment_id, amount, status, reason, transaction_id, created_at, updated_at
+    ),
+    restocked_units AS (
+      SELECT oi.product_id, oi.variant_id, SUM(ri.quantity) AS quantity
+      FROM refund_items ri
+      JOIN order_items oi ON oi.id = ri.order_item_id
+      WHERE ${completed}::boolean AND ri.refund_id = ${refundId} AND ri.restock
+      GROUP BY oi.product_id, oi.variant_id
+    ),
+    held AS (
+      SELECT id, product_id, variant_id, quantity, status
+      FROM stock_reservations
+      WHERE order_id = ${payment.order_id}
+        AND status IN (${ReservationStatus.ACTIVE}, ${ReservationStatus.COMMITTED})
+      FOR UPDATE
+    ),
+    -- Units of the return each open reservation covers, filled in reservation order
+    covered AS (
+      SELECT h.id, h.product_id, h.variant_id, h.quantity, h.status,
+        LEAST(
+          h.quantity,
+          GREATEST(
+            0,
+            u.quantity + h.quantity
+              - SUM(h.quantity) OVER (PARTITION BY h.product_id, h.variant_id ORDER BY h.id)
+          )
+        ) AS returned
+      FROM held h
+      JOIN restocked_units u
+        ON u.product_id = h.product_id AND u.variant_id IS NOT DISTINCT FROM h.variant_id
+    ),
+    -- Returned units are no longer part of the sale, so confirming the order cannot take them
+    -- out of stock and cancelling it cannot put them back again
+    trimmed AS (
+      UPDATE stock_reservations r
+      SET
+        quantity = CASE WHEN c.returned < c.quantity THEN c.quantity - c.returned ELSE c.quantity END,
+        status = CASE WHEN c.returned < c.quantity THEN r.status ELSE ${ReservationStatus.RELEASED} END,
+        updated_at = NOW()
+      FROM covered c
+      WHERE r.id = c.id AND c.returned > 0
+    ),
+    -- Stock comes back only for units the order took out of it (committed reservations; orders
+    -- placed before reservations existed have none and took out every unit). Units still only
+    -- reserved by a pending order just stop being held.
+    returns AS (
+      SELECT u.product_id, u.variant_id,
+        CASE
+          WHEN EXISTS (SELECT 1 FROM stock_reservations WHERE order_id = ${payment.order_id})
+            THEN COALESCE(SUM(c.returned) FILTER (WHERE c.status = ${ReservationStatus.COMMITTED}), 0)
+          ELSE u.quantity
+        END AS quantity,
+        COALESCE(SUM(c.returned) FILTER (WHERE c.status = ${ReservationStatus.ACTIVE}), 0) AS unreserved
+      FROM restocked_units u
+      LEFT JOIN covered c
+        ON c.product_id = u.product_id AND c.variant_id IS NOT DISTINCT FROM u.variant_id
+      GROUP BY u.product_id, u.variant_id, u.quantity
+    ),
+    restocked AS (
+      UPDATE products p
+      SET stock = p.stock + r.quantity, reserved = p.reserved - r.unreserved
+      FROM returns r
+      WHERE r.variant_id IS NULL AND p.id = r.product_id
+    ),
+    restocked_variants AS (
+      UPDATE product_variants v
+      SET stock = v.stock + r.quantity, reserved = v.reserved - r.unreserved
+      FROM returns r
+      WHERE v.id = r.variant_id
+    ),
+    returned AS (
+      INSERT INTO inventory_movements
+        (product_id, variant_id, quantity, reason, order_id, refund_id)
+      SELECT product_id, variant_id, quantity, ${InventoryMovementReason.RETURN},
+        ${payment.order_id}, ${refundId}
+      FROM returns
+      WHERE quantity > 0
+    ),
+    fully_refunded AS (
+      UPDATE payments
+      SET status = ${PaymentStatus.REFUNDED}, updated_at = NOW()
+      WHERE id = ${paymentId}
+        AND ${completed}::boolean
+        AND amount <= ${amount}::numeric + (
+          SELECT COALESCE(SUM(amount), 0) FROM refunds
+          WHERE payment_id = ${paymentId} AND status = ${RefundStatus.COMPLETED} AND id <> ${refundId}
+        )
+    )
+    SELECT * FROM updated
+  `;
+
+  if (!result || result.length === 0) {
+    throw new Error('Failed to update refund');
+  }
+
+  // Returned stock can lift products back above their reorder threshold
+  if (completed && restock) {
+    const returned = await sql`
+      SELECT DISTINCT oi.product_id
+      FROM refund_items ri
+      JOIN order_items oi ON oi.id = ri.order_item_id
+      WHERE ri.refund_id = ${refundId} AND oi.variant_id IS NULL
+    `;
+    await checkStockThresholds((returned || []).map((row) => Number(row.product_id)));
+  }
+
+  const [refund] = await attachRefundItems(result);
+  return refund;
+};
+
+/**
+ * Get all refunds issued against a payment, oldest first
+ * @param paymentId - Payment ID
+ * @returns Promise<RefundWithItems[]> - Refunds with their line items
+ * @throws NotFoundError if payment not found
+ */
+export const getRefundsByPaymentId = async (paymentId: number): Promise<RefundWithItems[]> => {
+  const payment = await sql`
+    SELECT 1 FROM payments WHERE id = ${paymentId}
+  `;
+
+  if (!payment || payment.length === 0) {
+    throw new NotFoundError('Payment', paymentId);
+  }
+
+  const result = await sql<Refund>`
+    SELECT id, payment_id, amount, status, reason, transaction_id, created_at, updated_at
+    FROM refunds
+    WHERE payment_id = ${paymentId}
+    ORDER BY created_at, id
+  `;
+
+  return attachRefundItems(result || []);
+};
+
+/**
+ * Refund Service - Exported as functional module
+ */
+const refundService = {
+  createRefund,
+  getRefundsByPaymentId,
+};
+
+export default refundService;
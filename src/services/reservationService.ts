@@ -0,0 +1,110 @@
+import sql from '../config/database';
+import {
+  ErrorCode,
+  InvalidStatusTransitionError,
+  UnprocessableEntityError,
+} from '../middleware/errorHandler';
+import { OrderStatus, PaymentStatus, ReservationStatus } from '../types/index';
+import logger, { serializeError } from '../utils/logger';
+import orderService from './orderService';
+
+// Orders cancelled per sweep; the rest are picked up by the next run
+const SWEEP_BATCH_SIZE = 100;
+
+/**
+ * Cancel pending orders whose reservations have expired, releasing the stock they hold
+ *
+ * Each order goes through the regular status transition, so the release, status history
+ * and logging match a manual cancellation. Orders with a pending or completed payment are
+ * left for staff to settle, since cancelling them would keep money that was captured; orders
+ * paid or cancelled in the meantime are skipped.
+ *
+ * @returns Promise<number> - Number of orders cancelled
+ */
+export const releaseExpiredReservations = async (): Promise<number> => {
+  const expired = await sql`
+    SELECT DISTINCT r.order_id
+    FROM stock_reservations r
+    JOIN orders o ON o.id = r.order_id
+    WHERE r.status = ${ReservationStatus.ACTIVE}
+      AND r.expires_at <= NOW()
+      AND o.status = ${OrderStatus.PENDING}
+      AND NOT EXISTS (
+        SELECT 1 FROM payments p
+        WHERE p.order_id = o.id AND p.status IN (${PaymentStatus.PENDING}, ${PaymentStatus.COMPLETED})
+      )
+    ORDER BY r.order_id
+    LIMIT ${SWEEP_BATCH_SIZE}
+  `;
+
+  let cancelled = 0;
+
+  for (const row of expired || []) {
+    try {
+      await orderService.updateOrderStatus(
+        Number(row.order_id),
+        {
+          status: OrderStatus.CANCELLED,
+          actor: 'system:reservations',
+          reason: 'Stock reservation expired before payment',
+        },
+        { unpaidOnly: true }
+      );
+      cancelled++;
+    } catch (error) {
+      // The order was paid, cancelled or charged concurrently
+      const charged =
+        error instanceof UnprocessableEntityError && error.code === ErrorCode.ORDER_HAS_PAYMENTS;
+      if (!(error instanceof InvalidStatusTransitionError) && !charged) {
+        throw error;
+      }
+    }
+  }
+
+  if (cancelled > 0) {
+    logger.info('expired reservations released', { orders_cancelled: cancelled });
+  }
+
+  return cancelled;
+};
+
+/**
+ * Run releaseExpiredReservations on a fixed interval; a run is skipped while the previous
+ * one is still in progress
+ * @param intervalMs - Time between sweeps in milliseconds
+ * @returns () => void - Stops the sweeper
+ */
+export const startReservationSweeper = (intervalMs: number): (() => void) => {
+  let running = false;
+
+  const sweep = async (): Promise<void> => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await releaseExpiredReservations();
+    } catch (error) {
+      logger.error('reservation sweep failed', { error: serializeError(error) });
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(() => void sweep(), intervalMs);
+
+  // Do not keep the process alive just for the sweeper
+  timer.unref();
+
+  return () => clearInterval(timer);
+};
+
+/**
+ * Reservation Service - Exported as functional module
+ */
+const reservationService = {
+  releaseExpiredReservations,
+  startReservationSweeper,
+};
+
+export default reservationService;
@@ -0,0 +1,102 @@
+import { toCents } from '../utils/helpers';
+
+/**
+ * What a shipping rate is computed from
+ */
+export interface Shipment {
+  region: string | null;
+  merchandise_cents: number; // subtotal after discounts, in the base currency
+  weight_grams: number;
+}
+
+/**
+ * Contract every shipping rate strategy must fulfil
+ */
+export interface ShippingRateStrategy {
+  readonly name: string;
+  rate(shipment: Shipment): Promise<number>; // cents of the base currency
+}
+
+/**
+ * Shipping settings as read from the environment (decimal amounts in the base currency)
+ */
+export interface ShippingSettings {
+  strategy: string;
+  flatRate: string;
+  baseRate: string;
+  ratePerKg: string;
+  freeOver?: string;
+}
+
+/**
+ * Charges the same amount for every order
+ */
+export class FlatRateShipping implements ShippingRateStrategy {
+  readonly name = 'flat';
+
+  constructor(private readonly rateCents: number) {}
+
+  async rate(): Promise<number> {
+    return this.rateCents;
+  }
+}
+
+/**
+ * Charges a base amount plus a rate for every started kilogram
+ */
+export class WeightBasedShipping implements ShippingRateStrategy {
+  readonly name = 'weight';
+
+  constructor(
+    private readonly baseCents: number,
+    private readonly perKgCents: number
+  ) {}
+
+  async rate(shipment: Shipment): Promise<number> {
+    return this.baseCents + Math.ceil(shipment.weight_grams / 1000) * this.perKgCents;
+  }
+}
+
+/**
+ * Ships for free once the discounted subtotal reaches a threshold; below it another strategy
+ * sets the rate
+ */
+export class FreeOverThresholdShipping implements ShippingRateStrategy {
+  readonly name: string;
+
+  constructor(
+    private readonly thresholdCents: number,
+    private readonly fallback: ShippingRateStrategy
+  ) {
+    this.name = `${fallback.name}+free_over`;
+  }
+
+  async rate(shipment: Shipment): Promise<number> {
+    return shipment.merchandise_cents >= this.thresholdCents ? 0 : this.fallback.rate(shipment);
+  }
+}
+
+/**
+ * Build the shipping strategy described by the settings
+ * @param settings - Strategy name, its rates and the optional free shipping threshold
+ * @returns ShippingRateStrategy - Strategy instance
+ * @throws Error if the strategy name is unknown
+ */
+export const createShippingStrategy = (settings: ShippingSettings): ShippingRateStrategy => {
+  let strategy: ShippingRateStrategy;
+
+  switch (settings.strategy) {
+    case 'flat':
+      strategy = new FlatRateShipping(toCents(settings.flatRate));
+      break;
+    case 'weight':
+      strategy = new WeightBasedShipping(toCents(settings.baseRate), toCents(settings.ratePerKg));
+      break;
+    default:
+      throw new Error(`Unknown shipping strategy: ${settings.strategy}`);
+  }
+
+  return settings.freeOver !== undefined
+    ? new FreeOverThresholdShipping(toCents(settings.freeOver), strategy)
+    : strategy;
+};
@@ -0,0 +1,125 @@
+import sql from '../config/database';
+import { ConflictError, NotFoundError, UnprocessableEntityError } from '../middleware/errorHandler';
+import {
+  CreateTaxRateRequest,
+  TaxRate,
+  TaxRateFilters,
+  UpdateTaxRateRequest,
+} from '../types/index';
+
+/**
+ * Create the tax rate of a region, or of a category within a region
+ * @param taxRateData - Region, optional category and rate
+ * @returns Promise<TaxRate> - Created tax rate
+ * @throws ConflictError if the region (and category) already has a rate
+ * @throws UnprocessableEntityError if the category does not exist
+ */
+export const createTaxRate = async (taxRateData: CreateTaxRateRequest): Promise<TaxRate> => {
+  const categoryId = taxRateData.category_id ?? null;
+
+  if (categoryId !== null) {
+    const category = await sql`SELECT 1 FROM categories WHERE id = ${categoryId}`;
+
+    if (!category || category.length === 0) {
+      throw new UnprocessableEntityError(`Category with ID ${categoryId} does not exist`);
+    }
+  }
+
+  const existing = await sql`
+    SELECT id FROM tax_rates
+    WHERE region = ${taxRateData.region} AND COALESCE(category_id, 0) = COALESCE(${categoryId}::int, 0)
+  `;
+
+  if (existing && existing.length > 0) {
+    throw new ConflictError(
+      categoryId === null
+        ? `Region ${taxRateData.region} already has a default tax rate`
+        : `Region ${taxRateData.region} already has a tax rate for category ${categoryId}`
+    );
+  }
+
+  const result = await sql<TaxRate>`
+    INSERT INTO tax_rates (region, category_id, rate)
+    VALUES (${taxRateData.region}, ${categoryId}, ${taxRateData.rate})
+    RETURNING id, region, category_id, rate, created_at
+  `;
+
+  if (!result || result.length === 0) {
+    throw new Error('Failed to create tax rate');
+  }
+
+  return result[0];
+};
+
+/**
+ * Get all tax rates, by region with each region's default rate first
+ * @param filters - Optional region
+ * @returns Promise<TaxRate[]> - Tax rates
+ */
+export const getTaxRates = async (filters: TaxRateFilters = {}): Promise<TaxRate[]> => {
+  const result = await sql<TaxRate>`
+    SELECT id, region, category_id, rate, created_at
+    FROM tax_rates
+    WHERE (${filters.region ?? null}::text IS NULL OR region = ${filters.region ?? null})
+    ORDER BY region, category_id NULLS FIRST
+  `;
+
+  return result || [];
+};
+
+/**
+ * Change a tax rate; orders already placed keep the tax they were charged
+ * @param id - Tax rate ID
+ * @param updateData - New rate
+ * @returns Promise<TaxRate> - Updated tax rate
+ * @throws NotFoundError if tax rate not found
+ */
+export const updateTaxRate = async (
+  id: number,
+  updateData: UpdateTaxRateRequest
+): Promise<TaxRate> => {
+  const result = await sql<TaxRate>`
+    UPDATE tax_rates
+    SET rate = ${updateData.rate}
+    WHERE id = ${id}
+    RETURNING id, region, category_id, rate, created_at
+  `;
+
+  if (!result || result.length === 0) {
+    throw new NotFoundError('Tax rate', id);
+  }
+
+  return result[0];
+};
+
+/**
+ * Delete a tax rate
+ * @param id - Tax rate ID
+ * @returns Promise<boolean> - True if the tax rate was deleted
+ * @throws NotFoundError if tax rate not found
+ */
+export const deleteTaxRate = async (id: number): Promise<boolean> => {
+  const result = await sql`
+    DELETE FROM tax_rates
+    WHERE id = ${id}
+    RETURNING id
+  `;
+
+  if (!result || result.length === 0) {
+    throw new NotFoundError('Tax rate', id);
+  }
+
+  return true;
+};
+
+/**
+ * Tax Rate Service - Exported as functional module
+ */
+const taxRateService = {
+  createTaxRate,
+  getTaxRates,
+  updateTaxRate,
+  deleteTaxRate,
+};
+
+export default taxRateService;
@@ -0,0 +1,50 @@
+import sql from '../config/database';
+
+/**
+ * Contract every tax rule must fulfil
+ */
+export interface TaxRule {
+  readonly name: string;
+  rates(productIds: number[], region: string | null): Promise<number[]>; // percent, per product
+}
+
+/**
+ * Rates from the tax_rates table.
+ * A product takes the rate of its nearest category (walking up the tree) that has one for the
+ * region, else the region's default rate, else no tax. When categories the product is listed in
+ * are equally near, the highest of their rates applies. Orders without a region are not taxed.
+ */
+export class RegionCategoryTaxRule implements TaxRule {
+  readonly name = 'region_category';
+
+  async rates(productIds: number[], region: string | null): Promise<number[]> {
+    if (region === null || productIds.length === 0) {
+      return productIds.map(() => 0);
+    }
+
+    const rows = await sql`
+      WITH RECURSIVE lineage AS (
+        SELECT product_id, category_id, 0 AS distance
+        FROM product_categories
+        WHERE product_id = ANY(${productIds}::int[])
+        UNION ALL
+        SELECT l.product_id, c.parent_id, l.distance + 1
+        FROM lineage l
+        JOIN categories c ON c.id = l.category_id
+        WHERE c.parent_id IS NOT NULL
+      )
+      SELECT DISTINCT ON (p.id) p.id AS product_id, t.rate
+      FROM unnest(${productIds}::int[]) AS p(id)
+      JOIN tax_rates t ON t.region = ${region}
+      LEFT JOIN lineage l ON l.product_id = p.id AND l.category_id = t.category_id
+      WHERE t.category_id IS NULL OR l.category_id IS NOT NULL
+      ORDER BY p.id, t.category_id IS NULL, l.distance, t.rate DESC
+    `;
+
+    const rateByProduct = new Map<number, number>(
+      (rows || []).map((row) => [Number(row.product_id), Number(row.rate)])
+    );
+
+    return productIds.map((productId) => rateByProduct.get(productId) ?? 0);
+  }
+}
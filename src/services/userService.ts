@@ -1,41 +1,42 @@
 import sql from '../config/database';
-import { User, CreateUserRequest, UpdateUserRequest } from '../types/index';
+import { ConflictError, NotFoundError } from '../middleware/errorHandler';
+import {
+  User,
+  CreateUserRequest,
+  PaginationQuery,
+  UpdateUserRequest,
+  UserRole,
+} from '../types/index';
+import { pageWindow, takePage } from '../utils/helpers';
 
 /**
  * Create a new user
  * @param userData - User creation data (name, email)
  * @returns Promise<User> - Created user object
- * @throws Error if email is already taken or database error occurs
+ * @throws ConflictError if email is already taken
  */
 export const createUser = async (userData: CreateUserRequest): Promise<User> => {
-  try {
-    // Check if email already exists
-    const existingUser = await sql`
-      SELECT id FROM users WHERE email = ${userData.email}
-    `;
-
-    if (existingUser && existingUser.length > 0) {
-      throw new Error(`Email ${userData.email} is already in use`);
-    }
+  // Check if email already exists
+  const existingUser = await sql`
+    SELECT id FROM users WHERE email = ${userData.email}
+  `;
 
-    // Insert new user
-    const result = await sql`
-      INSERT INTO users (name, email)
-      VALUES (${userData.name}, ${userData.email})
-      RETURNING id, name, email, created_at
-    `;
+  if (existingUser && existingUser.length > 0) {
+    throw new ConflictError(`Email ${userData.email} is already in use`);
+  }
 
-    if (!result || result.length === 0) {
-      throw new Error('Failed to create user');
-    }
+  // Insert new user
+  const result = await sql<User>`
+    INSERT INTO users (name, email)
+    VALUES (${userData.name}, ${userData.email})
+    RETURNING id, name, email, role, created_at
+  `;
 
-    return result[0] as User;
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to create user: ${error.message}`);
-    }
-    throw error;
+  if (!result || result.length === 0) {
+    throw new Error('Failed to create user');
   }
+
+  return result[0];
 };
 
 /**
@@ -44,60 +45,52 @@ export const createUser = async (userData: CreateUserRequest): Promise<User> =>
  * @returns Promise<User | null> - User object or null if not found
  */
 export const getUserById = async (id: number): Promise<User | null> => {
-  try {
-    const result = await sql`
-      SELECT id, name, email, created_at
-      FROM users
-      WHERE id = ${id}
-    `;
+  const result = await sql<User>`
+    SELECT id, name, email, role, created_at
+    FROM users
+    WHERE id = ${id}
+  `;
 
-    return result && result.length > 0 ? (result[0] as User) : null;
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to fetch user: ${error.message}`);
-    }
-    throw error;
-  }
+  return result && result.length > 0 ? result[0] : null;
 };
 
 /**
- * Get all users with pagination
- * @param page - Page number (default: 1)
- * @param limit - Items per page (default: 10)
- * @returns Promise<{users: User[], total: number}> - Users and total count
+ * Get all users with pagination, newest first
+ * @param pagination - Page or cursor, page size and whether to count the total
+ * @returns Promise<{users: User[], total: number | null, next_cursor: string | null}> - Users,
+ *   total count (null unless requested) and the cursor of the next page
  */
 export const getAllUsers = async (
-  page: number = 1,
-  limit: number = 10
-): Promise<{ users: User[]; total: number }> => {
-  try {
-    const offset = (page - 1) * limit;
+  pagination: PaginationQuery
+): Promise<{ users: User[]; total: number | null; next_cursor: string | null }> => {
+  const { offset, fetch, afterCreatedAt, afterId } = pageWindow(pagination);
 
-    // Get total count
+  // Get total count
+  let total: number | null = null;
+  if (pagination.include_total) {
     const countResult = await sql`
       SELECT COUNT(*) as count FROM users
     `;
 
-    const total = countResult && countResult[0] ? Number((countResult[0] as any).count) : 0;
-
-    // Get paginated users
-    const users = await sql`
-      SELECT id, name, email, created_at
-      FROM users
-      ORDER BY created_at DESC
-      LIMIT ${limit} OFFSET ${offset}
-    `;
-
-    return {
-      users: (users || []) as User[],
-      total,
-    };
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to fetch users: ${error.message}`);
-    }
-    throw error;
+    total = countResult && countResult[0] ? Number(countResult[0].count) : 0;
   }
+
+  // Get paginated users
+  const users = await sql<User>`
+    SELECT id, name, email, role, created_at
+    FROM users
+    WHERE ${afterCreatedAt}::timestamp IS NULL OR (created_at, id) < (${afterCreatedAt}, ${afterId})
+    ORDER BY created_at DESC, id DESC
+    LIMIT ${fetch} OFFSET ${offset}
+  `;
+
+  const page = takePage(users || [], pagination.limit);
+
+  return {
+    users: page.rows,
+    total,
+    next_cursor: page.next_cursor,
+  };
 };
 
 /**
@@ -106,20 +99,13 @@ export const getAllUsers = async (
  * @returns Promise<User | null> - User object or null if not found
  */
 export const getUserByEmail = async (email: string): Promise<User | null> => {
-  try {
-    const result = await sql`
-      SELECT id, name, email, created_at
-      FROM users
-      WHERE email = ${email}
-    `;
+  const result = await sql<User>`
+    SELECT id, name, email, role, created_at
+    FROM users
+    WHERE email = ${email}
+  `;
 
-    return result && result.length > 0 ? (result[0] as User) : null;
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to fetch user by email: ${error.message}`);
-    }
-    throw error;
-  }
+  return result && result.length > 0 ? result[0] : null;
 };
 
 /**
@@ -127,77 +113,86 @@ export const getUserByEmail = async (email: string): Promise<User | null> => {
  * @param id - User ID
  * @param updateData - Data to update (name and/or email)
  * @returns Promise<User> - Updated user object
- * @throws Error if user not found or email is already taken by another user
+ * @throws NotFoundError if user not found
+ * @throws ConflictError if email is already taken by another user
  */
 export const updateUser = async (id: number, updateData: UpdateUserRequest): Promise<User> => {
-  try {
-    // Check if user exists
-    const user = await getUserById(id);
-    if (!user) {
-      throw new Error(`User with ID ${id} not found`);
-    }
+  // Check if user exists
+  const user = await getUserById(id);
+  if (!user) {
+    throw new NotFoundError('User', id);
+  }
 
-    // If email is being updated, check for duplicates (excluding current user)
-    if (updateData.email && updateData.email !== user.email) {
-      const existingUser = await sql`
-        SELECT id FROM users WHERE email = ${updateData.email} AND id != ${id}
-      `;
+  // If email is being updated, check for duplicates (excluding current user)
+  if (updateData.email && updateData.email !== user.email) {
+    const existingUser = await sql`
+      SELECT id FROM users WHERE email = ${updateData.email} AND id != ${id}
+    `;
 
-      if (existingUser && existingUser.length > 0) {
-        throw new Error(`Email ${updateData.email} is already in use`);
-      }
+    if (existingUser && existingUser.length > 0) {
+      throw new ConflictError(`Email ${updateData.email} is already in use`);
     }
+  }
 
-    // Execute update
-    const result = await sql`
-      UPDATE users
-      SET
-        name = ${updateData.name ?? user.name},
-        email = ${updateData.email ?? user.email}
-      WHERE id = ${id}
-      RETURNING id, name, email, created_at
-    `;
+  // Execute update
+  const result = await sql<User>`
+    UPDATE users
+    SET
+      name = ${updateData.name ?? user.name},
+      email = ${updateData.email ?? user.email}
+    WHERE id = ${id}
+    RETURNING id, name, email, role, created_at
+  `;
+
+  if (!result || result.length === 0) {
+    throw new Error('Failed to update user');
+  }
 
-    if (!result || result.length === 0) {
-      throw new Error('Failed to update user');
-    }
+  return result[0];
+};
 
-    return result[0] as User;
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to update user: ${error.message}`);
-    }
-    throw error;
+/**
+ * Change a user's role
+ * @param id - User ID
+ * @param role - New role
+ * @returns Promise<User> - Updated user object
+ * @throws NotFoundError if user not found
+ */
+export const updateUserRole = async (id: number, role: UserRole): Promise<User> => {
+  const result = await sql<User>`
+    UPDATE users
+    SET role = ${role}
+    WHERE id = ${id}
+    RETURNING id, name, email, role, created_at
+  `;
+
+  if (!result || result.length === 0) {
+    throw new NotFoundError('User', id);
   }
+
+  return result[0];
 };
 
 /**
  * Delete user by ID
  * @param id - User ID
  * @returns Promise<boolean> - True if user was deleted
- * @throws Error if user not found
+ * @throws NotFoundError if user not found
  */
 export const deleteUser = async (id: number): Promise<boolean> => {
-  try {
-    // Check if user exists
-    const user = await getUserById(id);
-    if (!user) {
-      throw new Error(`User with ID ${id} not found`);
-    }
+  // Check if user exists
+  const user = await getUserById(id);
+  if (!user) {
+    throw new NotFoundError('User', id);
+  }
 
-    // Delete user (ON DELETE CASCADE will handle orders, order_items, payments)
-    await sql`
-      DELETE FROM users
-      WHERE id = ${id}
-    `;
+  // Delete user (ON DELETE CASCADE will handle orders, order_items, payments)
+  await sql`
+    DELETE FROM users
+    WHERE id = ${id}
+  `;
 
-    return true;
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to delete user: ${error.message}`);
-    }
-    throw error;
-  }
+  return true;
 };
 
 /**
@@ -206,18 +201,11 @@ export const deleteUser = async (id: number): Promise<boolean> => {
  * @returns Promise<boolean> - True if user exists
  */
 export const userExists = async (id: number): Promise<boolean> => {
-  try {
-    const result = await sql`
-      SELECT 1 FROM users WHERE id = ${id}
-    `;
+  const result = await sql`
+    SELECT 1 FROM users WHERE id = ${id}
+  `;
 
-    return result && result.length > 0;
-  } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to check user existence: ${error.message}`);
-    }
-    throw error;
-  }
+  return result && result.length > 0;
 };
 
 /**
@@ -229,6 +217,7 @@ const userService = {
   getAllUsers,
   getUserByEmail,
   updateUser,
+  updateUserRole,
   deleteUser,
   userExists,
 };
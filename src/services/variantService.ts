@@ -0,0 +1,226 @@
+import sql from '../config/database';
+import { ConflictError, NotFoundError } from '../middleware/errorHandler';
+import {
+  CreateProductVariantRequest,
+  InventoryMovementReason,
+  ProductVariant,
+  UpdateProductVariantRequest,
+} from '../types/index';
+
+/**
+ * Ensure a product exists before touching its variants
+ * @param productId - Product ID
+ * @throws NotFoundError if product not found
+ */
+const assertProductExists = async (productId: number): Promise<void> => {
+  const product = await sql`
+    SELECT 1 FROM products WHERE id = ${productId}
+  `;
+
+  if (!product || product.length === 0) {
+    throw new NotFoundError('Product', productId);
+  }
+};
+
+/**
+ * Ensure a SKU is not used by another variant
+ * @param sku - Candidate SKU
+ * @param excludeId - Variant being updated, if any
+ * @throws ConflictError if the SKU is taken
+ */
+const assertSkuAvailable = async (sku: string, excludeId: number | null = null): Promise<void> => {
+  const existing = await sql`
+    SELECT id FROM product_variants
+    WHERE sku = ${sku} AND (${excludeId}::int IS NULL OR id <> ${excludeId})
+  `;
+
+  if (existing && existing.length > 0) {
+    throw new ConflictError(`SKU ${sku} is already in use`);
+  }
+};
+
+/**
+ * Create a variant of a product
+ * @param productId - Product ID
+ * @param variantData - SKU, attributes, optional price override and stock
+ * @returns Promise<ProductVariant> - Created variant
+ * @throws NotFoundError if product not found
+ * @throws ConflictError if the SKU is already in use
+ */
+export const createVariant = async (
+  productId: number,
+  variantData: CreateProductVariantRequest
+): Promise<ProductVariant> => {
+  await assertProductExists(productId);
+  await assertSkuAvailable(variantData.sku);
+
+  const result = await sql<ProductVariant>`
+    WITH inserted AS (
+      INSERT INTO product_variants (product_id, sku, attributes, price, stock)
+      VALUES (
+        ${productId},
+        ${variantData.sku},
+        ${JSON.stringify(variantData.attributes ?? {})}::jsonb,
+        ${variantData.price ?? null},
+        ${variantData.stock}
+      )
+      RETURNING id, product_id, sku, attributes, price, stock, stock - reserved AS available, created_at
+    ),
+    movement AS (
+      INSERT INTO inventory_movements (product_id, variant_id, quantity, reason, note)
+      SELECT product_id, id, stock, ${InventoryMovementReason.RESTOCK}, 'Initial stock'
+      FROM inserted
+      WHERE stock > 0
+    )
+    SELECT * FROM inserted
+  `;
+
+  if (!result || result.length === 0) {
+    throw new Error('Failed to create product variant');
+  }
+
+  return result[0];
+};
+
+/**
+ * Get all variants of a product
+ * @param productId - Product ID
+ * @returns Promise<ProductVariant[]> - Variants, oldest first
+ * @throws NotFoundError if product not found
+ */
+export const getVariantsByProductId = async (productId: number): Promise<ProductVariant[]> => {
+  await assertProductExists(productId);
+
+  const result = await sql<ProductVariant>`
+    SELECT id, product_id, sku, attributes, price, stock, stock - reserved AS available, created_at
+    FROM product_variants
+    WHERE product_id = ${productId}
+    ORDER BY id
+  `;
+
+  return result || [];
+};
+
+/**
+ * Get a variant of a product
+ * @param productId - Product ID
+ * @param variantId - Variant ID
+ * @returns Promise<ProductVariant | null> - Variant or null if the product has no such variant
+ */
+export const getVariantById = async (
+  productId: number,
+  variantId: number
+): Promise<ProductVariant | null> => {
+  const result = await sql<ProductVariant>`
+    SELECT id, product_id, sku, attributes, price, stock, stock - reserved AS available, created_at
+    FROM product_variants
+    WHERE id = ${variantId} AND product_id = ${productId}
+  `;
+
+  return result && result.length > 0 ? result[0] : null;
+};
+
+/**
+ * Update a variant of a product
+ * @param productId - Product ID
+ * @param variantId - Variant ID
+ * @param updateData - Fields to update; price null removes the override
+ * @returns Promise<ProductVariant> - Updated variant
+ * @throws NotFoundError if the product has no such variant
+ * @throws ConflictError if the SKU is already in use by another variant
+ */
+export const updateVariant = async (
+  productId: number,
+  variantId: number,
+  updateData: UpdateProductVariantRequest
+): Promise<ProductVariant> => {
+  const variant = await getVariantById(productId, variantId);
+  if (!variant) {
+    throw new NotFoundError('Product variant', variantId);
+  }
+
+  if (updateData.sku && updateData.sku !== variant.sku) {
+    await assertSkuAvailable(updateData.sku, variantId);
+  }
+
+  // A new stock level is recorded in the inventory ledger as an adjustment from the locked
+  // current level
+  const result = await sql<ProductVariant>`
+    WITH previous AS (
+      SELECT id, stock FROM product_variants WHERE id = ${variantId} FOR UPDATE
+    ),
+    updated AS (
+      UPDATE product_variants v
+      SET
+        sku = ${updateData.sku ?? variant.sku},
+        attributes = ${JSON.stringify(updateData.attributes ?? variant.attributes)}::jsonb,
+        price = ${updateData.price !== undefined ? updateData.price : variant.price},
+        stock = COALESCE(${updateData.stock ?? null}::int, v.stock)
+      FROM previous
+      WHERE v.id = previous.id
+      RETURNING
+        v.id, v.product_id, v.sku, v.attributes, v.price, v.stock, v.stock - v.reserved AS available,
+        v.created_at, previous.stock AS previous_stock
+    ),
+    movement AS (
+      INSERT INTO inventory_movements (product_id, variant_id, quantity, reason, note)
+      SELECT product_id, id, stock - previous_stock, ${InventoryMovementReason.ADJUSTMENT},
+        'Stock set by variant update'
+      FROM updated
+      WHERE stock <> previous_stock
+    )
+    SELECT id, product_id, sku, attributes, price, stock, available, created_at FROM updated
+  `;
+
+  if (!result || result.length === 0) {
+    throw new Error('Failed to update product variant');
+  }
+
+  return result[0];
+};
+
+/**
+ * Delete a variant of a product
+ * @param productId - Product ID
+ * @param variantId - Variant ID
+ * @returns Promise<boolean> - True if the variant was deleted
+ * @throws NotFoundError if the product has no such variant
+ * @throws ConflictError if the variant has been ordered
+ */
+export const deleteVariant = async (productId: number, variantId: number): Promise<boolean> => {
+  const variant = await getVariantById(productId, variantId);
+  if (!variant) {
+    throw new NotFoundError('Product variant', variantId);
+  }
+
+  // Order items keep referencing the variant they were sold as
+  const ordered = await sql`
+    SELECT 1 FROM order_items WHERE variant_id = ${variantId} LIMIT 1
+  `;
+
+  if (ordered && ordered.length > 0) {
+    throw new ConflictError(
+      `Product variant ${variant.sku} has been ordered and cannot be deleted`
+    );
+  }
+
+  await sql`
+    DELETE FROM product_variants
+    WHERE id = ${variantId}
+  `;
+
+  return true;
+};
+
+/**
+ * Variant Service - Exported as functional module
+ */
+const variantService = {
+  createVariant,
+  getVariantsByProductId,
+  getVariantById,
+  updateVariant,
+  deleteVariant,
+};
+
+export default variantService;
@@ -0,0 +1,12 @@
+import { User } from './index';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by the authenticate middleware
+      user?: User;
+    }
+  }
+}
+
+export {};
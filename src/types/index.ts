@@ -7,6 +7,7 @@ export interface User {
   id: number;
   name: string;
   email: string;
+  role: UserRole;
   created_at: Date;
 }
 
@@ -15,17 +16,180 @@ export interface Product {
   id: number;
   name: string;
   price: number;
+  currency: string; // ISO 4217 code of price (and of its variants' price overrides)
   stock: number;
+  available: number; // stock not held by reservations of pending orders
+  reorder_threshold: number | null; // low stock once available drops to this level
+  weight_grams: number; // shipping weight of one unit
   created_at: Date;
+  converted_from?: CurrencyConversion; // set when price was converted for display (?currency=)
+}
+
+// ProductVariant entity (a sellable size, colour, ... of a product with its own SKU and stock)
+export interface ProductVariant {
+  id: number;
+  product_id: number;
+  sku: string;
+  attributes: VariantAttributes;
+  price: number | null; // overrides the product price when set
+  stock: number;
+  available: number;
+  created_at: Date;
+}
+
+export type VariantAttributes = Record<string, string | number | boolean>;
+
+// Category entity (node of the catalog tree; parent_id is null for top-level categories)
+export interface Category {
+  id: number;
+  name: string;
+  parent_id: number | null;
+  created_at: Date;
+}
+
+// InventoryMovement entity (append-only stock ledger; stock equals the sum of its movements)
+export interface InventoryMovement {
+  id: number;
+  product_id: number;
+  variant_id: number | null; // set when the variant's stock moved rather than the product's
+  quantity: number; // signed: positive adds stock, negative removes it
+  reason: InventoryMovementReason;
+  order_id: number | null;
+  refund_id: number | null;
+  actor: string | null;
+  note: string | null;
+  created_at: Date;
+}
+
+// StockReservation entity (stock held for a pending order until it is paid or expires)
+export interface StockReservation {
+  id: number;
+  order_id: number;
+  product_id: number;
+  variant_id: number | null;
+  quantity: number;
+  status: ReservationStatus;
+  expires_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// OutboxEvent entity (domain event persisted for delivery by an external relay)
+export interface OutboxEvent {
+  id: number;
+  event_type: DomainEventType;
+  payload: DomainEvent;
+  created_at: Date;
+  published_at: Date | null;
+}
+
+// Address entity (entry of a user's address book)
+export interface Address extends AddressSnapshot {
+  id: number;
+  user_id: number;
+  label: string | null; // e.g. "Home" or "Office"
+  is_default_shipping: boolean;
+  is_default_billing: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Address fields copied onto an order when it is placed
+export interface AddressSnapshot {
+  recipient_name: string;
+  line1: string;
+  line2: string | null;
+  city: string;
+  subdivision: string | null; // ISO 3166-2 code within country (CA for US-CA)
+  postal_code: string | null;
+  country: string; // ISO 3166-1 alpha-2
+  phone: string | null;
+}
+
+// CartItem entity (line of a user's persistent cart)
+export interface CartItem {
+  id: number;
+  user_id: number;
+  product_id: number;
+  variant_id: number | null;
+  quantity: number;
+  added_price: number; // unit price when the line was last added
+  created_at: Date;
+  updated_at: Date;
 }
 
 // Order entity
 export interface Order {
   id: number;
   user_id: number;
-  total_amount: number;
+  region: string | null; // ISO 3166 code the order was taxed for
+  subtotal: number; // item total before discounts
+  discount_total: number;
+  tax_total: number;
+  shipping_total: number;
+  total_amount: number; // amount to pay: subtotal - discount_total + tax_total + shipping_total
+  currency: string; // ISO 4217 code of every amount of the order, its items and discounts
+  exchange_rate: string; // exact decimal units of currency per unit of the base currency when placed
+  shipping_address: AddressSnapshot | null; // as it was when the order was placed
+  billing_address: AddressSnapshot | null;
   status: OrderStatus;
   created_at: Date;
+  converted_from?: CurrencyConversion; // set when amounts were converted for display (?currency=)
+}
+
+// Discount entity (a code entered at order time, or an automatic promotion when code is null)
+export interface Discount {
+  id: number;
+  code: string | null;
+  description: string | null;
+  type: DiscountType;
+  value: number | null; // percent off (percentage) or base currency amount off (fixed)
+  product_id: number | null; // only lines of this product qualify when set
+  buy_quantity: number | null; // buy_x_get_y: of every buy + get units, the get cheapest are free
+  get_quantity: number | null;
+  min_spend: number | null; // order subtotal (in the base currency) required to apply
+  starts_at: Date | null;
+  ends_at: Date | null;
+  max_uses: number | null;
+  max_uses_per_user: number | null;
+  times_used: number;
+  active: boolean;
+  created_at: Date;
+}
+
+// ExchangeRate entity (rate of a currency against the base currency from effective_from on)
+export interface ExchangeRate {
+  id: number;
+  currency: string;
+  rate: string; // exact decimal units of currency per unit of the base currency
+  effective_from: Date;
+  created_at: Date;
+}
+
+// Currency and rate amounts were stored in before being converted for display
+export interface CurrencyConversion {
+  currency: string;
+  rate: string; // exact decimal units of the display currency per unit of currency
+}
+
+// TaxRate entity (percentage charged in a region, optionally only on a category subtree)
+export interface TaxRate {
+  id: number;
+  region: string;
+  category_id: number | null; // null for the region's default rate
+  rate: number;
+  created_at: Date;
+}
+
+// OrderDiscount entity (discount line applied to an order; code and description are snapshots)
+export interface OrderDiscount {
+  id: number;
+  order_id: number;
+  discount_id: number | null;
+  code: string | null;
+  description: string | null;
+  amount: number;
+  created_at: Date;
 }
 
 // OrderItem entity (join table - links orders to products)
@@ -33,8 +197,22 @@ export interface OrderItem {
   id: number;
   order_id: number;
   product_id: number;
+  variant_id: number | null;
   quantity: number;
   price: number;
+  discount: number | null; // share of the order discounts; null on orders placed before it was recorded
+  tax: number | null;
+}
+
+// OrderStatusHistory entity (audit trail of status transitions)
+export interface OrderStatusHistory {
+  id: number;
+  order_id: number;
+  from_status: OrderStatus | null;
+  to_status: OrderStatus;
+  actor: string | null;
+  reason: string | null;
+  created_at: Date;
 }
 
 // Payment entity
@@ -42,15 +220,78 @@ export interface Payment {
   id: number;
   order_id: number;
   amount: number;
+  currency: string; // always the order's currency
   payment_method: string;
   status: PaymentStatus;
+  transaction_id: string | null;
   created_at: Date;
+  updated_at: Date;
+}
+
+// Refund entity (issued against a payment)
+export interface Refund {
+  id: number;
+  payment_id: number;
+  amount: number;
+  status: RefundStatus;
+  reason: string | null;
+  transaction_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// RefundItem entity (line-item detail of a refund)
+export interface RefundItem {
+  id: number;
+  refund_id: number;
+  order_item_id: number;
+  quantity: number;
+  amount: number;
+  restock: boolean;
 }
 
 /**
  * Enums
  */
 
+export enum UserRole {
+  ADMIN = 'admin',
+  STAFF = 'staff',
+  CUSTOMER = 'customer',
+}
+
+// Permissions checked by the authorize middleware.
+// ':own' variants only apply to resources owned by the requesting user.
+export enum Permission {
+  USERS_CREATE = 'users:create',
+  USERS_LIST = 'users:list',
+  USERS_READ_ANY = 'users:read:any',
+  USERS_READ_OWN = 'users:read:own',
+  USERS_UPDATE_ANY = 'users:update:any',
+  USERS_UPDATE_OWN = 'users:update:own',
+  USERS_DELETE = 'users:delete',
+  USERS_MANAGE_ROLES = 'users:manage_roles',
+  PRODUCTS_MANAGE = 'products:manage',
+  ORDERS_CREATE_ANY = 'orders:create:any',
+  ORDERS_CREATE_OWN = 'orders:create:own',
+  ORDERS_LIST = 'orders:list',
+  ORDERS_READ_ANY = 'orders:read:any',
+  ORDERS_READ_OWN = 'orders:read:own',
+  ORDERS_UPDATE_STATUS = 'orders:update_status',
+  ORDERS_PAY_ANY = 'orders:pay:any',
+  ORDERS_PAY_OWN = 'orders:pay:own',
+  PAYMENTS_READ_ANY = 'payments:read:any',
+  PAYMENTS_READ_OWN = 'payments:read:own',
+  PAYMENTS_REFUND = 'payments:refund',
+  CARTS_MANAGE_ANY = 'carts:manage:any',
+  CARTS_MANAGE_OWN = 'carts:manage:own',
+  DISCOUNTS_MANAGE = 'discounts:manage',
+  TAX_RATES_MANAGE = 'tax_rates:manage',
+  EXCHANGE_RATES_MANAGE = 'exchange_rates:manage',
+  ADDRESSES_MANAGE_ANY = 'addresses:manage:any',
+  ADDRESSES_MANAGE_OWN = 'addresses:manage:own',
+}
+
 export enum OrderStatus {
   PENDING = 'pending',
   CONFIRMED = 'confirmed',
@@ -59,6 +300,33 @@ export enum OrderStatus {
   CANCELLED = 'cancelled',
 }
 
+export enum InventoryMovementReason {
+  SALE = 'sale',
+  RESTOCK = 'restock',
+  ADJUSTMENT = 'adjustment',
+  RETURN = 'return',
+  CANCELLATION = 'cancellation',
+}
+
+// active holds stock; committed has been decremented from stock; released no longer holds any
+export enum ReservationStatus {
+  ACTIVE = 'active',
+  COMMITTED = 'committed',
+  RELEASED = 'released',
+}
+
+// In-process domain events, published after the change they describe has been committed
+export enum DomainEventType {
+  STOCK_LOW = 'stock.low',
+  STOCK_REPLENISHED = 'stock.replenished',
+}
+
+export enum DiscountType {
+  PERCENTAGE = 'percentage',
+  FIXED = 'fixed',
+  BUY_X_GET_Y = 'buy_x_get_y',
+}
+
 export enum PaymentStatus {
   PENDING = 'pending',
   COMPLETED = 'completed',
@@ -66,10 +334,62 @@ export enum PaymentStatus {
   REFUNDED = 'refunded',
 }
 
+export enum RefundStatus {
+  PENDING = 'pending',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
 /**
  * Request/Response Types
  */
 
+// Common route parameters and query strings
+export interface IdParams {
+  id: number;
+}
+
+export interface VariantParams extends IdParams {
+  variantId: number;
+}
+
+export interface CartItemParams extends IdParams {
+  itemId: number;
+}
+
+export interface AddressParams extends IdParams {
+  addressId: number;
+}
+
+// Offset mode uses page; keyset mode uses a cursor from the previous page's next_cursor
+export interface PaginationQuery {
+  page?: number;
+  cursor?: PageCursor;
+  limit: number;
+  include_total: boolean;
+}
+
+// Keyset position: the last row of the previous page, in (created_at DESC, id DESC) order
+export interface PageCursor {
+  created_at: Date;
+  id: number;
+}
+
+export interface OrderListQuery extends PaginationQuery, OrderFilters, CurrencyQuery {}
+
+export interface ProductListQuery extends PaginationQuery, ProductFilters, CurrencyQuery {
+  sort: ProductSort[];
+}
+
+// Display amounts in another currency, converted at the current exchange rate
+export interface CurrencyQuery {
+  currency?: string;
+}
+
+export interface ExchangeRateListQuery extends PaginationQuery, ExchangeRateFilters {}
+
+export interface StockMovementListQuery extends PaginationQuery, StockMovementFilters {}
+
 // User requests
 export interface CreateUserRequest {
   name: string;
@@ -81,37 +401,288 @@ export interface UpdateUserRequest {
   email?: string;
 }
 
+export interface UpdateUserRoleRequest {
+  role: UserRole;
+}
+
+// Auth requests
+export interface RegisterRequest {
+  name: string;
+  email: string;
+  password: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface RefreshTokenRequest {
+  refresh_token: string;
+}
+
 // Product requests
+// reorder_threshold null disables low-stock alerts for the product
 export interface CreateProductRequest {
   name: string;
   price: number;
   stock: number;
+  reorder_threshold?: number | null;
+  weight_grams?: number;
+  currency?: string; // defaults to the base currency
 }
 
 export interface UpdateProductRequest {
   name?: string;
   price?: number;
   stock?: number;
+  reorder_threshold?: number | null;
+  weight_grams?: number;
+  currency?: string;
+}
+
+// Product list filters; category_id matches the category and all of its descendants
+export interface ProductFilters {
+  category_id?: number;
+  q?: string;
+  min_price?: number;
+  max_price?: number;
+  in_stock?: boolean; // has stock available to sell
+  currency?: string; // the price range, price sort and price facets are in (default: base)
+}
+
+// Product list ordering; relevance is only available together with a search term
+export type ProductSortField = 'name' | 'price' | 'stock' | 'created_at' | 'relevance';
+
+export interface ProductSort {
+  field: ProductSortField;
+  direction: 'asc' | 'desc';
+}
+
+// Product variant requests
+export interface CreateProductVariantRequest {
+  sku: string;
+  attributes?: VariantAttributes;
+  price?: number | null;
+  stock: number;
+}
+
+export interface UpdateProductVariantRequest {
+  sku?: string;
+  attributes?: VariantAttributes;
+  price?: number | null;
+  stock?: number;
+}
+
+// Manual stock change; sales, cancellations and refund returns are recorded by their own flows
+export interface StockAdjustmentRequest {
+  quantity: number; // signed, non-zero
+  reason:
+    | InventoryMovementReason.RESTOCK
+    | InventoryMovementReason.ADJUSTMENT
+    | InventoryMovementReason.RETURN;
+  variant_id?: number;
+  note?: string;
+  actor?: string;
+}
+
+// Stock movement list filters
+export interface StockMovementFilters {
+  variant_id?: number;
+  reason?: InventoryMovementReason;
+}
+
+export interface SetProductCategoriesRequest {
+  category_ids: number[];
+}
+
+// Category requests; parent_id null places the category at the top level
+export interface CreateCategoryRequest {
+  name: string;
+  parent_id?: number | null;
+}
+
+export interface UpdateCategoryRequest {
+  name?: string;
+  parent_id?: number | null;
+}
+
+// Cart requests; adding an item that is already in the cart increases its quantity
+export interface AddCartItemRequest {
+  product_id: number;
+  variant_id?: number;
+  quantity: number;
+}
+
+export interface UpdateCartItemRequest {
+  quantity: number;
+}
+
+export interface CheckoutCartRequest {
+  discount_codes?: string[];
+  region?: string;
+  currency?: string;
+  shipping_address_id?: number;
+  billing_address_id?: number;
+}
+
+// Address requests; marking an address as a default clears the flag on the user's other
+// addresses
+export interface CreateAddressRequest {
+  label?: string | null;
+  recipient_name: string;
+  line1: string;
+  line2?: string | null;
+  city: string;
+  subdivision?: string | null;
+  postal_code?: string | null;
+  country: string;
+  phone?: string | null;
+  is_default_shipping?: boolean;
+  is_default_billing?: boolean;
+}
+
+export interface UpdateAddressRequest {
+  label?: string | null;
+  recipient_name?: string;
+  line1?: string;
+  line2?: string | null;
+  city?: string;
+  subdivision?: string | null;
+  postal_code?: string | null;
+  country?: string;
+  phone?: string | null;
+  is_default_shipping?: boolean;
+  is_default_billing?: boolean;
+}
+
+// Discount requests; code null or omitted creates an automatic promotion
+export interface CreateDiscountRequest {
+  code?: string | null;
+  description?: string;
+  type: DiscountType;
+  value?: number;
+  product_id?: number;
+  buy_quantity?: number;
+  get_quantity?: number;
+  min_spend?: number;
+  starts_at?: Date;
+  ends_at?: Date;
+  max_uses?: number;
+  max_uses_per_user?: number;
+  active?: boolean;
+}
+
+// The rule itself (code, type, value, product, quantities) is fixed once created
+export interface UpdateDiscountRequest {
+  description?: string;
+  min_spend?: number | null;
+  starts_at?: Date | null;
+  ends_at?: Date | null;
+  max_uses?: number | null;
+  max_uses_per_user?: number | null;
+  active?: boolean;
+}
+
+// Tax rate requests; category_id null or omitted sets the region's default rate
+export interface CreateTaxRateRequest {
+  region: string;
+  category_id?: number | null;
+  rate: number;
+}
+
+export interface UpdateTaxRateRequest {
+  rate: number;
+}
+
+export interface TaxRateFilters {
+  region?: string;
+}
+
+// Exchange rate requests; effective_from defaults to now
+export interface CreateExchangeRateRequest {
+  currency: string;
+  rate: number;
+  effective_from?: Date;
+}
+
+export interface ExchangeRateFilters {
+  currency?: string;
 }
 
 // Order requests
+// Automatic promotions apply on their own; discount_codes adds coupons on top. Tax is charged
+// at the rates of region, which defaults to the shipping address's (none without either).
+// Prices are converted into currency (default: the base currency) at the current exchange
+// rates. Address IDs refer to the ordering user's address book
 export interface CreateOrderRequest {
   user_id: number;
   items: OrderItemInput[];
+  discount_codes?: string[];
+  region?: string;
+  currency?: string;
+  shipping_address_id?: number;
+  billing_address_id?: number;
 }
 
+// Lines with a variant_id draw on that variant's stock and price
 export interface OrderItemInput {
   product_id: number;
+  variant_id?: number;
   quantity: number;
 }
 
+// Per-item failure reported when an order cannot be fulfilled
+export interface OrderItemFailure {
+  product_id: number;
+  variant_id?: number;
+  requested: number;
+  available: number;
+  reason: 'not_found' | 'insufficient_stock';
+}
+
+// Order list filters
+export interface OrderFilters {
+  status?: OrderStatus;
+  user_id?: number;
+  from?: Date;
+  to?: Date;
+}
+
+export interface UpdateOrderStatusRequest {
+  status: OrderStatus;
+  reason?: string;
+}
+
+// Status change as applied by the order service; the actor is the authenticated user or a job,
+// never the request body
+export interface OrderStatusChange extends UpdateOrderStatusRequest {
+  actor?: string;
+}
+
 // Payment requests
+// currency is optional but must be the order's currency when given
 export interface CreatePaymentRequest {
   order_id: number;
   amount: number;
+  currency?: string;
   payment_method: string;
 }
 
+// Refund requests
+// Provide either a custom amount or line items; omit both to refund the remaining balance
+export interface CreateRefundRequest {
+  amount?: number;
+  items?: RefundItemInput[];
+  restock?: boolean;
+  reason?: string;
+}
+
+export interface RefundItemInput {
+  order_item_id: number;
+  quantity: number;
+}
+
 /**
  * API Response Types
  */
@@ -123,24 +694,34 @@ export interface ApiResponse<T> {
   timestamp: string;
 }
 
+// page is omitted in cursor mode; total and totalPages only when the count was requested
+export interface Pagination {
+  page?: number;
+  limit: number;
+  total?: number;
+  totalPages?: number;
+  next_cursor: string | null;
+}
+
 export interface PaginatedResponse<T> {
   status: 'success' | 'error';
   message: string;
   data: T[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-  };
+  pagination: Pagination;
   timestamp: string;
 }
 
+// Paginated list with facet counts, e.g. GET /products; facets are counted with the total
+export interface FacetedResponse<T, F> extends PaginatedResponse<T> {
+  facets?: F;
+}
+
 export interface ApiErrorResponse {
   status: 'error';
   message: string;
   error: string;
   statusCode: number;
+  details?: unknown;
   timestamp: string;
 }
 
@@ -148,16 +729,188 @@ export interface ApiErrorResponse {
  * Extended types for API responses
  */
 
-export interface OrderWithItems extends Order {
+export interface OrderWithItems extends OrderWithDiscounts {
   items: OrderItemWithProduct[];
   user: User;
 }
 
+// Order with the discount lines behind its subtotal -> total_amount breakdown
+export interface OrderWithDiscounts extends Order {
+  discounts: OrderDiscount[];
+}
+
 export interface OrderItemWithProduct extends OrderItem {
   product: Product;
+  variant: ProductVariant | null;
+}
+
+// Facet counts for a product search. Each facet ignores its own filter, so the counts show
+// what selecting another price bucket or toggling in_stock would return.
+export interface ProductFacets {
+  price: PriceBucketFacet[];
+  availability: {
+    in_stock: number;
+    out_of_stock: number;
+  };
+}
+
+export interface PriceBucketFacet {
+  min: number;
+  max: number | null;
+  count: number;
+}
+
+export interface ProductWithCategories extends Product {
+  categories: Category[];
+}
+
+export interface CategoryTree extends Category {
+  children: CategoryTree[];
+}
+
+// Ancestors run from the root down to the parent (breadcrumbs)
+export interface CategoryWithRelations extends Category {
+  ancestors: Category[];
+  children: Category[];
+}
+
+export interface StockAdjustmentResult {
+  stock: number; // stock levels after the adjustment
+  available: number;
+  movement: InventoryMovement;
+}
+
+// A product (variant_id null) or variant whose stock differs from the sum of its movements
+export interface StockDiscrepancy {
+  product_id: number;
+  variant_id: number | null;
+  stock: number;
+  ledger_stock: number;
+}
+
+export interface InventoryReconciliation {
+  consistent: boolean;
+  checked_at: Date;
+  discrepancies: StockDiscrepancy[];
+}
+
+// Discount the promotion engine applied to an order being priced
+export interface AppliedDiscount {
+  discount_id: number;
+  code: string | null;
+  description: string | null;
+  amount: number;
+}
+
+// Line of an order quote; tax is charged on the line after its share of the discounts
+export interface OrderQuoteLine {
+  product_id: number;
+  variant_id: number | null;
+  quantity: number;
+  price: number;
+  line_total: number;
+  discount: number; // share of the order discounts
+  tax_rate: number; // percent
+  tax: number;
+}
+
+// Priced order: what POST /orders/quote returns and what an order is created with
+export interface OrderQuote {
+  currency: string;
+  exchange_rate: string; // exact decimal, as stored on the order
+  region: string | null;
+  items: OrderQuoteLine[];
+  subtotal: number;
+  discounts: AppliedDiscount[];
+  discount_total: number;
+  tax_total: number;
+  shipping_total: number;
+  total: number;
+}
+
+// Product at or below its reorder threshold; shortfall is how far available stock is below it
+export interface LowStockProduct extends Product {
+  reorder_threshold: number;
+  shortfall: number;
+  low_stock_since: Date | null;
+}
+
+// Cart line priced and checked against stock at read time
+export interface CartLine extends CartItem {
+  name: string;
+  sku: string | null;
+  currency: string;
+  price: number; // current unit price
+  line_total: number;
+  available: number;
+  price_changed: boolean; // price differs from added_price
+  in_stock: boolean; // available covers quantity
+}
+
+// Lines keep their product's currency; subtotal is converted into the base currency
+export interface Cart {
+  user_id: number;
+  items: CartLine[];
+  currency: string;
+  subtotal: number;
+  price_changed: boolean;
+  in_stock: boolean;
+}
+
+export interface CartPriceChange {
+  product_id: number;
+  variant_id: number | null;
+  added_price: number;
+  price: number;
+}
+
+// Order placed from a cart, with the lines whose price changed since they were added
+export interface CartCheckoutResult {
+  order: OrderWithDiscounts;
+  price_changes: CartPriceChange[];
+}
+
+export interface AuthTokens {
+  access_token: string;
+  refresh_token: string;
+  token_type: 'Bearer';
+  expires_in: string;
+}
+
+export interface AuthResult extends AuthTokens {
+  user: User;
+}
+
+// Claims carried by an access token
+export interface AccessTokenPayload {
+  sub: string;
+  email: string;
+  role: UserRole;
+}
+
+export interface RefundWithItems extends Refund {
+  items: RefundItem[];
 }
 
 export interface UserWithOrders extends User {
   orders: Order[];
   orderCount: number;
 }
+
+/**
+ * Domain Event Types
+ */
+
+// Available stock of a product crossed its reorder threshold (down for stock.low, back up for
+// stock.replenished)
+export interface StockThresholdEvent {
+  type: DomainEventType.STOCK_LOW | DomainEventType.STOCK_REPLENISHED;
+  occurred_at: Date;
+  product_id: number;
+  name: string;
+  stock: number;
+  available: number;
+  reorder_threshold: number;
+}
+
+export type DomainEvent = StockThresholdEvent;
@@ -0,0 +1,47 @@
+// In-process domain event bus
+// Services publish events after their change has been committed; subscribers (notification
+// sinks) run asynchronously, so a slow or failing subscriber never fails the request
+
+import { DomainEvent, DomainEventType } from '../types/index';
+import logger, { serializeError } from './logger';
+
+export type DomainEventHandler = (event: DomainEvent) => void | Promise<void>;
+
+const handlers = new Map<DomainEventType, Set<DomainEventHandler>>();
+
+/**
+ * Register a handler for one or more event types
+ * @param types - Event types to receive
+ * @param handler - Called with each published event of those types
+ * @returns () => void - Removes the subscription
+ */
+export const subscribe = (types: DomainEventType[], handler: DomainEventHandler): (() => void) => {
+  for (const type of types) {
+    const subscribers = handlers.get(type) ?? new Set();
+    subscribers.add(handler);
+    handlers.set(type, subscribers);
+  }
+
+  return () => {
+    for (const type of types) {
+      handlers.get(type)?.delete(handler);
+    }
+  };
+};
+
+/**
+ * Deliver an event to every subscriber of its type without waiting for them
+ * @param event - Event to publish
+ */
+export const publish = (event: DomainEvent): void => {
+  for (const handler of handlers.get(event.type) ?? []) {
+    Promise.resolve()
+      .then(() => handler(event))
+      .catch((error) => {
+        logger.error('domain event handler failed', {
+          event_type: event.type,
+          error: serializeError(error),
+        });
+      });
+  }
+};
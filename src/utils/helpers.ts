@@ -1,2 +1,210 @@
 // General helper functions
-// TODO: Date formatting, currency conversion, pagination helpers
+// TODO: Date formatting
+
+import { Pagination, PaginationQuery, PageCursor } from '../types/index';
+
+/**
+ * Money helpers
+ *
+ * Amounts are handled as integer cents and rates as scaled integers, and every multiplication
+ * or division goes through BigInt, so results are exact and rounded once, half away from zero,
+ * like Postgres NUMERIC.
+ */
+
+// Decimal places kept for exchange rates (NUMERIC(18,8))
+export const RATE_SCALE = 8;
+
+/**
+ * Parse a decimal amount into an integer scaled by 10^scale, rounding half away from zero.
+ * Strings are read digit by digit and numbers by their shortest decimal form, so binary
+ * floating-point error never creeps in (1.005 becomes 101 cents, not 100).
+ * @param amount - Decimal amount (e.g. 19.99 or '19.99')
+ * @param scale - Decimal places to keep
+ * @returns bigint - Scaled integer (e.g. 1999n for scale 2)
+ * @throws Error if the amount is not a decimal number
+ */
+export const toScaled = (amount: number | string, scale: number): bigint => {
+  let text = typeof amount === 'number' ? String(amount) : amount.trim();
+  if (/e/i.test(text)) {
+    text = Number(text).toFixed(Math.min(scale + 1, 100));
+  }
+
+  const match = /^([+-]?)(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || (match[2] === '' && !match[3])) {
+    throw new Error(`Invalid decimal amount: ${amount}`);
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  const digits = BigInt(`${whole || '0'}${fraction.slice(0, scale).padEnd(scale, '0')}`);
+  const roundUp = Number(fraction.charAt(scale) || '0') >= 5;
+  const scaled = roundUp ? digits + 1n : digits;
+
+  return sign === '-' ? -scaled : scaled;
+};
+
+/**
+ * Format an integer scaled by 10^scale as a decimal string, the inverse of toScaled
+ * @param scaled - Scaled integer (e.g. 92000000n for scale 8)
+ * @param scale - Decimal places it holds
+ * @returns string - Decimal with exactly scale places (e.g. '0.92000000')
+ */
+export const fromScaled = (scaled: bigint, scale: number): string => {
+  const digits = (scaled < 0n ? -scaled : scaled).toString().padStart(scale + 1, '0');
+  const whole = digits.slice(0, digits.length - scale);
+  const fraction = digits.slice(digits.length - scale);
+
+  return `${scaled < 0n ? '-' : ''}${whole}${scale > 0 ? `.${fraction}` : ''}`;
+};
+
+/**
+ * Divide two integers, rounding half away from zero
+ * @param numerator - Dividend
+ * @param denominator - Divisor (non-zero)
+ * @returns bigint - Rounded quotient
+ */
+export const divideRounded = (numerator: bigint, denominator: bigint): bigint => {
+  const negative = numerator < 0n !== denominator < 0n;
+  const n = numerator < 0n ? -numerator : numerator;
+  const d = denominator < 0n ? -denominator : denominator;
+  const quotient = (n * 2n + d) / (d * 2n);
+
+  return negative ? -quotient : quotient;
+};
+
+/**
+ * Convert a monetary amount to integer cents.
+ * NUMERIC columns arrive as strings, so both strings and numbers are accepted.
+ * @param amount - Amount in major units (e.g. 19.99 or '19.99')
+ * @returns number - Amount in cents (e.g. 1999)
+ */
+export const toCents = (amount: number | string): number => {
+  return Number(toScaled(amount, 2));
+};
+
+/**
+ * Convert integer cents back to a major-unit amount
+ * @param cents - Amount in cents
+ * @returns number - Amount in major units, rounded to 2 decimals
+ */
+export const fromCents = (cents: number): number => {
+  return cents / 100;
+};
+
+/**
+ * Take a percentage of an amount
+ * @param cents - Amount in cents
+ * @param percent - Percentage with up to 3 decimals (e.g. 7.25 or '7.250')
+ * @returns number - Rounded share in cents
+ */
+export const percentOfCents = (cents: number, percent: number | string): number => {
+  return Number(divideRounded(BigInt(cents) * toScaled(percent, 3), 100000n));
+};
+
+/**
+ * Convert an amount between currencies through their rates against the base currency
+ * @param cents - Amount in cents of the source currency
+ * @param fromRate - Units of the source currency per unit of the base currency
+ * @param toRate - Units of the target currency per unit of the base currency
+ * @returns number - Rounded amount in cents of the target currency
+ */
+export const convertCents = (
+  cents: number,
+  fromRate: number | string,
+  toRate: number | string
+): number => {
+  return Number(
+    divideRounded(BigInt(cents) * toScaled(toRate, RATE_SCALE), toScaled(fromRate, RATE_SCALE))
+  );
+};
+
+/**
+ * Pagination helpers
+ *
+ * Lists are ordered newest first by (created_at, id). Offset mode skips (page - 1) * limit rows;
+ * keyset mode continues after the row encoded in the cursor, so deep pages stay fast and rows
+ * inserted meanwhile are neither skipped nor repeated.
+ */
+
+/**
+ * Encode the keyset position of a row as an opaque cursor
+ * @param row - Last row of a page
+ * @returns string - URL-safe cursor
+ */
+export const encodeCursor = (row: PageCursor): string => {
+  return Buffer.from(JSON.stringify([row.created_at.toISOString(), row.id])).toString('base64url');
+};
+
+/**
+ * Decode a cursor produced by encodeCursor
+ * @param cursor - Cursor from a previous response
+ * @returns PageCursor | null - Keyset position, or null if the cursor is malformed
+ */
+export const decodeCursor = (cursor: string): PageCursor | null => {
+  try {
+    const [createdAt, id] = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8')
+    ) as unknown[];
+    const created_at = typeof createdAt === 'string' ? new Date(createdAt) : null;
+
+    if (!created_at || Number.isNaN(created_at.getTime())) {
+      return null;
+    }
+    return typeof id === 'number' && Number.isInteger(id) && id > 0 ? { created_at, id } : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Translate pagination options into query parameters
+ *
+ * One extra row is fetched so takePage can tell whether another page follows.
+ *
+ * @param query - Validated pagination options
+ * @returns Rows to skip, rows to fetch and the keyset position (nulls in offset mode)
+ */
+export const pageWindow = (query: PaginationQuery) => ({
+  offset: query.cursor ? 0 : ((query.page ?? 1) - 1) * query.limit,
+  fetch: query.limit + 1,
+  afterCreatedAt: query.cursor?.created_at ?? null,
+  afterId: query.cursor?.id ?? null,
+});
+
+/**
+ * Drop the extra row fetched by pageWindow and build the cursor of the next page
+ * @param rows - Rows returned for the window
+ * @param limit - Page size
+ * @param keyset - False when the rows are not in (created_at, id) order, so no cursor applies
+ * @returns Rows of the page and the next cursor (null on the last page)
+ */
+export const takePage = <T extends PageCursor>(
+  rows: T[],
+  limit: number,
+  keyset: boolean = true
+): { rows: T[]; next_cursor: string | null } => {
+  const page = rows.slice(0, limit);
+  const hasMore = rows.length > limit;
+
+  return {
+    rows: page,
+    next_cursor: keyset && hasMore ? encodeCursor(page[page.length - 1]) : null,
+  };
+};
+
+/**
+ * Build the pagination block of a list response
+ * @param query - Validated pagination options
+ * @param total - Total matching rows, or null when the count was skipped
+ * @param next_cursor - Cursor of the next page
+ * @returns Pagination
+ */
+export const toPagination = (
+  query: PaginationQuery,
+  total: number | null,
+  next_cursor: string | null
+): Pagination => ({
+  ...(query.cursor ? {} : { page: query.page }),
+  limit: query.limit,
+  ...(total === null ? {} : { total, totalPages: Math.ceil(total / query.limit) }),
+  next_cursor,
+});
@@ -1,2 +1,95 @@
 // Logging utility using Winston
-// TODO: Configure Winston logger with appropriate log levels and transports
+// Leveled JSON logs, tagged with the current request ID and scrubbed of sensitive fields
+
+import winston from 'winston';
+import { config } from '../config/env';
+import { getRequestId } from './requestContext';
+
+const REDACTED = '[REDACTED]';
+
+// Keys whose values never reach the logs, matched case-insensitively at any depth
+const SENSITIVE_KEYS = new Set([
+  'email',
+  'password',
+  'password_hash',
+  'authorization',
+  'access_token',
+  'refresh_token',
+  'token',
+  'payment_method',
+  'card_number',
+  'cvv',
+]);
+
+/**
+ * Recursively replace the values of sensitive keys
+ * @param value - Value to scrub
+ * @returns unknown - Copy of the value with sensitive fields redacted
+ */
+export const redact = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+
+  if (value === null || typeof value !== 'object' || value instanceof Date) {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      SENSITIVE_KEYS.has(key.toLowerCase()) ? REDACTED : redact(field),
+    ])
+  );
+};
+
+/**
+ * Convert an error into a plain object that survives JSON serialization
+ * @param error - Thrown value
+ * @returns Record<string, unknown> - Name, message, stack and any driver error code
+ */
+export const serializeError = (error: unknown): Record<string, unknown> => {
+  if (!(error instanceof Error)) {
+    return { message: String(error) };
+  }
+
+  const { code } = error as { code?: unknown };
+  return {
+    name: error.name,
+    message: error.message,
+    ...(code !== undefined && { code }),
+    stack: error.stack,
+  };
+};
+
+const requestIdFormat = winston.format((info) => {
+  const requestId = getRequestId();
+  if (requestId && info.request_id === undefined) {
+    info.request_id = requestId;
+  }
+  return info;
+});
+
+const redactFormat = winston.format((info) => {
+  // Symbol-keyed level/message metadata is preserved by mutating in place
+  for (const key of Object.keys(info)) {
+    if (key === 'level' || key === 'message') {
+      continue;
+    }
+    info[key] = SENSITIVE_KEYS.has(key.toLowerCase()) ? REDACTED : redact(info[key]);
+  }
+  return info;
+});
+
+export const logger = winston.createLogger({
+  level: config.logging.level,
+  format: winston.format.combine(
+    winston.format.timestamp(),
+    requestIdFormat(),
+    redactFormat(),
+    winston.format.json()
+  ),
+  transports: [new winston.transports.Console()],
+});
+
+export default logger;
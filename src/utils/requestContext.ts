@@ -0,0 +1,32 @@
+// Per-request async context
+// Carries the request ID through controllers and services without threading it by hand
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface RequestContext {
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function inside a request context
+ * @param context - Context visible to everything the function awaits
+ * @param fn - Function to run
+ * @returns T - Return value of fn
+ */
+export const runWithRequestContext = <T>(context: RequestContext, fn: () => T): T => {
+  return storage.run(context, fn);
+};
+
+/**
+ * Get the context of the request currently being handled
+ * @returns RequestContext | undefined - Context, or undefined outside a request
+ */
+export const getRequestContext = (): RequestContext | undefined => storage.getStore();
+
+/**
+ * Get the ID of the request currently being handled
+ * @returns string | undefined - Request ID, or undefined outside a request
+ */
+export const getRequestId = (): string | undefined => storage.getStore()?.requestId;
@@ -1,2 +1,642 @@
 // Helper functions for validation
-// TODO: Email validation, UUID validation, numeric validation
+// Joi schemas for route params, query strings and request bodies
+
+import Joi from 'joi';
+import { MAX_LINE_QUANTITY } from '../config/constants';
+import {
+  AddCartItemRequest,
+  AddressParams,
+  CartItemParams,
+  CheckoutCartRequest,
+  CreateAddressRequest,
+  CreateCategoryRequest,
+  CreateDiscountRequest,
+  CreateExchangeRateRequest,
+  CreateOrderRequest,
+  CreatePaymentRequest,
+  CreateProductRequest,
+  CreateProductVariantRequest,
+  CreateRefundRequest,
+  CreateTaxRateRequest,
+  CreateUserRequest,
+  CurrencyQuery,
+  DiscountType,
+  ExchangeRateListQuery,
+  IdParams,
+  InventoryMovementReason,
+  LoginRequest,
+  OrderListQuery,
+  OrderStatus,
+  PaginationQuery,
+  ProductListQuery,
+  ProductSort,
+  ProductSortField,
+  RefreshTokenRequest,
+  RegisterRequest,
+  SetProductCategoriesRequest,
+  StockAdjustmentRequest,
+  StockMovementListQuery,
+  TaxRateFilters,
+  UpdateAddressRequest,
+  UpdateCartItemRequest,
+  UpdateCategoryRequest,
+  UpdateDiscountRequest,
+  UpdateOrderStatusRequest,
+  UpdateProductRequest,
+  UpdateProductVariantRequest,
+  UpdateTaxRateRequest,
+  UpdateUserRequest,
+  UpdateUserRoleRequest,
+  UserRole,
+  VariantParams,
+} from '../types/index';
+import { decodeCursor, fromCents, toCents, toScaled } from './helpers';
+
+/**
+ * Shared field rules
+ */
+
+// Positive integer; numeric strings from params and query strings are coerced
+export const id = () => Joi.number().integer().positive();
+
+export const email = () => Joi.string().trim().email().max(255);
+
+export const name = () => Joi.string().trim().min(1).max(255);
+
+// Non-negative amount with at most 2 decimal places (NUMERIC(10,2)); never rounded silently
+export const money = () =>
+  Joi.number()
+    .min(0)
+    .max(99999999.99)
+    .custom((value: number, helpers) =>
+      fromCents(toCents(value)) === value ? value : helpers.error('number.precision', { limit: 2 })
+    );
+
+export const quantity = () => Joi.number().integer().positive();
+
+// Discount codes are matched case-insensitively and stored upper-case
+export const discountCode = () =>
+  Joi.string()
+    .trim()
+    .uppercase()
+    .pattern(/^[A-Z0-9_-]{3,32}$/)
+    .messages({
+      'string.pattern.base': '{{#label}} must be 3-32 letters, digits, dashes or underscores',
+    });
+
+const discountCodes = () => Joi.array().items(discountCode()).unique().max(5);
+
+// ISO 3166-1 country (DE) or ISO 3166-2 subdivision (US-CA) code, stored upper-case
+export const region = () =>
+  Joi.string()
+    .trim()
+    .uppercase()
+    .pattern(/^[A-Z]{2}(-[A-Z0-9]{1,3})?$/)
+    .messages({
+      'string.pattern.base': '{{#label}} must be an ISO 3166 country or subdivision code',
+    });
+
+// ISO 4217 currency code (EUR), stored upper-case
+export const currency = () =>
+  Joi.string()
+    .trim()
+    .uppercase()
+    .pattern(/^[A-Z]{3}$/)
+    .messages({
+      'string.pattern.base': '{{#label}} must be an ISO 4217 currency code',
+    });
+
+// Comma-separated sort keys, '-' prefix for descending: "-price,name" => [{price desc}, {name asc}]
+export const sortList = <T extends string>(fields: readonly T[]) =>
+  Joi.string().custom((value: string, helpers) => {
+    const sort = value.split(',').map((key) => {
+      const field = key.trim().replace(/^-/, '') as T;
+      return { field, direction: key.trim().startsWith('-') ? 'desc' : 'asc' };
+    });
+    const unique = new Set(sort.map(({ field }) => field)).size === sort.length;
+
+    if (!unique || sort.some(({ field }) => !fields.includes(field))) {
+      const allowed = fields.join(', ');
+      return helpers.message({ custom: `{{#label}} must be a comma-separated list of ${allowed}` });
+    }
+    return sort;
+  });
+
+/**
+ * Check whether a string is a valid email address
+ * @param value - Candidate email
+ * @returns boolean - True if valid
+ */
+export const isValidEmail = (value: string): boolean => !email().validate(value).error;
+
+/**
+ * Route params and query strings
+ */
+
+export const idParamsSchema = Joi.object<IdParams>({
+  id: id().required(),
+});
+
+export const variantParamsSchema = Joi.object<VariantParams>({
+  id: id().required(),
+  variantId: id().required(),
+});
+
+export const cartItemParamsSchema = Joi.object<CartItemParams>({
+  id: id().required(),
+  itemId: id().required(),
+});
+
+export const addressParamsSchema = Joi.object<AddressParams>({
+  id: id().required(),
+  addressId: id().required(),
+});
+
+// Opaque keyset cursor from a previous response's next_cursor
+export const cursor = () =>
+  Joi.string().custom(
+    (value: string, helpers) =>
+      decodeCursor(value) ?? helpers.message({ custom: '{{#label}} is not a valid cursor' })
+  );
+
+// page and cursor are exclusive; the total is counted by default only in page mode
+const paginationKeys = {
+  page: Joi.number()
+    .integer()
+    .min(1)
+    .when('cursor', { is: Joi.exist(), then: Joi.forbidden(), otherwise: Joi.number().default(1) })
+    .messages({ 'any.unknown': 'page cannot be combined with cursor' }),
+  limit: Joi.number().integer().min(1).max(100).default(10),
+  cursor: cursor(),
+  include_total: Joi.boolean().when('cursor', {
+    is: Joi.exist(),
+    then: Joi.boolean().default(false),
+    otherwise: Joi.boolean().default(true),
+  }),
+};
+
+export const paginationQuerySchema = Joi.object<PaginationQuery>(paginationKeys);
+
+export const currencyQuerySchema = Joi.object<CurrencyQuery>({
+  currency: currency(),
+});
+
+export const userOrderListQuerySchema = Joi.object<PaginationQuery & CurrencyQuery>({
+  ...paginationKeys,
+  currency: currency(),
+});
+
+export const orderListQuerySchema = Joi.object<OrderListQuery>({
+  ...paginationKeys,
+  status: Joi.string().valid(...Object.values(OrderStatus)),
+  user_id: id(),
+  from: Joi.date().iso(),
+  to: Joi.date()
+    .iso()
+    .when('from', { is: Joi.exist(), then: Joi.date().min(Joi.ref('from')) })
+    .messages({ 'date.min': 'to must not be earlier than from' }),
+  currency: currency(),
+});
+
+export const stockMovementListQuerySchema = Joi.object<StockMovementListQuery>({
+  ...paginationKeys,
+  variant_id: id(),
+  reason: Joi.string().valid(...Object.values(InventoryMovementReason)),
+});
+
+// Sorted by shortfall, so only page mode applies
+export const lowStockQuerySchema = Joi.object<PaginationQuery>({
+  ...paginationKeys,
+  cursor: Joi.forbidden(),
+});
+
+const PRODUCT_SORT_FIELDS: ProductSortField[] = ['name', 'price', 'stock', 'created_at'];
+
+// Search keys shared by GET /products and GET /categories/:id/products
+const productSearchKeys = {
+  ...paginationKeys,
+  q: Joi.string()
+    .trim()
+    .max(200)
+    .pattern(/[\p{L}\p{N}]/u)
+    .messages({ 'string.pattern.base': 'q must contain at least one letter or digit' }),
+  min_price: money(),
+  max_price: money()
+    .when('min_price', { is: Joi.exist(), then: Joi.number().min(Joi.ref('min_price')) })
+    .messages({ 'number.min': 'max_price must not be less than min_price' }),
+  in_stock: Joi.boolean(),
+  currency: currency(),
+  // Cursor pages are always newest first
+  sort: Joi.when('cursor', {
+    is: Joi.exist(),
+    then: Joi.forbidden().messages({ 'any.unknown': 'sort cannot be combined with cursor' }),
+  })
+    .when('q', {
+      is: Joi.exist(),
+      then: sortList<ProductSortField>([...PRODUCT_SORT_FIELDS, 'relevance']),
+      otherwise: sortList(PRODUCT_SORT_FIELDS),
+    })
+    .default((): ProductSort[] => []),
+};
+
+export const productListQuerySchema = Joi.object<ProductListQuery>({
+  ...productSearchKeys,
+  category_id: id(),
+});
+
+export const categoryProductsQuerySchema = Joi.object<ProductListQuery>(productSearchKeys);
+
+/**
+ * User requests
+ */
+
+export const createUserSchema = Joi.object<CreateUserRequest>({
+  name: name().required(),
+  email: email().required(),
+});
+
+export const updateUserSchema = Joi.object<UpdateUserRequest>({
+  name: name(),
+  email: email(),
+}).or('name', 'email');
+
+export const updateUserRoleSchema = Joi.object<UpdateUserRoleRequest>({
+  role: Joi.string()
+    .valid(...Object.values(UserRole))
+    .required(),
+});
+
+/**
+ * Auth requests
+ */
+
+export const registerSchema = Joi.object<RegisterRequest>({
+  name: name().required(),
+  email: email().required(),
+  password: Joi.string().min(8).max(72).required(),
+});
+
+export const loginSchema = Joi.object<LoginRequest>({
+  email: Joi.string().trim().required(),
+  password: Joi.string().required(),
+});
+
+export const refreshTokenSchema = Joi.object<RefreshTokenRequest>({
+  refresh_token: Joi.string().required(),
+});
+
+/**
+ * Product requests
+ */
+
+// Low-stock alerts fire once available stock drops to the threshold; null disables them
+const reorderThreshold = () => Joi.number().integer().min(0).max(1000000).allow(null);
+
+// Shipping weight of one unit, up to 1000 kg
+const weightGrams = () => Joi.number().integer().min(0).max(1000000);
+
+// On-hand units, capped like manual adjustments so totals stay within int4
+const stockLevel = () => Joi.number().integer().min(0).max(1000000);
+
+export const createProductSchema = Joi.object<CreateProductRequest>({
+  name: name().required(),
+  price: money().required(),
+  stock: stockLevel().required(),
+  reorder_threshold: reorderThreshold(),
+  weight_grams: weightGrams(),
+  currency: currency(),
+});
+
+export const updateProductSchema = Joi.object<UpdateProductRequest>({
+  name: name(),
+  price: money(),
+  stock: stockLevel(),
+  reorder_threshold: reorderThreshold(),
+  weight_grams: weightGrams(),
+  currency: currency(),
+}).or('name', 'price', 'stock', 'reorder_threshold', 'weight_grams', 'currency');
+
+// Only manual reasons; sales, cancellations and refund returns are recorded by their own flows
+export const stockAdjustmentSchema = Joi.object<StockAdjustmentRequest>({
+  quantity: Joi.number()
+    .integer()
+    .min(-1000000)
+    .max(1000000)
+    .invalid(0)
+    .required()
+    .messages({ 'any.invalid': '{{#label}} must not be zero' }),
+  reason: Joi.string()
+    .valid(
+      InventoryMovementReason.RESTOCK,
+      InventoryMovementReason.ADJUSTMENT,
+      InventoryMovementReason.RETURN
+    )
+    .required(),
+  variant_id: id(),
+  note: Joi.string().trim().max(1000),
+});
+
+// Replaces the product's category links; an empty list removes them all
+export const setProductCategoriesSchema = Joi.object<SetProductCategoriesRequest>({
+  category_ids: Joi.array().items(id()).unique().max(50).required(),
+});
+
+/**
+ * Category requests
+ */
+
+export const createCategorySchema = Joi.object<CreateCategoryRequest>({
+  name: name().required(),
+  parent_id: id().allow(null),
+});
+
+export const updateCategorySchema = Joi.object<UpdateCategoryRequest>({
+  name: name(),
+  parent_id: id().allow(null),
+}).or('name', 'parent_id');
+
+/**
+ * Product variant requests
+ */
+
+const sku = () =>
+  Joi.string()
+    .trim()
+    .max(64)
+    .pattern(/^[A-Za-z0-9][A-Za-z0-9._-]*$/)
+    .messages({
+      'string.pattern.base':
+        '{{#label}} may only contain letters, digits, dots, dashes and underscores',
+    });
+
+// Flat map of attribute name to value, e.g. { "size": "M", "colour": "red" }
+const variantAttributes = () =>
+  Joi.object()
+    .pattern(
+      Joi.string().trim().min(1).max(50),
+      Joi.alternatives(Joi.string().trim().max(255), Joi.number(), Joi.boolean())
+    )
+    .max(20);
+
+export const createProductVariantSchema = Joi.object<CreateProductVariantRequest>({
+  sku: sku().required(),
+  attributes: variantAttributes().default({}),
+  price: money().allow(null),
+  stock: stockLevel().required(),
+});
+
+// price: null removes the override, so the variant sells at the product price again
+export const updateProductVariantSchema = Joi.object<UpdateProductVariantRequest>({
+  sku: sku(),
+  attributes: variantAttributes(),
+  price: money().allow(null),
+  stock: stockLevel(),
+}).or('sku', 'attributes', 'price', 'stock');
+
+/**
+ * Cart requests
+ */
+
+export const addCartItemSchema = Joi.object<AddCartItemRequest>({
+  product_id: id().required(),
+  variant_id: id(),
+  quantity: quantity().max(MAX_LINE_QUANTITY).required(),
+});
+
+export const updateCartItemSchema = Joi.object<UpdateCartItemRequest>({
+  quantity: quantity().max(MAX_LINE_QUANTITY).required(),
+});
+
+export const checkoutCartSchema = Joi.object<CheckoutCartRequest>({
+  discount_codes: discountCodes(),
+  region: region(),
+  currency: currency(),
+  shipping_address_id: id(),
+  billing_address_id: id(),
+});
+
+/**
+ * Address requests
+ */
+
+const addressLine = () => Joi.string().trim().min(1).max(255);
+
+// Optional fields accept null, which clears them on update
+const optionalText = (max: number) => Joi.string().trim().min(1).max(max).allow(null);
+
+const addressKeys = {
+  label: optionalText(50),
+  recipient_name: name(),
+  line1: addressLine(),
+  line2: optionalText(255),
+  city: Joi.string().trim().min(1).max(100),
+  // ISO 3166-2 subdivision code within the country (CA for US-CA)
+  subdivision: Joi.string()
+    .trim()
+    .uppercase()
+    .pattern(/^[A-Z0-9]{1,3}$/)
+    .allow(null)
+    .messages({ 'string.pattern.base': '{{#label}} must be an ISO 3166-2 subdivision code' }),
+  postal_code: Joi.string()
+    .trim()
+    .uppercase()
+    .pattern(/^[A-Z0-9][A-Z0-9 -]{1,9}$/)
+    .allow(null)
+    .messages({ 'string.pattern.base': '{{#label}} must be a valid postal code' }),
+  country: Joi.string()
+    .trim()
+    .uppercase()
+    .pattern(/^[A-Z]{2}$/)
+    .messages({ 'string.pattern.base': '{{#label}} must be an ISO 3166-1 alpha-2 country code' }),
+  phone: Joi.string()
+    .trim()
+    .pattern(/^\+?[0-9 ()-]{5,20}$/)
+    .allow(null)
+    .messages({ 'string.pattern.base': '{{#label}} must be a valid phone number' }),
+  is_default_shipping: Joi.boolean(),
+  is_default_billing: Joi.boolean(),
+};
+
+export const createAddressSchema = Joi.object<CreateAddressRequest>({
+  ...addressKeys,
+  recipient_name: addressKeys.recipient_name.required(),
+  line1: addressKeys.line1.required(),
+  city: addressKeys.city.required(),
+  country: addressKeys.country.required(),
+});
+
+export const updateAddressSchema = Joi.object<UpdateAddressRequest>(addressKeys).or(
+  ...Object.keys(addressKeys)
+);
+
+/**
+ * Discount requests
+ */
+
+// value is a percentage for percentage discounts and an amount for fixed ones; buy-X-get-Y
+// discounts take quantities instead
+export const createDiscountSchema = Joi.object<CreateDiscountRequest>({
+  code: discountCode().allow(null),
+  description: Joi.string().trim().max(500),
+  type: Joi.string()
+    .valid(...Object.values(DiscountType))
+    .required(),
+  value: Joi.when('type', {
+    switch: [
+      {
+        is: DiscountType.PERCENTAGE,
+        then: Joi.number().greater(0).max(100).precision(2).required(),
+      },
+      { is: DiscountType.FIXED, then: money().greater(0).required() },
+    ],
+    otherwise: Joi.forbidden(),
+  }),
+  product_id: id(),
+  buy_quantity: Joi.when('type', {
+    is: DiscountType.BUY_X_GET_Y,
+    then: quantity().max(1000).required(),
+    otherwise: Joi.forbidden(),
+  }),
+  get_quantity: Joi.when('type', {
+    is: DiscountType.BUY_X_GET_Y,
+    then: quantity().max(1000).required(),
+    otherwise: Joi.forbidden(),
+  }),
+  min_spend: money(),
+  starts_at: Joi.date().iso(),
+  ends_at: Joi.date()
+    .iso()
+    .when('starts_at', { is: Joi.exist(), then: Joi.date().greater(Joi.ref('starts_at')) })
+    .messages({ 'date.greater': 'ends_at must be later than starts_at' }),
+  max_uses: quantity(),
+  max_uses_per_user: quantity(),
+  active: Joi.boolean(),
+});
+
+export const updateDiscountSchema = Joi.object<UpdateDiscountRequest>({
+  description: Joi.string().trim().max(500),
+  min_spend: money().allow(null),
+  starts_at: Joi.date().iso().allow(null),
+  ends_at: Joi.date().iso().allow(null),
+  max_uses: quantity().allow(null),
+  max_uses_per_user: quantity().allow(null),
+  active: Joi.boolean(),
+}).or(
+  'description',
+  'min_spend',
+  'starts_at',
+  'ends_at',
+  'max_uses',
+  'max_uses_per_user',
+  'active'
+);
+
+/**
+ * Tax rate requests
+ */
+
+// Percentage with at most 3 decimal places (NUMERIC(6,3)); never rounded silently
+const taxRate = () =>
+  Joi.number()
+    .min(0)
+    .max(100)
+    .custom((value: number, helpers) =>
+      Number(toScaled(value, 3)) / 1000 === value
+        ? value
+        : helpers.error('number.precision', { limit: 3 })
+    );
+
+export const createTaxRateSchema = Joi.object<CreateTaxRateRequest>({
+  region: region().required(),
+  category_id: id().allow(null),
+  rate: taxRate().required(),
+});
+
+export const updateTaxRateSchema = Joi.object<UpdateTaxRateRequest>({
+  rate: taxRate().required(),
+});
+
+export const taxRateListQuerySchema = Joi.object<TaxRateFilters>({
+  region: region(),
+});
+
+/**
+ * Exchange rate requests
+ */
+
+// Positive rate with at most 8 decimal places (NUMERIC(18,8)); never rounded silently
+const exchangeRate = () =>
+  Joi.number()
+    .greater(0)
+    .max(9999999999)
+    .custom((value: number, helpers) =>
+      Number(toScaled(value, 8)) / 1e8 === value
+        ? value
+        : helpers.error('number.precision', { limit: 8 })
+    );
+
+export const createExchangeRateSchema = Joi.object<CreateExchangeRateRequest>({
+  currency: currency().required(),
+  rate: exchangeRate().required(),
+  effective_from: Joi.date().iso(),
+});
+
+export const exchangeRateListQuerySchema = Joi.object<ExchangeRateListQuery>({
+  ...paginationKeys,
+  currency: currency(),
+});
+
+/**
+ * Order requests
+ */
+
+export const createOrderSchema = Joi.object<CreateOrderRequest>({
+  user_id: id().required(),
+  items: Joi.array()
+    .items(
+      Joi.object({
+        product_id: id().required(),
+        variant_id: id(),
+        quantity: quantity().max(MAX_LINE_QUANTITY).required(),
+      })
+    )
+    .min(1)
+    .required(),
+  discount_codes: discountCodes(),
+  region: region(),
+  currency: currency(),
+  shipping_address_id: id(),
+  billing_address_id: id(),
+});
+
+export const updateOrderStatusSchema = Joi.object<UpdateOrderStatusRequest>({
+  status: Joi.string()
+    .valid(...Object.values(OrderStatus))
+    .required(),
+  reason: Joi.string().trim().max(1000),
+});
+
+/**
+ * Payment requests
+ */
+
+// order_id comes from the route (POST /orders/:id/payments)
+export const createPaymentSchema = Joi.object<Omit<CreatePaymentRequest, 'order_id'>>({
+  amount: money().greater(0).required(),
+  currency: currency(),
+  payment_method: Joi.string().trim().min(1).max(50).required(),
+});
+
+export const createRefundSchema = Joi.object<CreateRefundRequest>({
+  amount: money().greater(0),
+  items: Joi.array()
+    .items(
+      Joi.object({
+        order_item_id: id().required(),
+        quantity: quantity().max(MAX_LINE_QUANTITY).required(),
+      })
+    )
+    .min(1),
+  restock: Joi.boolean().default(false),
+  reason: Joi.string().trim().max(1000),
+}).oxor('amount', 'items');
@@ -0,0 +1,168 @@
+// Unit tests for middleware
+
+import { NextFunction, Request, Response } from 'express';
+import { authorize } from '../../src/middleware/authentication';
+import {
+  AuthenticationError,
+  ErrorCode,
+  ForbiddenError,
+  fromDatabaseError,
+} from '../../src/middleware/errorHandler';
+import orderService from '../../src/services/orderService';
+import paymentService from '../../src/services/paymentService';
+import { Permission, User, UserRole } from '../../src/types/index';
+
+const user = (id: number, role: UserRole): User => ({
+  id,
+  name: 'Test User',
+  email: `user${id}@example.com`,
+  role,
+  created_at: new Date('2026-01-01T00:00:00Z'),
+});
+
+/**
+ * Run authorize against a request and return what it passed to next
+ */
+const run = async (
+  permissions: Permission[],
+  request: { user?: User; params?: Record<string, string>; body?: unknown }
+): Promise<unknown> => {
+  const next = jest.fn() as jest.MockedFunction<NextFunction>;
+  const req = { params: {}, ...request } as unknown as Request;
+
+  await authorize(...permissions)(req, {} as Response, next);
+
+  expect(next).toHaveBeenCalledTimes(1);
+  return next.mock.calls[0][0];
+};
+
+describe('authorize', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('requires an authenticated user', async () => {
+    await expect(run([Permission.USERS_READ_ANY], {})).resolves.toBeInstanceOf(AuthenticationError);
+  });
+
+  it("lets ':any' permissions through without an ownership check", async () => {
+    const getOrderOwnerId = jest.spyOn(orderService, 'getOrderOwnerId');
+
+    const result = await run([Permission.ORDERS_READ_ANY, Permission.ORDERS_READ_OWN], {
+      user: user(2, UserRole.STAFF),
+      params: { id: '10' },
+    });
+
+    expect(result).toBeUndefined();
+    expect(getOrderOwnerId).not.toHaveBeenCalled();
+  });
+
+  it('refuses roles without any of the permissions', async () => {
+    await expect(
+      run([Permission.USERS_READ_ANY], { user: user(7, UserRole.CUSTOMER), params: { id: '7' } })
+    ).resolves.toBeInstanceOf(ForbiddenError);
+  });
+
+  it('lets customers reach their own user routes only', async () => {
+    const permissions = [Permission.USERS_READ_ANY, Permission.USERS_READ_OWN];
+    const customer = user(7, UserRole.CUSTOMER);
+
+    await expect(
+      run(permissions, { user: customer, params: { id: '7' } })
+    ).resolves.toBeUndefined();
+    await expect(run(permissions, { user: customer, params: { id: '8' } })).resolves.toBeInstanceOf(
+      ForbiddenError
+    );
+  });
+
+  it('checks the owner of the targeted order', async () => {
+    const getOrderOwnerId = jest.spyOn(orderService, 'getOrderOwnerId').mockResolvedValue(7);
+    const permissions = [Permission.ORDERS_READ_ANY, Permission.ORDERS_READ_OWN];
+
+    await expect(
+      run(permissions, { user: user(7, UserRole.CUSTOMER), params: { id: '10' } })
+    ).resolves.toBeUndefined();
+    await expect(
+      run(permissions, { user: user(8, UserRole.CUSTOMER), params: { id: '10' } })
+    ).resolves.toBeInstanceOf(ForbiddenError);
+    expect(getOrderOwnerId).toHaveBeenCalledWith(10);
+  });
+
+  it('refuses orders that do not exist', async () => {
+    jest.spyOn(orderService, 'getOrderOwnerId').mockResolvedValue(null);
+
+    await expect(
+      run([Permission.ORDERS_READ_OWN], { user: user(7, UserRole.CUSTOMER), params: { id: '99' } })
+    ).resolves.toBeInstanceOf(ForbiddenError);
+  });
+
+  it('checks the user_id of an order being placed', async () => {
+    const permissions = [Permission.ORDERS_CREATE_ANY, Permission.ORDERS_CREATE_OWN];
+    const customer = user(7, UserRole.CUSTOMER);
+
+    await expect(
+      run(permissions, { user: customer, body: { user_id: 7 } })
+    ).resolves.toBeUndefined();
+    await expect(
+      run(permissions, { user: customer, body: { user_id: 8 } })
+    ).resolves.toBeInstanceOf(ForbiddenError);
+  });
+
+  it('checks the owner of the order a payment belongs to', async () => {
+    jest.spyOn(paymentService, 'getPaymentOwnerId').mockResolvedValue(7);
+
+    await expect(
+      run([Permission.PAYMENTS_READ_OWN], { user: user(8, UserRole.CUSTOMER), params: { id: '3' } })
+    ).resolves.toBeInstanceOf(ForbiddenError);
+  });
+
+  it('passes lookup failures on to the error handler', async () => {
+    const failure = new Error('connection lost');
+    jest.spyOn(orderService, 'getOrderOwnerId').mockRejectedValue(failure);
+
+    await expect(
+      run([Permission.ORDERS_READ_OWN], { user: user(7, UserRole.CUSTOMER), params: { id: '10' } })
+    ).resolves.toBe(failure);
+  });
+});
+
+describe('fromDatabaseError', () => {
+  it('keeps column values out of constraint errors', () => {
+    const error = fromDatabaseError({
+      code: '23505',
+      constraint: 'users_email_key',
+      detail: 'Key (email)=(someone@example.com) already exists.',
+    });
+
+    expect(error).toMatchObject({
+      statusCode: 409,
+      message: 'Resource already exists',
+      details: { constraint: 'users_email_key' },
+    });
+    expect(
+      fromDatabaseError({ code: '23503', detail: 'Key (user_id)=(9) is not present' })
+    ).toMatchObject({
+      statusCode: 422,
+      message: 'Referenced resource does not exist',
+    });
+  });
+
+  it('maps numeric overflow to 422', () => {
+    expect(fromDatabaseError({ code: '22003' })).toMatchObject({
+      statusCode: 422,
+      code: ErrorCode.VALUE_OUT_OF_RANGE,
+    });
+  });
+
+  it('maps serialization failures to 409', () => {
+    expect(fromDatabaseError({ code: '40001' })).toMatchObject({
+      statusCode: 409,
+      code: ErrorCode.CONCURRENT_UPDATE,
+    });
+  });
+
+  it('leaves other errors to the generic handler', () => {
+    expect(fromDatabaseError(new Error('boom'))).toBeNull();
+    expect(fromDatabaseError({ code: '57014' })).toBeNull();
+  });
+});
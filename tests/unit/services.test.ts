@@ -1,2 +1,110 @@
 // Unit tests for services
-// TODO: Test user, product, and order service business logic
+
+import { buyXGetYCents, PricedLine } from '../../src/services/discountService';
+import { canTransition } from '../../src/services/orderService';
+import { createPaymentProvider, FakePaymentProvider } from '../../src/services/paymentProvider';
+import { allocate } from '../../src/services/pricingService';
+import { OrderStatus, PaymentStatus } from '../../src/types/index';
+
+describe('canTransition', () => {
+  it.each([
+    [OrderStatus.PENDING, OrderStatus.CONFIRMED],
+    [OrderStatus.PENDING, OrderStatus.CANCELLED],
+    [OrderStatus.CONFIRMED, OrderStatus.SHIPPED],
+    [OrderStatus.CONFIRMED, OrderStatus.CANCELLED],
+    [OrderStatus.SHIPPED, OrderStatus.DELIVERED],
+  ])('allows %s -> %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(true);
+  });
+
+  it.each([
+    [OrderStatus.PENDING, OrderStatus.SHIPPED],
+    [OrderStatus.SHIPPED, OrderStatus.CANCELLED],
+    [OrderStatus.DELIVERED, OrderStatus.CANCELLED],
+    [OrderStatus.CANCELLED, OrderStatus.PENDING],
+    [OrderStatus.CONFIRMED, OrderStatus.CONFIRMED],
+  ])('refuses %s -> %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(false);
+  });
+});
+
+describe('allocate', () => {
+  it('splits in proportion to the lines', () => {
+    expect(allocate(300, [1000, 2000])).toEqual([100, 200]);
+  });
+
+  it('always adds up to the amount', () => {
+    const shares = allocate(100, [1, 1, 1]);
+
+    expect(shares).toEqual([33, 34, 33]);
+    expect(shares.reduce((sum, share) => sum + share, 0)).toBe(100);
+  });
+
+  it('gives nothing to zero lines', () => {
+    expect(allocate(500, [0, 1000, 0])).toEqual([0, 500, 0]);
+    expect(allocate(500, [0, 0])).toEqual([0, 0]);
+    expect(allocate(500, [])).toEqual([]);
+  });
+});
+
+describe('buyXGetYCents', () => {
+  const line = (product_id: number, quantity: number, priceCents: number): PricedLine => ({
+    product_id,
+    quantity,
+    priceCents,
+  });
+
+  it('frees the get units of every complete group', () => {
+    expect(buyXGetYCents([line(1, 3, 500)], 2, 1)).toBe(500);
+    expect(buyXGetYCents([line(1, 5, 500)], 2, 1)).toBe(500);
+    expect(buyXGetYCents([line(1, 6, 500)], 2, 1)).toBe(1000);
+  });
+
+  it('gives nothing short of a complete group', () => {
+    expect(buyXGetYCents([line(1, 2, 500)], 2, 1)).toBe(0);
+    expect(buyXGetYCents([], 2, 1)).toBe(0);
+  });
+
+  it('frees the cheapest units across lines', () => {
+    const lines = [line(1, 2, 1000), line(2, 1, 300), line(3, 1, 700)];
+
+    expect(buyXGetYCents(lines, 1, 1)).toBe(300 + 700);
+  });
+
+  it('handles large quantities without walking every unit', () => {
+    expect(buyXGetYCents([line(1, 2_000_000_000, 1)], 1, 1)).toBe(1_000_000_000);
+  });
+});
+
+describe('createPaymentProvider', () => {
+  it('builds the fake provider outside production', () => {
+    expect(createPaymentProvider('fake', 'development')).toBeInstanceOf(FakePaymentProvider);
+  });
+
+  it('refuses the fake provider in production', () => {
+    expect(() => createPaymentProvider('fake', 'production')).toThrow(/fake payment provider/);
+  });
+
+  it('refuses unknown providers', () => {
+    expect(() => createPaymentProvider('acme', 'development')).toThrow(
+      'Unknown payment provider: acme'
+    );
+  });
+});
+
+describe('FakePaymentProvider', () => {
+  const request = { order_id: 1, amount: 10, currency: 'USD' };
+
+  it('approves charges', async () => {
+    const result = await new FakePaymentProvider().charge({ ...request, payment_method: 'card' });
+    expect(result.status).toBe(PaymentStatus.COMPLETED);
+  });
+
+  it('declines the configured payment methods', async () => {
+    const provider = new FakePaymentProvider(['expired_card']);
+
+    await expect(provider.charge({ ...request, payment_method: 'expired_card' })).resolves.toEqual(
+      expect.objectContaining({ status: PaymentStatus.FAILED, failure_reason: 'Card declined' })
+    );
+  });
+});
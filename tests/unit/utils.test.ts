@@ -1,2 +1,169 @@
 // Unit tests for utilities
-// TODO: Test validators and helper functions
+
+import {
+  convertCents,
+  decodeCursor,
+  divideRounded,
+  encodeCursor,
+  fromScaled,
+  percentOfCents,
+  takePage,
+  toCents,
+  toScaled,
+} from '../../src/utils/helpers';
+import {
+  addCartItemSchema,
+  createOrderSchema,
+  createProductSchema,
+  updateOrderStatusSchema,
+} from '../../src/utils/validator';
+
+describe('toScaled', () => {
+  it('scales strings and numbers without floating-point error', () => {
+    expect(toScaled('19.99', 2)).toBe(1999n);
+    expect(toScaled(19.99, 2)).toBe(1999n);
+    expect(toScaled(1.005, 2)).toBe(101n);
+    expect(toScaled('0.92', 8)).toBe(92000000n);
+  });
+
+  it('rounds half away from zero', () => {
+    expect(toScaled('2.345', 2)).toBe(235n);
+    expect(toScaled('2.344', 2)).toBe(234n);
+    expect(toScaled('-2.345', 2)).toBe(-235n);
+  });
+
+  it('reads exponent notation', () => {
+    expect(toScaled(1e-7, 8)).toBe(10n);
+    expect(toScaled('1.5e3', 2)).toBe(150000n);
+  });
+
+  it('accepts bare fractions and whole numbers', () => {
+    expect(toScaled('.5', 2)).toBe(50n);
+    expect(toScaled('7', 2)).toBe(700n);
+  });
+
+  it('rejects non-decimal input', () => {
+    expect(() => toScaled('abc', 2)).toThrow('Invalid decimal amount: abc');
+    expect(() => toScaled('.', 2)).toThrow();
+    expect(() => toScaled('', 2)).toThrow();
+  });
+});
+
+describe('fromScaled', () => {
+  it('formats with exactly scale places', () => {
+    expect(fromScaled(92000000n, 8)).toBe('0.92000000');
+    expect(fromScaled(100000000n, 8)).toBe('1.00000000');
+    expect(fromScaled(-5n, 2)).toBe('-0.05');
+    expect(fromScaled(42n, 0)).toBe('42');
+  });
+
+  it('round-trips through toScaled', () => {
+    expect(toScaled(fromScaled(123456789n, 8), 8)).toBe(123456789n);
+  });
+});
+
+describe('divideRounded', () => {
+  it('rounds half away from zero for every sign combination', () => {
+    expect(divideRounded(5n, 2n)).toBe(3n);
+    expect(divideRounded(-5n, 2n)).toBe(-3n);
+    expect(divideRounded(5n, -2n)).toBe(-3n);
+    expect(divideRounded(-5n, -2n)).toBe(3n);
+  });
+
+  it('rounds below half down', () => {
+    expect(divideRounded(7n, 3n)).toBe(2n);
+    expect(divideRounded(-7n, 3n)).toBe(-2n);
+  });
+});
+
+describe('money helpers', () => {
+  it('converts amounts to cents', () => {
+    expect(toCents('19.99')).toBe(1999);
+    expect(toCents(0.1 + 0.2)).toBe(30);
+  });
+
+  it('takes percentages with up to 3 decimals', () => {
+    expect(percentOfCents(1000, '7.25')).toBe(73);
+    expect(percentOfCents(999, 10)).toBe(100);
+  });
+});
+
+describe('convertCents', () => {
+  it('converts through the rates against the base currency', () => {
+    expect(convertCents(1000, '1.00000000', '0.92000000')).toBe(920);
+    expect(convertCents(920, '0.92000000', '1.00000000')).toBe(1000);
+  });
+
+  it('converts between two non-base currencies', () => {
+    expect(convertCents(1000, '0.92', '0.79')).toBe(859);
+  });
+
+  it('leaves amounts in the same currency unchanged', () => {
+    expect(convertCents(12345, '0.92', 0.92)).toBe(12345);
+  });
+
+  it('rounds the result once, half away from zero', () => {
+    expect(convertCents(1, '1', '0.5')).toBe(1);
+    expect(convertCents(-1, '1', '0.5')).toBe(-1);
+  });
+});
+
+describe('cursors', () => {
+  const row = { created_at: new Date('2026-01-02T03:04:05.678Z'), id: 42 };
+
+  it('round-trips a keyset position', () => {
+    expect(decodeCursor(encodeCursor(row))).toEqual(row);
+  });
+
+  it('produces URL-safe cursors', () => {
+    expect(encodeCursor(row)).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('rejects malformed cursors', () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    expect(decodeCursor('not a cursor')).toBeNull();
+    expect(decodeCursor(encode(['not a date', 1]))).toBeNull();
+    expect(decodeCursor(encode([row.created_at.toISOString(), 0]))).toBeNull();
+    expect(decodeCursor(encode([row.created_at.toISOString(), 1.5]))).toBeNull();
+    expect(decodeCursor(encode([12345, 1]))).toBeNull();
+  });
+
+  it('returns the cursor of the next page only when one follows', () => {
+    const rows = [1, 2, 3].map((id) => ({ created_at: new Date(Date.UTC(2026, 0, id)), id }));
+
+    const first = takePage(rows, 2);
+    expect(first.rows).toEqual(rows.slice(0, 2));
+    expect(decodeCursor(first.next_cursor as string)).toEqual(rows[1]);
+
+    expect(takePage(rows, 3).next_cursor).toBeNull();
+    expect(takePage(rows, 2, false).next_cursor).toBeNull();
+  });
+});
+
+describe('validators', () => {
+  it('caps order item quantities like cart quantities', () => {
+    const order = (quantity: number) => ({ user_id: 1, items: [{ product_id: 1, quantity }] });
+
+    expect(createOrderSchema.validate(order(1000)).error).toBeUndefined();
+    expect(createOrderSchema.validate(order(1001)).error).toBeDefined();
+    expect(addCartItemSchema.validate({ product_id: 1, quantity: 1001 }).error).toBeDefined();
+  });
+
+  it('keeps stock levels within int4', () => {
+    const product = (stock: number) => ({ name: 'Lamp', price: 10, stock });
+
+    expect(createProductSchema.validate(product(1000000)).error).toBeUndefined();
+    expect(createProductSchema.validate(product(2 ** 31)).error).toBeDefined();
+    expect(createProductSchema.validate(product(-1)).error).toBeDefined();
+  });
+
+  it('drops a status change actor sent in the body', () => {
+    const { value } = updateOrderStatusSchema.validate(
+      { status: 'shipped', actor: 'user:1' },
+      { stripUnknown: true }
+    );
+
+    expect(value).toEqual({ status: 'shipped' });
+  });
+});